@@ -15,30 +15,47 @@ if (__DEV__) {
   // Note that you must be using metro's `inlineRequires` for this to work.
   // If you turn it off in metro.config.js, you'll have to manually import it.
   require("./devtools/ReactotronConfig.ts")
+  // Answer API requests from local fixtures until switched off, on the Debug screen
+  // or with EXPO_PUBLIC_MOCK_API=0. Unmatched requests still reach the real backend.
+  require("./services/api/mock").installMockApi()
 }
 import "./utils/gestureHandler"
 
 import { useEffect, useState } from "react"
 import { useFonts } from "expo-font"
 import * as Linking from "expo-linking"
+import { GestureHandlerRootView } from "react-native-gesture-handler"
 import { KeyboardProvider } from "react-native-keyboard-controller"
+import { useMMKVObject } from "react-native-mmkv"
 import { initialWindowMetrics, SafeAreaProvider } from "react-native-safe-area-context"
-import { GestureHandlerRootView } from "react-native-gesture-handler"
 
+import { EnvironmentBadge } from "./components/EnvironmentBadge"
 import { AuthProvider } from "./context/AuthContext"
 import { ConnectionProvider } from "./context/ConnectionContext"
 import { PermissionProvider } from "./context/PermissionContext"
 import { initI18n } from "./i18n"
 import { AppNavigator } from "./navigators/AppNavigator"
 import { useNavigationPersistence } from "./navigators/navigationUtilities"
+import { AppLockProvider } from "./providers/AppLockProvider"
+import { BottomSheetProvider } from "./providers/BottomSheetProvider"
+import { CurrentUserProvider } from "./providers/CurrentUserProvider"
+import FlashMessage from "./providers/FlashMessageProvider"
+import { IdleTimeoutProvider } from "./providers/IdleTimeoutProvider"
+import { PopupMessageProvider } from "./providers/PopupMessageProvider"
+import { OIDC_REDIRECT_PATH } from "./services/oidc"
+import {
+  getAccountId,
+  migrateLegacySession,
+  Session,
+  SESSION_STORAGE_KEY,
+} from "./services/session"
+import { setNavigationBar } from "./services/sytemBars"
 import { ThemeProvider } from "./theme/context"
+import { $styles } from "./theme/styles"
 import { customFontsToLoad } from "./theme/typography"
 import { loadDateFnsLocale } from "./utils/formatDate"
 import * as storage from "./utils/storage"
-import FlashMessage from "./providers/FlashMessageProvider"
-import { BottomSheetProvider } from "./providers/BottomSheetProvider"
-import { PopupMessageProvider } from "./providers/PopupMessageProvider"
-import { setNavigationBar } from "./services/sytemBars"
+import { secureStorage } from "./utils/storage/secureStorage"
 
 export const NAVIGATION_PERSISTENCE_KEY = "NAVIGATION_STATE"
 
@@ -54,6 +71,7 @@ const config = {
         Register: "register",
         Intro: "intro",
         ForgotPassword: "forgot-password",
+        OidcCallback: OIDC_REDIRECT_PATH,
       },
     },
     Main: {
@@ -74,14 +92,27 @@ const config = {
  * @returns {JSX.Element} The rendered `App` component.
  */
 export function App() {
+  // Each account comes back to its own screens
+  const [session] = useMMKVObject<Session>(SESSION_STORAGE_KEY, secureStorage)
+  const navigationPersistenceKey = session?.accessToken
+    ? `${NAVIGATION_PERSISTENCE_KEY}.${getAccountId(session)}`
+    : NAVIGATION_PERSISTENCE_KEY
   const {
     initialNavigationState,
     onNavigationStateChange,
     isRestored: isNavigationStateRestored,
-  } = useNavigationPersistence(storage, NAVIGATION_PERSISTENCE_KEY)
+  } = useNavigationPersistence(storage, navigationPersistenceKey)
 
   const [areFontsLoaded, fontLoadError] = useFonts(customFontsToLoad)
   const [isI18nInitialized, setIsI18nInitialized] = useState(false)
+  const [isSessionMigrated, setIsSessionMigrated] = useState(false)
+
+  useEffect(() => {
+    // Tokens of older versions move to the encrypted storage before anything reads them
+    migrateLegacySession()
+      .catch((error) => console.error("Session migration failed:", error))
+      .finally(() => setIsSessionMigrated(true))
+  }, [])
 
   useEffect(() => {
     initI18n()
@@ -99,7 +130,12 @@ export function App() {
   // In iOS: application:didFinishLaunchingWithOptions:
   // In Android: https://stackoverflow.com/a/45838109/204044
   // You can replace with your own loading component if you wish.
-  if (!isNavigationStateRestored || !isI18nInitialized || (!areFontsLoaded && !fontLoadError)) {
+  if (
+    !isNavigationStateRestored ||
+    !isI18nInitialized ||
+    !isSessionMigrated ||
+    (!areFontsLoaded && !fontLoadError)
+  ) {
     return null
   }
 
@@ -110,26 +146,34 @@ export function App() {
 
   // otherwise, we're ready to render the app
   return (
-    <GestureHandlerRootView style={{ flex: 1 }}>
+    <GestureHandlerRootView style={$styles.flex1}>
       <SafeAreaProvider initialMetrics={initialWindowMetrics}>
         <KeyboardProvider>
           <AuthProvider>
-            <ConnectionProvider>
-              <PermissionProvider>
-                <ThemeProvider initialContext="light">
-                  <BottomSheetProvider>
-                    <PopupMessageProvider>
-                      <AppNavigator
-                        linking={linking}
-                        initialState={initialNavigationState}
-                        onStateChange={onNavigationStateChange}
-                      />
-                      <FlashMessage />
-                    </PopupMessageProvider>
-                  </BottomSheetProvider>
-                </ThemeProvider>
-              </PermissionProvider>
-            </ConnectionProvider>
+            <CurrentUserProvider>
+              <ConnectionProvider>
+                <PermissionProvider>
+                  <ThemeProvider initialContext="light">
+                    <BottomSheetProvider>
+                      <PopupMessageProvider>
+                        <IdleTimeoutProvider>
+                          <AppLockProvider>
+                            <AppNavigator
+                              key={navigationPersistenceKey}
+                              linking={linking}
+                              initialState={initialNavigationState}
+                              onStateChange={onNavigationStateChange}
+                            />
+                          </AppLockProvider>
+                        </IdleTimeoutProvider>
+                        <FlashMessage />
+                        <EnvironmentBadge />
+                      </PopupMessageProvider>
+                    </BottomSheetProvider>
+                  </ThemeProvider>
+                </PermissionProvider>
+              </ConnectionProvider>
+            </CurrentUserProvider>
           </AuthProvider>
         </KeyboardProvider>
       </SafeAreaProvider>
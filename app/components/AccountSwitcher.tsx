@@ -0,0 +1,91 @@
+import { TextStyle, View, ViewStyle } from "react-native"
+
+import { useAuth } from "@/context/AuthContext"
+import { translate } from "@/i18n/translate"
+import type { Account } from "@/services/session"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+import { ListItem } from "./ListItem"
+import { Text } from "./Text"
+import { Avatar } from "./ui/Avatar"
+
+export interface AccountSwitcherProps {
+  /**
+   * Called once an account is picked, added or signed out, e.g. to close the sheet
+   */
+  onDone?: () => void
+}
+
+const getAccountName = (account: Account) =>
+  account.email ?? account.userId ?? translate("accountSwitcher:unnamedAccount")
+
+/**
+ * The signed-in accounts, to switch between them, add one or sign the active one out.
+ */
+export function AccountSwitcher(props: AccountSwitcherProps) {
+  const { onDone } = props
+  const { accounts, switchAccount, addAccount, logout } = useAuth()
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  const run = (action: () => void) => () => {
+    action()
+    onDone?.()
+  }
+
+  return (
+    <View style={themed($container)}>
+      <Text tx="accountSwitcher:title" preset="subheading" style={themed($title)} />
+
+      {accounts.map((account) => (
+        <ListItem
+          key={account.id}
+          text={getAccountName(account)}
+          accessibilityState={{ selected: account.isActive }}
+          LeftComponent={
+            <Avatar text={getAccountName(account)} size="small" containerStyle={themed($avatar)} />
+          }
+          rightIcon={account.isActive ? "check" : undefined}
+          rightIconColor={colors.tint}
+          bottomSeparator
+          onPress={run(() => switchAccount(account.id))}
+        />
+      ))}
+
+      <ListItem
+        tx="accountSwitcher:addAccount"
+        leftIcon="community"
+        bottomSeparator
+        onPress={run(addAccount)}
+      />
+      <ListItem
+        tx="accountSwitcher:signOut"
+        leftIcon="x"
+        leftIconColor={colors.error}
+        textStyle={themed($signOut)}
+        onPress={run(logout)}
+      />
+    </View>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $avatar: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  alignSelf: "center",
+  marginEnd: spacing.md,
+})
+
+const $signOut: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
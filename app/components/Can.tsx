@@ -0,0 +1,30 @@
+import { ReactNode } from "react"
+
+import { useAuthorization } from "@/hooks/useAuthorization"
+import type { Permission } from "@/services/authorization"
+
+export interface CanProps {
+  /**
+   * Permission required to render the children, or a list of permissions all required
+   */
+  permission: Permission | Permission[]
+  /**
+   * Rendered instead of the children without the permission
+   */
+  fallback?: ReactNode
+  children: ReactNode
+}
+
+/**
+ * Renders its children only for users with a permission.
+ * @example
+ * <Can permission="data:edit">
+ *   <Button text="Edit" onPress={edit} />
+ * </Can>
+ */
+export function Can(props: CanProps) {
+  const { permission, fallback = null, children } = props
+  const { can } = useAuthorization()
+
+  return <>{can(permission) ? children : fallback}</>
+}
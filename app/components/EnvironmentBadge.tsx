@@ -0,0 +1,48 @@
+import { TextStyle, View, ViewStyle } from "react-native"
+
+import { useApiEnvironment } from "@/hooks/useApiEnvironment"
+import type { ApiEnvironmentName } from "@/services/api/env"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+import { Text } from "./Text"
+
+/**
+ * Shows which backend the app talks to. Renders nothing in release builds.
+ * @returns {JSX.Element | null} The rendered `EnvironmentBadge` component.
+ */
+export function EnvironmentBadge() {
+  const { environment } = useApiEnvironment()
+  const { themed } = useAppTheme()
+  const $insets = useSafeAreaInsetsStyle(["top"], "margin")
+
+  if (!__DEV__) return null
+
+  return (
+    <View pointerEvents="none" style={[$insets, themed($badge(environment.name))]}>
+      <Text size="xxs" weight="medium" style={themed($label)} text={environment.label} />
+    </View>
+  )
+}
+
+const $badge =
+  (name: ApiEnvironmentName): ThemedStyle<ViewStyle> =>
+  ({ colors, spacing }) => ({
+    position: "absolute",
+    top: 0,
+    right: spacing.xs,
+    paddingHorizontal: spacing.xs,
+    borderRadius: spacing.xs,
+    opacity: 0.85,
+    backgroundColor: {
+      dev: colors.palette.secondary500,
+      staging: colors.palette.accent500,
+      prod: colors.error,
+      custom: colors.palette.neutral700,
+    }[name],
+  })
+
+const $label: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.palette.neutral100,
+})
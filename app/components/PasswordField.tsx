@@ -0,0 +1,53 @@
+import { ComponentType, forwardRef, Ref, useMemo, useState } from "react"
+// eslint-disable-next-line no-restricted-imports
+import { TextInput } from "react-native"
+
+import { useAppTheme } from "@/theme/context"
+
+import { PressableIcon } from "./Icon"
+import { TextField, TextFieldAccessoryProps, TextFieldProps } from "./TextField"
+
+export interface PasswordFieldProps extends Omit<
+  TextFieldProps,
+  "secureTextEntry" | "RightAccessory"
+> {}
+
+/**
+ * A `TextField` for passwords, with a button that shows or hides what was typed.
+ */
+export const PasswordField = forwardRef(function PasswordField(
+  props: PasswordFieldProps,
+  ref: Ref<TextInput>,
+) {
+  const [isHidden, setIsHidden] = useState(true)
+  const {
+    theme: { colors },
+  } = useAppTheme()
+
+  const RightAccessory: ComponentType<TextFieldAccessoryProps> = useMemo(
+    () =>
+      function PasswordRightAccessory(accessoryProps: TextFieldAccessoryProps) {
+        return (
+          <PressableIcon
+            icon={isHidden ? "view" : "hidden"}
+            color={colors.palette.neutral800}
+            containerStyle={accessoryProps.style}
+            size={20}
+            onPress={() => setIsHidden(!isHidden)}
+          />
+        )
+      },
+    [isHidden, colors.palette.neutral800],
+  )
+
+  return (
+    <TextField
+      ref={ref}
+      autoCapitalize="none"
+      autoCorrect={false}
+      {...props}
+      secureTextEntry={isHidden}
+      RightAccessory={RightAccessory}
+    />
+  )
+})
@@ -0,0 +1,142 @@
+import { Pressable, StyleProp, TextStyle, View, ViewStyle } from "react-native"
+
+import { translate } from "@/i18n/translate"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+import { PressableIcon } from "./Icon"
+import { Text } from "./Text"
+
+const DIGITS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"]
+
+export interface PinPadProps {
+  /**
+   * Digits entered so far
+   */
+  value: string
+  onChange: (value: string) => void
+  /**
+   * Called by the confirm key, once `minLength` digits are entered
+   */
+  onSubmit: (value: string) => void
+  minLength?: number
+  maxLength?: number
+  disabled?: boolean
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * Dots for the digits entered and a numeric keypad, for entering PINs.
+ */
+export function PinPad(props: PinPadProps) {
+  const {
+    value,
+    onChange,
+    onSubmit,
+    minLength = 4,
+    maxLength = 6,
+    disabled = false,
+    style: $styleOverride,
+  } = props
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  const press = (digit: string) => {
+    if (disabled || value.length >= maxLength) return
+    onChange(value + digit)
+  }
+
+  const canSubmit = !disabled && value.length >= minLength
+
+  const renderDigit = (digit: string) => (
+    <Pressable
+      key={digit}
+      accessibilityRole="button"
+      accessibilityLabel={digit}
+      disabled={disabled}
+      onPress={() => press(digit)}
+      style={({ pressed }) => themed([$key, pressed && $keyPressed])}
+    >
+      <Text text={digit} preset="heading" style={themed(disabled && $disabledText)} />
+    </Pressable>
+  )
+
+  return (
+    <View style={$styleOverride}>
+      <View style={themed($dots)} accessibilityLabel={`${value.length} / ${maxLength}`}>
+        {Array.from({ length: maxLength }, (_, index) => (
+          <View key={index} style={themed([$dot, index < value.length && $dotFilled])} />
+        ))}
+      </View>
+
+      <View style={themed($keys)}>
+        {DIGITS.map(renderDigit)}
+        <PressableIcon
+          containerStyle={themed($key)}
+          icon="caretLeft"
+          size={28}
+          color={value && !disabled ? colors.text : colors.tintInactive}
+          accessibilityLabel={translate("pinPad:delete")}
+          disabled={disabled || !value}
+          onPress={() => onChange(value.slice(0, -1))}
+        />
+        {renderDigit("0")}
+        <PressableIcon
+          containerStyle={themed($key)}
+          icon="check"
+          size={28}
+          color={canSubmit ? colors.tint : colors.tintInactive}
+          accessibilityLabel={translate("pinPad:submit")}
+          disabled={!canSubmit}
+          onPress={() => onSubmit(value)}
+        />
+      </View>
+    </View>
+  )
+}
+
+const $dots: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  justifyContent: "center",
+  gap: spacing.md,
+  marginBottom: spacing.xl,
+})
+
+const $dot: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  width: 14,
+  height: 14,
+  borderRadius: 7,
+  borderWidth: 1,
+  borderColor: colors.border,
+})
+
+const $dotFilled: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  backgroundColor: colors.tint,
+  borderColor: colors.tint,
+})
+
+const $keys: ThemedStyle<ViewStyle> = () => ({
+  flexDirection: "row",
+  flexWrap: "wrap",
+  justifyContent: "center",
+  alignSelf: "center",
+  width: 3 * 88,
+})
+
+const $key: ThemedStyle<ViewStyle> = () => ({
+  width: 88,
+  height: 72,
+  alignItems: "center",
+  justifyContent: "center",
+  borderRadius: 36,
+})
+
+const $keyPressed: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  backgroundColor: colors.separator,
+})
+
+const $disabledText: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.tintInactive,
+})
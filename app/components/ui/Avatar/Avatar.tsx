@@ -3,7 +3,7 @@
  * A reusable avatar component supporting images, URIs, and text fallbacks
  */
 
-import React from "react"
+import React, { useEffect, useState } from "react"
 import { View, StyleSheet, Image, ImageStyle, ViewStyle, TextStyle } from "react-native"
 import { useAppTheme } from "@/theme/context"
 import { Text } from "@/components/Text"
@@ -22,7 +22,7 @@ export interface AvatarProps {
    */
   asset?: number
   /**
-   * Text to show as fallback (usually first letter of name)
+   * Text to show as fallback, usually the name. Shown as its initials.
    */
   text?: string
   /**
@@ -77,11 +77,14 @@ export const Avatar: React.FC<AvatarProps> = ({
   const sizeStyles = sizeStylesMap[size]
   const borderRadius = shape === "circle" ? sizeStyles.width / 2 : borderRadiusMap[shape]
 
-  const hasImage = !!(source || asset)
+  // A photo that fails to load falls back to the initials
+  const [failedSource, setFailedSource] = useState<string>()
+  useEffect(() => setFailedSource(undefined), [source])
+
+  const hasImage = !!((source && source !== failedSource) || asset)
   const opacity = disabled ? 0.5 : 1
 
-  // Get display text (first character, uppercase)
-  const displayText = text ? text.charAt(0).toUpperCase() : ""
+  const displayText = getInitials(text)
 
   // Default background colors for text fallback (if not provided)
   const defaultBgColor = backgroundColor || theme.colors.tint
@@ -106,6 +109,7 @@ export const Avatar: React.FC<AvatarProps> = ({
         <Image
           source={source ? { uri: source } : asset}
           style={[styles.image, { borderRadius }]}
+          onError={() => setFailedSource(source)}
         />
       ) : displayText ? (
         <Text
@@ -124,6 +128,17 @@ export const Avatar: React.FC<AvatarProps> = ({
   )
 }
 
+/**
+ * First letters of the first and last words, e.g. "AL" for "Ada Lovelace"
+ */
+function getInitials(text?: string): string {
+  const words = (text ?? "").trim().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return ""
+  const first = words[0].charAt(0)
+  const last = words.length > 1 ? words[words.length - 1].charAt(0) : ""
+  return (first + last).toUpperCase()
+}
+
 const styles = StyleSheet.create({
   container: {
     overflow: "hidden",
@@ -17,7 +17,7 @@ export interface HeaderAppProps {
    */
   avatarUri?: string
   /**
-   * Avatar text fallback (first letter of name)
+   * Avatar text fallback, usually the name. Shown as its initials.
    */
   avatarText?: string
   /**
@@ -0,0 +1,163 @@
+/**
+ * UploadList component
+ * Progress of the queued chunked uploads, with pause, resume and cancel actions
+ */
+
+import { FC } from "react"
+import { View, StyleSheet, Pressable, ViewStyle } from "react-native"
+
+import { Text } from "@/components/Text"
+import { useUploads } from "@/hooks/useUploads"
+import { getUploadProgress, UploadEntry, UploadStatus } from "@/services/uploads"
+import { useAppTheme } from "@/theme/context"
+import { getFileSize } from "@/utils/helpers/fileHelper"
+import { scale, moderateScale, scaleFontSize } from "@/utils/responsive"
+
+export interface UploadListProps {
+  /**
+   * Hide completed uploads
+   */
+  hideCompleted?: boolean
+  /**
+   * Text shown when there is nothing to upload
+   */
+  emptyText?: string
+  /**
+   * Container style override
+   */
+  style?: ViewStyle
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  waiting: "Waiting for connection",
+  paused: "Paused",
+  failed: "Failed",
+  completed: "Done",
+}
+
+export const UploadList: FC<UploadListProps> = ({
+  hideCompleted = false,
+  emptyText = "No uploads",
+  style,
+}) => {
+  const { theme } = useAppTheme()
+  const { uploads, pause, resume, cancel } = useUploads()
+
+  const visible = hideCompleted
+    ? uploads.filter((upload) => upload.status !== "completed")
+    : uploads
+
+  if (visible.length === 0) {
+    return (
+      <View style={[styles.container, style]}>
+        <Text style={[styles.empty, { color: theme.colors.textDim }]}>{emptyText}</Text>
+      </View>
+    )
+  }
+
+  const renderActions = (upload: UploadEntry) => {
+    const actions: { label: string; onPress: () => void }[] = []
+    if (upload.status === "uploading" || upload.status === "queued") {
+      actions.push({ label: "Pause", onPress: () => pause(upload.id) })
+    }
+    if (upload.status === "paused" || upload.status === "failed" || upload.status === "waiting") {
+      actions.push({ label: "Resume", onPress: () => resume(upload.id) })
+    }
+    if (upload.status !== "completed") {
+      actions.push({ label: "Cancel", onPress: () => cancel(upload.id) })
+    }
+
+    return actions.map((action) => (
+      <Pressable key={action.label} onPress={action.onPress} hitSlop={scale(8)}>
+        <Text style={[styles.action, { color: theme.colors.tint }]}>{action.label}</Text>
+      </Pressable>
+    ))
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      {visible.map((upload) => {
+        const progress = getUploadProgress(upload)
+        const barColor =
+          upload.status === "failed"
+            ? theme.colors.error
+            : upload.status === "completed"
+              ? theme.colors.palette.secondary400
+              : theme.colors.tint
+
+        return (
+          <View key={upload.id} style={[styles.item, { borderColor: theme.colors.separator }]}>
+            <View style={styles.row}>
+              <Text numberOfLines={1} style={styles.name}>
+                {upload.fileName}
+              </Text>
+              <Text style={[styles.meta, { color: theme.colors.textDim }]}>
+                {getFileSize(upload.size)}
+              </Text>
+            </View>
+            <View style={[styles.track, { backgroundColor: theme.colors.palette.neutral300 }]}>
+              <View
+                style={[styles.bar, { width: `${progress * 100}%`, backgroundColor: barColor }]}
+              />
+            </View>
+            <View style={styles.row}>
+              <Text style={[styles.meta, { color: theme.colors.textDim }]}>
+                {STATUS_LABELS[upload.status]} · {Math.round(progress * 100)}%
+              </Text>
+              <View style={styles.actions}>{renderActions(upload)}</View>
+            </View>
+          </View>
+        )
+      })}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  action: {
+    fontSize: scaleFontSize(13),
+    fontWeight: "600",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: scale(12),
+  },
+  bar: {
+    height: "100%",
+  },
+  container: {
+    gap: scale(8),
+  },
+  empty: {
+    fontSize: scaleFontSize(14),
+    paddingVertical: scale(16),
+    textAlign: "center",
+  },
+  item: {
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    gap: scale(6),
+    padding: scale(12),
+  },
+  meta: {
+    fontSize: scaleFontSize(12),
+  },
+  name: {
+    flex: 1,
+    fontSize: scaleFontSize(14),
+    fontWeight: "600",
+    marginRight: scale(8),
+  },
+  row: {
+    alignItems: "center",
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  track: {
+    borderRadius: scale(2),
+    height: scale(4),
+    overflow: "hidden",
+  },
+})
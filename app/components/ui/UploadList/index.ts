@@ -0,0 +1,2 @@
+export { UploadList } from "./UploadList"
+export type { UploadListProps } from "./UploadList"
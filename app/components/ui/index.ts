@@ -34,3 +34,6 @@ export type { HeaderAppProps } from "./HeaderApp"
 
 export { Frame } from "./Frame"
 export type { FrameProps } from "./Frame"
+
+export { UploadList } from "./UploadList"
+export type { UploadListProps } from "./UploadList"
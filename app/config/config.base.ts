@@ -1,7 +1,27 @@
+/**
+ * The identity provider for company sign-in, see `services/oidc`
+ */
+export interface OidcConfig {
+  /**
+   * Url of the provider's discovery document, `<issuer>/.well-known/openid-configuration`
+   */
+  discoveryUrl: string
+  /**
+   * Public client registered for the app, allowed to redirect to `<scheme>://oauth/callback`
+   */
+  clientId: string
+  scopes: string[]
+}
+
 export interface ConfigBaseProps {
   persistNavigation: "always" | "dev" | "prod" | "never"
   catchErrors: "always" | "dev" | "prod" | "never"
+  networkInspector: "always" | "dev" | "prod" | "never"
   exitRoutes: string[]
+  idleTimeout: number
+  idleWarning: number
+  appLockGracePeriod: number
+  oidc?: OidcConfig
 }
 
 export type PersistNavigationConfig = ConfigBaseProps["persistNavigation"]
@@ -16,11 +36,42 @@ const BaseConfig: ConfigBaseProps = {
    */
   catchErrors: "always",
 
+  /**
+   * Capture API traffic for the network inspector on the Developer screen.
+   * Set to "always" for release candidates, which Reactotron can't attach to.
+   */
+  networkInspector: "dev",
+
   /**
    * This is a list of all the route names that will exit the app if the back button
    * is pressed while in that screen. Only affects Android.
    */
   exitRoutes: ["Welcome"],
+
+  /**
+   * Sign out after this many milliseconds without touches or navigation, including time
+   * spent in the background. 0 keeps users signed in.
+   */
+  idleTimeout: 15 * 60 * 1000,
+
+  /**
+   * How long before the idle sign out a warning lets users stay signed in, in milliseconds
+   */
+  idleWarning: 60 * 1000,
+
+  /**
+   * Milliseconds the app can spend in the background before the PIN is asked again
+   */
+  appLockGracePeriod: 30 * 1000,
+
+  /**
+   * Offer signing in with the company account. Without it, only passwords are offered.
+   */
+  oidc: {
+    discoveryUrl: "https://id.example.com/.well-known/openid-configuration",
+    clientId: "tallygreen-mobile",
+    scopes: ["openid", "profile", "email", "offline_access"],
+  },
 }
 
 export default BaseConfig
@@ -7,4 +7,14 @@
  */
 export default {
   API_URL: "https://api.rss2json.com/v1/",
+  /**
+   * A local stand-in for the company identity provider, e.g.
+   * `docker run -p 8080:8080 ghcr.io/navikt/mock-oauth2-server`, which signs in any user.
+   * On an Android emulator, run `adb reverse tcp:8080 tcp:8080` first.
+   */
+  oidc: {
+    discoveryUrl: "http://localhost:8080/default/.well-known/openid-configuration",
+    clientId: "tallygreen-mobile",
+    scopes: ["openid", "profile", "email", "offline_access"],
+  },
 }
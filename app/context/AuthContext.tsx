@@ -1,44 +1,141 @@
-import { createContext, FC, PropsWithChildren, useCallback, useContext, useMemo } from "react"
-import { useMMKVString } from "react-native-mmkv"
+import { createContext, FC, PropsWithChildren, useCallback, useContext, useEffect } from "react"
+import { useMMKVObject, useMMKVString } from "react-native-mmkv"
+
+import { clearResponseCache } from "@/services/api/cache"
+import { clearPin } from "@/services/appLock"
+import { clearDownloads } from "@/services/downloads"
+import { downloadManager } from "@/services/downloads/DownloadManager"
+import { clearNetworkLog } from "@/services/networkLog"
+import { clearOutbox } from "@/services/outbox"
+import {
+  Account,
+  ACCOUNTS_STORAGE_KEY,
+  clearAccounts,
+  clearSession,
+  deactivateSession,
+  getAccountId,
+  listAccounts,
+  onSessionExpired,
+  Session,
+  SESSION_STORAGE_KEY,
+  setSession,
+  switchAccount,
+} from "@/services/session"
+import { clearUploads } from "@/services/uploads"
+import { uploadManager } from "@/services/uploads/UploadManager"
+import { clearCurrentUser } from "@/services/user"
+import { secureStorage } from "@/utils/storage/secureStorage"
 
 export type AuthContextType = {
   isAuthenticated: boolean
+  session?: Session
   authToken?: string
   authEmail?: string
+  setSession: (session: Session) => void
   setAuthToken: (token?: string) => void
   setAuthEmail: (email: string) => void
+  /**
+   * Every signed-in account, the active one included
+   */
+  accounts: Account[]
+  activeAccountId?: string
+  switchAccount: (accountId: string) => boolean
+  /**
+   * Shows the login screen for another account, keeping the current one signed in
+   */
+  addAccount: () => void
+  /**
+   * Signs the active account out, and switches to another signed-in account if any
+   */
   logout: () => void
-  validationError: string
+  /**
+   * Signs every account out
+   */
+  logoutAll: () => void
 }
 
 export const AuthContext = createContext<AuthContextType | null>(null)
 
 export interface AuthProviderProps {}
 
+/**
+ * Drops what belongs to an account signing out: cached responses, profile,
+ * queued mutations, uploads and downloaded files
+ */
+function clearAccountData(accountId: string) {
+  clearResponseCache(accountId)
+  clearCurrentUser(accountId)
+  clearOutbox(accountId)
+  uploadManager.clear(accountId)
+  downloadManager.clear(accountId)
+}
+
 export const AuthProvider: FC<PropsWithChildren<AuthProviderProps>> = ({ children }) => {
-  const [authToken, setAuthToken] = useMMKVString("AuthProvider.authToken")
+  // Written by ApiService as well, so token refreshes and expiry show up here
+  const [session] = useMMKVObject<Session>(SESSION_STORAGE_KEY, secureStorage)
   const [authEmail, setAuthEmail] = useMMKVString("AuthProvider.authEmail")
+  // Renders again whenever an account signs in or out
+  useMMKVString(ACCOUNTS_STORAGE_KEY, secureStorage)
 
-  const logout = useCallback(() => {
-    setAuthToken(undefined)
+  const setAuthToken = useCallback((token?: string) => {
+    if (token) {
+      setSession({ accessToken: token })
+    } else {
+      clearSession()
+    }
+  }, [])
+
+  const accounts = listAccounts()
+  const activeAccountId = session?.accessToken ? getAccountId(session) : undefined
+
+  const clearUserData = useCallback(() => {
+    // Once no account is left, the device is back to a fresh install
+    clearNetworkLog()
+    clearCurrentUser()
+    clearOutbox()
+    clearUploads()
+    clearDownloads()
+    clearPin()
     setAuthEmail("")
-  }, [setAuthEmail, setAuthToken])
+  }, [setAuthEmail])
+
+  const logout = useCallback(() => {
+    const accountId = activeAccountId
+    clearSession()
+    if (accountId) clearAccountData(accountId)
+
+    const next = listAccounts()[0]
+    if (next) {
+      switchAccount(next.id)
+    } else {
+      clearResponseCache()
+      clearUserData()
+    }
+  }, [activeAccountId, clearUserData])
+
+  const logoutAll = useCallback(() => {
+    listAccounts().forEach((account) => clearAccountData(account.id))
+    clearAccounts()
+    clearResponseCache()
+    clearUserData()
+  }, [clearUserData])
 
-  const validationError = useMemo(() => {
-    if (!authEmail || authEmail.length === 0) return "can't be blank"
-    if (authEmail.length < 6) return "must be at least 6 characters"
-    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(authEmail)) return "must be a valid email address"
-    return ""
-  }, [authEmail])
+  useEffect(() => onSessionExpired(logout), [logout])
 
   const value = {
-    isAuthenticated: !!authToken,
-    authToken,
+    isAuthenticated: !!session?.accessToken,
+    session,
+    authToken: session?.accessToken,
     authEmail,
+    setSession,
     setAuthToken,
     setAuthEmail,
+    accounts,
+    activeAccountId,
+    switchAccount,
+    addAccount: deactivateSession,
     logout,
-    validationError,
+    logoutAll,
   }
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
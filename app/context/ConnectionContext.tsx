@@ -4,8 +4,14 @@
  */
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from "react"
+import { AppState } from "react-native"
 import NetInfo from "@react-native-community/netinfo"
 
+import apiService from "@/services/api/ApiService"
+import downloadManager from "@/services/downloads/DownloadManager"
+import realtime from "@/services/realtime"
+import uploadManager from "@/services/uploads/UploadManager"
+
 interface ConnectionContextValue {
   isConnected: boolean
   isInternetReachable: boolean
@@ -42,6 +48,24 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({ children
     }
   }, [])
 
+  // Replay mutations queued while offline and resume transfers as soon as the internet is back
+  useEffect(() => {
+    if (isConnected && isInternetReachable) {
+      apiService.replayOutbox()
+      uploadManager.resumeAll()
+      downloadManager.resumeAll()
+    }
+    realtime.setOnline(isConnected && isInternetReachable)
+  }, [isConnected, isInternetReachable])
+
+  // Keep the realtime socket closed in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      realtime.setForeground(state === "active")
+    })
+    return () => subscription.remove()
+  }, [])
+
   return (
     <ConnectionContext.Provider
       value={{ isConnected, isInternetReachable, connectionType }}
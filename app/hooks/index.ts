@@ -3,7 +3,14 @@
  * Export all custom hooks
  */
 
+export { useAccountSwitcher } from "./useAccountSwitcher"
+export { useApiEnvironment } from "./useApiEnvironment"
+export type { UseApiEnvironmentResult } from "./useApiEnvironment"
+export { useAuthorization } from "./useAuthorization"
+export type { UseAuthorizationResult } from "./useAuthorization"
 export { useBottomSheet } from "./useBottomSheet"
+export { useChannel } from "./useChannel"
+export type { UseChannelResult } from "./useChannel"
 export { useFlashMessage, useFlashMessage as default } from "./useFlashMessage"
 export type { FlashMessageOptions, FlashMessageType } from "./useFlashMessage"
 export { useFormikSubmit } from "./useFormikSubmit"
@@ -19,5 +26,13 @@ export type {
 } from "./useInfiniteList"
 export { useInternetConnection, useConnectionChange } from "./useInternetConnection"
 export type { ConnectionStatus, UseConnectionChangeOptions } from "./useInternetConnection"
+export { useNetworkLog } from "./useNetworkLog"
+export type { UseNetworkLogResult } from "./useNetworkLog"
+export { useOutbox } from "./useOutbox"
+export type { UseOutboxResult } from "./useOutbox"
+export { useUploads } from "./useUploads"
+export type { UseUploadsResult } from "./useUploads"
+export { useDownloads } from "./useDownloads"
+export type { UseDownloadsResult } from "./useDownloads"
 export { useAppPermission, useCameraPermission, useLocationPermission, usePhotoLibraryPermission, useStoragePermission, useNotificationPermission } from "./usePermissions"
 export type { PermissionResult } from "./usePermissions"
@@ -0,0 +1,26 @@
+/**
+ * useAccountSwitcher.tsx
+ * Hook for opening the account switcher in the bottom sheet
+ */
+
+import { useCallback } from "react"
+
+import { AccountSwitcher } from "@/components/AccountSwitcher"
+
+import { useBottomSheet } from "./useBottomSheet"
+
+/**
+ * @returns A function that shows the signed-in accounts, e.g. for `HeaderApp`'s `onAvatarPress`.
+ */
+export const useAccountSwitcher = () => {
+  const { showBottomSheet, closeBottomSheet } = useBottomSheet()
+
+  return useCallback(
+    () =>
+      showBottomSheet({
+        snapPoints: ["50%"],
+        renderContent: () => <AccountSwitcher onDone={closeBottomSheet} />,
+      }),
+    [showBottomSheet, closeBottomSheet],
+  )
+}
@@ -0,0 +1,31 @@
+/**
+ * useApiEnvironment.ts
+ * Hook for reading and switching the backend the app talks to
+ */
+
+import { useCallback, useEffect, useState } from "react"
+
+import apiConfig, { API_ENVIRONMENTS, ApiEnvironment, ApiEnvironmentName } from "@/services/api/env"
+
+export interface UseApiEnvironmentResult {
+  environment: ApiEnvironment
+  environments: ApiEnvironment[]
+  /**
+   * Switches the backend. Signs the user out, since sessions are not shared between environments.
+   */
+  setEnvironment: (name: ApiEnvironmentName, customUrl?: string) => void
+}
+
+export const useApiEnvironment = (): UseApiEnvironmentResult => {
+  const [environment, setCurrentEnvironment] = useState(() => apiConfig.environment)
+
+  useEffect(() => apiConfig.onChange(setCurrentEnvironment), [])
+
+  const setEnvironment = useCallback((name: ApiEnvironmentName, customUrl?: string) => {
+    apiConfig.setEnvironment(name, customUrl)
+  }, [])
+
+  return { environment, environments: Object.values(API_ENVIRONMENTS), setEnvironment }
+}
+
+export default useApiEnvironment
@@ -0,0 +1,45 @@
+/**
+ * useAuthorization.ts
+ * Hook for checking what the active account may do
+ */
+
+import { useCallback, useMemo } from "react"
+
+import { useAuth } from "@/context/AuthContext"
+import { useCurrentUser } from "@/providers/CurrentUserProvider"
+import { getAuthorization, hasPermission, Permission, Role } from "@/services/authorization"
+
+export interface UseAuthorizationResult {
+  roles: string[]
+  permissions: string[]
+  /**
+   * Whether the user has the permission, or all of them for a list
+   */
+  can: (permission: Permission | Permission[]) => boolean
+  hasRole: (role: Role) => boolean
+}
+
+/**
+ * Roles and permissions of the active account, from its token and its profile.
+ * Follows token refreshes, profile updates and account switches.
+ */
+export const useAuthorization = (): UseAuthorizationResult => {
+  const { authToken } = useAuth()
+  const { user } = useCurrentUser()
+  const authorization = useMemo(
+    () => getAuthorization(authToken, { roles: user?.roles, permissions: user?.permissions }),
+    [authToken, user?.roles, user?.permissions],
+  )
+
+  const can = useCallback(
+    (permission: Permission | Permission[]) =>
+      (Array.isArray(permission) ? permission : [permission]).every((p) =>
+        hasPermission(authorization, p),
+      ),
+    [authorization],
+  )
+
+  const hasRole = useCallback((role: Role) => authorization.roles.includes(role), [authorization])
+
+  return { ...authorization, can, hasRole }
+}
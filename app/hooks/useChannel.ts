@@ -0,0 +1,42 @@
+/**
+ * useChannel.ts
+ * Hook for receiving the messages of a realtime topic
+ */
+
+import { useEffect, useRef, useState } from "react"
+
+import { ChannelHandler, realtime, RealtimeStatus } from "@/services/realtime"
+
+export interface UseChannelResult {
+  /**
+   * Status of the realtime connection
+   */
+  status: RealtimeStatus
+}
+
+/**
+ * Subscribe to a realtime topic while the component is mounted.
+ * The handler may change between renders without resubscribing.
+ *
+ * @param topic The topic, or null to not subscribe.
+ * @param handler Called with the data of every message.
+ */
+export const useChannel = <T = any>(
+  topic: string | null,
+  handler: ChannelHandler<T>,
+): UseChannelResult => {
+  const [status, setStatus] = useState<RealtimeStatus>(realtime.getStatus())
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => realtime.onStatusChange(setStatus), [])
+
+  useEffect(() => {
+    if (!topic) return undefined
+    return realtime.subscribe<T>(topic, (data) => handlerRef.current(data))
+  }, [topic])
+
+  return { status }
+}
+
+export default useChannel
@@ -0,0 +1,61 @@
+/**
+ * useDownloads.ts
+ * Hook for starting downloads and following their progress
+ */
+
+import { useCallback, useMemo } from "react"
+import { useMMKVObject } from "react-native-mmkv"
+
+import { useAuth } from "@/context/AuthContext"
+import { DownloadEntry, getDownloadsDiskUsage, getDownloadsKey } from "@/services/downloads"
+import { downloadManager, StartDownloadOptions } from "@/services/downloads/DownloadManager"
+import { storage } from "@/utils/storage"
+
+export interface UseDownloadsResult {
+  /**
+   * All downloads, oldest first
+   */
+  downloads: DownloadEntry[]
+  /**
+   * Bytes taken on disk by the downloads
+   */
+  diskUsage: number
+  download: (url: string, options?: StartDownloadOptions) => DownloadEntry
+  pause: (id: string) => Promise<void>
+  resume: (id: string) => void
+  retry: (id: string) => Promise<void>
+  remove: (id: string) => Promise<void>
+}
+
+/**
+ * Hook for the download list of the active account. Progress is persisted, so it updates as bytes arrive.
+ */
+export const useDownloads = (): UseDownloadsResult => {
+  const { activeAccountId } = useAuth()
+  const [storedDownloads] = useMMKVObject<DownloadEntry[]>(
+    getDownloadsKey(activeAccountId ?? null),
+    storage,
+  )
+  const downloads = useMemo(() => storedDownloads ?? [], [storedDownloads])
+
+  const download = useCallback(
+    (url: string, options?: StartDownloadOptions) => downloadManager.download(url, options),
+    [],
+  )
+  const pause = useCallback((id: string) => downloadManager.pause(id), [])
+  const resume = useCallback((id: string) => downloadManager.resume(id), [])
+  const retry = useCallback((id: string) => downloadManager.retry(id), [])
+  const remove = useCallback((id: string) => downloadManager.remove(id), [])
+
+  return {
+    downloads,
+    diskUsage: getDownloadsDiskUsage(downloads),
+    download,
+    pause,
+    resume,
+    retry,
+    remove,
+  }
+}
+
+export default useDownloads
@@ -5,12 +5,24 @@
 
 import { useCallback } from "react"
 import { FormikHelpers } from "formik"
+
 import { useConnection } from "@/context/ConnectionContext"
+import { translate } from "@/i18n/translate"
+import type { GeneralApiProblem } from "@/services/api/apiProblem"
+import type { ApiResult } from "@/services/api/ApiService"
+
 import { useFlashMessage } from "./useFlashMessage"
 
+/**
+ * The data of a successful submit: unwrapped when `submitFn` returns an `ApiResult`
+ */
+export type FormikSubmitData<R> = [R] extends [ApiResult<infer D>] ? D : R
+
 export interface UseFormikSubmitOptions<T, R> {
   /**
-   * Submit function that makes the API call
+   * Submit function that makes the API call.
+   * May return an `ApiResult`; problems are then reported and validation
+   * problems are mapped onto the form fields.
    */
   submitFn: (values: T) => Promise<R>
   /**
@@ -21,10 +33,20 @@ export interface UseFormikSubmitOptions<T, R> {
    * Error message prefix
    */
   errorPrefix?: string
+  /**
+   * `submitFn` sends a queueable mutation (`queueable: true`), so the form also submits
+   * offline and the mutation waits in the outbox
+   */
+  queueable?: boolean
+  /**
+   * Messages for problem kinds that mean something else here, e.g. a wrong password
+   * for `unauthorized` on the login screen. They win over the server's message.
+   */
+  problemMessages?: Partial<Record<GeneralApiProblem["kind"], string>>
   /**
    * Callback on success
    */
-  onSuccess?: (result: R, values: T) => void
+  onSuccess?: (result: FormikSubmitData<R>, values: T) => void
   /**
    * Callback on error
    */
@@ -39,14 +61,59 @@ export interface FormikSubmitHandler<T> {
   (values: T, formikHelpers: FormikHelpers<T>): Promise<void>
 }
 
+/**
+ * Whether a submit result is an `ApiResult` from `ApiService`
+ */
+const isApiResult = (result: unknown): result is ApiResult<unknown> =>
+  typeof result === "object" &&
+  result !== null &&
+  typeof (result as { kind?: unknown }).kind === "string"
+
+/**
+ * Fallback messages for problems the server did not explain
+ */
+const getProblemMessage = (problem: GeneralApiProblem | { kind: "queued" }): string => {
+  switch (problem.kind) {
+    case "queued":
+      return translate("apiProblems:queued")
+    case "timeout":
+    case "cannot-connect":
+      return translate("apiProblems:cannotConnect")
+    case "unauthorized":
+      return translate("apiProblems:unauthorized")
+    case "forbidden":
+      return translate("apiProblems:forbidden")
+    case "not-found":
+      return translate("apiProblems:notFound")
+    case "conflict":
+      return translate("apiProblems:conflict")
+    case "payload-too-large":
+      return translate("apiProblems:payloadTooLarge")
+    case "rate-limited":
+      return translate("apiProblems:rateLimited")
+    case "validation":
+      return translate("apiProblems:validation")
+    default:
+      return translate("apiProblems:unknown")
+  }
+}
+
 /**
  * Hook for handling Formik form submission with loading states and error handling
  */
 export const useFormikSubmit = <T, R>(
   options: UseFormikSubmitOptions<T, R>,
 ): FormikSubmitHandler<T> => {
-  const { submitFn, successMessage, errorPrefix = "Error", onSuccess, onError, onFinally } =
-    options
+  const {
+    submitFn,
+    successMessage,
+    errorPrefix = translate("apiProblems:errorPrefix"),
+    queueable,
+    problemMessages,
+    onSuccess,
+    onError,
+    onFinally,
+  } = options
   const { isConnected } = useConnection()
   const { showError, showSuccess } = useFlashMessage()
 
@@ -54,9 +121,9 @@ export const useFormikSubmit = <T, R>(
     async (values: T, helpers: FormikHelpers<T>) => {
       const { setSubmitting, setErrors, resetForm } = helpers
 
-      // Check internet connection
-      if (!isConnected) {
-        showError("No internet connection. Please check your network and try again.")
+      // Check internet connection, unless the mutation can wait in the outbox
+      if (!isConnected && !queueable) {
+        showError(translate("apiProblems:offline"))
         return
       }
 
@@ -65,13 +132,39 @@ export const useFormikSubmit = <T, R>(
       try {
         const result = await submitFn(values)
 
+        // Report problems returned by ApiService
+        if (isApiResult(result) && result.kind !== "ok") {
+          if (result.kind === "validation") {
+            const formErrors: Record<string, string> = {}
+            for (const [field, messages] of Object.entries(result.errors)) {
+              formErrors[field] = messages[0]
+            }
+            setErrors(formErrors as any)
+          }
+
+          // Queued mutations are sent later, there is no response to hand to onSuccess yet
+          if (result.kind === "queued") {
+            showSuccess(getProblemMessage(result))
+            return
+          }
+
+          if (result.kind !== "cancelled") {
+            const message =
+              problemMessages?.[result.kind] ?? result.message ?? getProblemMessage(result)
+            showError(result.kind === "validation" ? message : `${errorPrefix}: ${message}`)
+          }
+          onError?.(result)
+          return
+        }
+
         // Show success message
         if (successMessage) {
           showSuccess(successMessage)
         }
 
         // Call success callback
-        onSuccess?.(result, values)
+        const data = isApiResult(result) && result.kind === "ok" ? result.data : result
+        onSuccess?.(data as FormikSubmitData<R>, values)
 
         // Optionally reset form
         // resetForm?.()
@@ -89,15 +182,13 @@ export const useFormikSubmit = <T, R>(
           }
 
           setErrors(formErrors as any)
-          showError("Please fix the errors and try again.")
+          showError(translate("apiProblems:validation"))
         } else if (error?.response?.data?.message) {
           // Show API error message
           showError(`${errorPrefix}: ${error.response.data.message}`)
         } else {
           // Show generic error
-          showError(
-            error?.message || "An unexpected error occurred. Please try again.",
-          )
+          showError(error?.message || translate("apiProblems:unknown"))
         }
 
         // Call error callback
@@ -107,7 +198,19 @@ export const useFormikSubmit = <T, R>(
         onFinally?.()
       }
     },
-    [submitFn, successMessage, errorPrefix, onSuccess, onError, onFinally, isConnected, showError, showSuccess],
+    [
+      submitFn,
+      successMessage,
+      errorPrefix,
+      queueable,
+      problemMessages,
+      onSuccess,
+      onError,
+      onFinally,
+      isConnected,
+      showError,
+      showSuccess,
+    ],
   )
 
   return handleSubmit
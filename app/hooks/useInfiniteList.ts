@@ -2,7 +2,7 @@
  * useInfiniteList.ts
  *
  * A comprehensive, API-agnostic hook for infinite scrolling lists with:
- * - Infinite pagination (load more)
+ * - Infinite pagination (load more) by page, offset, cursor or `Link` header
  * - Pull to refresh
  * - Initial loading state
  * - Empty list state
@@ -10,13 +10,16 @@
  * - Retry mechanism
  * - Search query support
  * - Filter options support
+ * - Cancellation of stale requests
  *
  * @module hooks/useInfiniteList
  */
 
-import { useCallback, useEffect, useRef, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { FlatList, FlatListProps, RefreshControl } from "react-native"
 
+import { PageParams, pagePagination, PaginationStrategy } from "@/utils/pagination"
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -30,9 +33,17 @@ export interface InfiniteListFetchOptions<T> {
    */
   page: number
   /**
-   * Number of items per page
+   * Number of items per page, also the `limit` of offset pagination
    */
   pageSize: number
+  /**
+   * Items loaded before this page, for offset pagination
+   */
+  offset: number
+  /**
+   * Cursor returned with the previous page, null for the first one
+   */
+  cursor: string | null
   /**
    * Optional search query string
    */
@@ -41,6 +52,11 @@ export interface InfiniteListFetchOptions<T> {
    * Optional filter parameters object
    */
   filters?: Record<string, any>
+  /**
+   * Aborted when the search query or filters change or the list unmounts.
+   * Pass it on to the request, e.g. `apiService.get(url, params, { signal })`.
+   */
+  signal: AbortSignal
 }
 
 /**
@@ -52,13 +68,21 @@ export interface InfiniteListFetchResult<T> {
    */
   data: T[]
   /**
-   * Whether there are more items to load
+   * Whether there are more items to load. Derived by the pagination strategy when omitted.
    */
-  hasMore: boolean
+  hasMore?: boolean
   /**
    * Total count (optional, for showing item counts)
    */
   totalCount?: number
+  /**
+   * Cursor of the next page, for cursor and `Link` pagination
+   */
+  nextCursor?: string | null
+  /**
+   * Offset of the next page, when it is not the number of items loaded
+   */
+  nextOffset?: number
 }
 
 /**
@@ -78,6 +102,11 @@ export interface UseInfiniteListOptions<T> {
    * Initial page number (default: 1)
    */
   initialPage?: number
+  /**
+   * How the next page is found (default: `pagePagination`).
+   * See `offsetPagination`, `cursorPagination` and `linkPagination` in `@/utils/pagination`.
+   */
+  pagination?: PaginationStrategy
   /**
    * Enable pull-to-refresh (default: true)
    */
@@ -142,7 +171,7 @@ export interface UseInfiniteListReturn<T> extends Pick<FlatListProps<T>, "onEndR
    */
   hasMore: boolean
   /**
-   * Current page number
+   * Number of the next page to load
    */
   currentPage: number
 
@@ -180,7 +209,9 @@ export interface UseInfiniteListReturn<T> extends Pick<FlatListProps<T>, "onEndR
   /**
    * Update filters and reload
    */
-  setFilters: (filters: Record<string, any> | ((prev: Record<string, any>) => Record<string, any>)) => void
+  setFilters: (
+    filters: Record<string, any> | ((prev: Record<string, any>) => Record<string, any>),
+  ) => void
   /**
    * Clear all filters and search
    */
@@ -223,13 +254,12 @@ export interface UseInfiniteListReturn<T> extends Pick<FlatListProps<T>, "onEndR
  * })
  * ```
  */
-export function useInfiniteList<T>(
-  options: UseInfiniteListOptions<T>,
-): UseInfiniteListReturn<T> {
+export function useInfiniteList<T>(options: UseInfiniteListOptions<T>): UseInfiniteListReturn<T> {
   const {
     fetchData,
     pageSize: pageSizeOption = 20,
     initialPage = 1,
+    pagination = pagePagination,
     pullToRefresh = true,
     onEndReachedThreshold = 0.5,
     searchDebounce = 300,
@@ -240,8 +270,12 @@ export function useInfiniteList<T>(
   const [data, setData] = useState<T[]>([])
   const [totalCount, setTotalCount] = useState<number | undefined>(undefined)
 
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(initialPage)
+  // Pagination state: where the next page starts
+  const firstPage = useMemo<PageParams>(
+    () => ({ page: initialPage, offset: 0, cursor: null }),
+    [initialPage],
+  )
+  const [nextPage, setNextPage] = useState<PageParams>(firstPage)
   const [hasMore, setHasMore] = useState(true)
   const [isLoading, setIsLoading] = useState(false)
   const [isLoadingMore, setIsLoadingMore] = useState(false)
@@ -258,6 +292,7 @@ export function useInfiniteList<T>(
   const listRef = useRef<FlatList<T>>(null)
   const isLoadingRef = useRef(false)
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   /**
    * Log debug messages if debug mode is enabled
@@ -275,7 +310,7 @@ export function useInfiniteList<T>(
    * Core function to load data
    */
   const loadData = useCallback(
-    async (page: number, isRefresh = false, isMore = false): Promise<void> => {
+    async (params: PageParams, isRefresh = false, isMore = false): Promise<void> => {
       // Prevent duplicate requests
       if (isLoadingRef.current) {
         log("Request already in progress, skipping")
@@ -283,6 +318,8 @@ export function useInfiniteList<T>(
       }
 
       isLoadingRef.current = true
+      const controller = new AbortController()
+      abortControllerRef.current = controller
       setError(null)
 
       // Set appropriate loading state
@@ -291,65 +328,92 @@ export function useInfiniteList<T>(
         log("Starting refresh")
       } else if (isMore) {
         setIsLoadingMore(true)
-        log("Loading more, page:", page)
+        log("Loading more:", params)
       } else {
         setIsLoading(true)
-        log("Initial load, page:", page)
+        log("Initial load:", params)
       }
 
       try {
         const result = await fetchData({
-          page,
+          ...params,
           pageSize: pageSizeOption,
           searchQuery,
           filters,
+          signal: controller.signal,
         })
 
-        if (isRefresh || page === initialPage) {
+        // Results for an old query or filter must not overwrite fresh ones
+        if (controller.signal.aborted) {
+          log("Discarding cancelled page:", params)
+          return
+        }
+
+        if (isRefresh || (params.cursor === null && params.page === initialPage)) {
           // Replace all data
           setData(result.data)
-          setCurrentPage(page + 1)
         } else {
           // Append data
           setData((prev) => [...prev, ...result.data])
-          setCurrentPage(page + 1)
         }
 
-        setHasMore(result.hasMore)
+        const next = pagination.next(result, params, pageSizeOption)
+        if (next) setNextPage(next)
+        setHasMore(next !== null)
         setTotalCount(result.totalCount)
 
-        log("Loaded", result.data.length, "items, hasMore:", result.hasMore)
+        log("Loaded", result.data.length, "items, next:", next)
       } catch (err) {
+        if (controller.signal.aborted) return
         const errorObj = err instanceof Error ? err : new Error("Unknown error occurred")
         setError(errorObj)
         log("Error loading data:", errorObj.message)
       } finally {
-        setIsLoading(false)
-        setIsLoadingMore(false)
-        setIsRefreshing(false)
-        isLoadingRef.current = false
+        // Once cancelled, the loading state belongs to the request that replaced this one
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null
+          setIsLoading(false)
+          setIsLoadingMore(false)
+          setIsRefreshing(false)
+          isLoadingRef.current = false
+        }
       }
     },
-    [fetchData, pageSizeOption, initialPage, searchQuery, filters, log],
+    [fetchData, pageSizeOption, initialPage, pagination, searchQuery, filters, log],
   )
 
+  /**
+   * Abort the request in flight, if any
+   */
+  const cancelInFlight = useCallback(() => {
+    if (!abortControllerRef.current) return
+
+    abortControllerRef.current.abort()
+    abortControllerRef.current = null
+    isLoadingRef.current = false
+    setIsLoading(false)
+    setIsLoadingMore(false)
+    setIsRefreshing(false)
+    log("Cancelled in-flight request")
+  }, [log])
+
   /**
    * Load next page
    */
   const loadMore = useCallback(async () => {
     if (!isLoadingRef.current && hasMore && !isLoadingMore) {
-      await loadData(currentPage, false, true)
+      await loadData(nextPage, false, true)
     }
-  }, [currentPage, hasMore, isLoadingMore, loadData])
+  }, [nextPage, hasMore, isLoadingMore, loadData])
 
   /**
    * Refresh from beginning
    */
   const refresh = useCallback(async () => {
     if (!isRefreshing) {
-      await loadData(initialPage, true, false)
+      await loadData(firstPage, true, false)
     }
-  }, [isRefreshing, initialPage, loadData])
+  }, [isRefreshing, firstPage, loadData])
 
   /**
    * Retry failed request
@@ -357,11 +421,11 @@ export function useInfiniteList<T>(
   const retry = useCallback(async () => {
     setError(null)
     if (data.length === 0) {
-      await loadData(initialPage, false, false)
+      await loadData(firstPage, false, false)
     } else {
-      await loadData(currentPage, false, false)
+      await loadData(nextPage, false, false)
     }
-  }, [data.length, currentPage, initialPage, loadData])
+  }, [data.length, nextPage, firstPage, loadData])
 
   /**
    * Reset and reload with current search/filters
@@ -371,50 +435,58 @@ export function useInfiniteList<T>(
     setHasMore(true)
     setTotalCount(undefined)
     setError(null)
-    await loadData(initialPage, false, false)
-  }, [initialPage, loadData])
+    await loadData(firstPage, false, false)
+  }, [firstPage, loadData])
 
   /**
    * Set search query with debouncing
    */
-  const setSearchQuery = useCallback((query: string) => {
-    setSearchQueryState(query)
+  const setSearchQuery = useCallback(
+    (query: string) => {
+      cancelInFlight()
+      setSearchQueryState(query)
 
-    // Clear existing timeout
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current)
-    }
+      // Clear existing timeout
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current)
+      }
 
-    // Debounce the search
-    searchTimeoutRef.current = setTimeout(() => {
-      setData([])
-      setHasMore(true)
-      setCurrentPage(initialPage)
-      setError(null)
-      log("Search query changed:", query)
-    }, searchDebounce)
-  }, [searchDebounce, initialPage, log])
+      // Debounce the search
+      searchTimeoutRef.current = setTimeout(() => {
+        setData([])
+        setHasMore(true)
+        setNextPage(firstPage)
+        setError(null)
+        log("Search query changed:", query)
+      }, searchDebounce)
+    },
+    [searchDebounce, firstPage, log, cancelInFlight],
+  )
 
   /**
    * Update filters and reload
    */
-  const setFilters = useCallback((newFilters: Record<string, any> | ((prev: Record<string, any>) => Record<string, any>)) => {
-    setFiltersState((prev) => {
-      const updated = typeof newFilters === "function" ? newFilters(prev) : newFilters
-      // Only reset if filters actually changed
-      if (JSON.stringify(updated) !== JSON.stringify(prev)) {
-        // Reset data and pagination when filters change
-        setTimeout(() => {
-          setData([])
-          setHasMore(true)
-          setCurrentPage(initialPage)
-          setError(null)
-          log("Filters changed:", updated)
-        }, 0)
-      }
-      return updated
-    })
-  }, [initialPage, log])
+  const setFilters = useCallback(
+    (newFilters: Record<string, any> | ((prev: Record<string, any>) => Record<string, any>)) => {
+      setFiltersState((prev) => {
+        const updated = typeof newFilters === "function" ? newFilters(prev) : newFilters
+        // Only reset if filters actually changed
+        if (JSON.stringify(updated) !== JSON.stringify(prev)) {
+          // Reset data and pagination when filters change
+          setTimeout(() => {
+            cancelInFlight()
+            setData([])
+            setHasMore(true)
+            setNextPage(firstPage)
+            setError(null)
+            log("Filters changed:", updated)
+          }, 0)
+        }
+        return updated
+      })
+    },
+    [firstPage, log, cancelInFlight],
+  )
 
   /**
    * Clear all filters and search
@@ -431,17 +503,24 @@ export function useInfiniteList<T>(
     listRef.current?.scrollToOffset({ offset: 0, animated: true })
   }, [])
 
+  // Read by the effects below when they fire, so they never use the state or the
+  // `fetchData` of an earlier render
+  const latestRef = useRef({ data, nextPage, firstPage, isLoading, isRefreshing, loadData, log })
+  latestRef.current = { data, nextPage, firstPage, isLoading, isRefreshing, loadData, log }
+
   /**
    * Load initial data on mount
    */
   useEffect(() => {
+    const { firstPage, loadData, log } = latestRef.current
     log("Initial load triggered")
-    loadData(initialPage, false, false)
-    // Cleanup search timeout on unmount
+    loadData(firstPage, false, false)
+    // Cleanup search timeout and pending request on unmount
     return () => {
       if (searchTimeoutRef.current) {
         clearTimeout(searchTimeoutRef.current)
       }
+      abortControllerRef.current?.abort()
     }
   }, [])
 
@@ -450,16 +529,18 @@ export function useInfiniteList<T>(
    */
   useEffect(() => {
     // Skip initial load
-    if (isLoading || isRefreshing) return
+    if (latestRef.current.isLoading || latestRef.current.isRefreshing) return
 
     const timeout = setTimeout(() => {
-      if (data.length === 0 || currentPage === initialPage) {
-        loadData(initialPage, false, false)
+      // The debounced search has reset the list by now
+      const { data, nextPage, firstPage, loadData } = latestRef.current
+      if (data.length === 0 || (nextPage.cursor === null && nextPage.page === firstPage.page)) {
+        loadData(firstPage, false, false)
       }
     }, searchDebounce + 50)
 
     return () => clearTimeout(timeout)
-  }, [searchQuery, filters])
+  }, [searchQuery, filters, searchDebounce])
 
   /**
    * Create RefreshControl element
@@ -490,7 +571,7 @@ export function useInfiniteList<T>(
 
     // Pagination
     hasMore,
-    currentPage,
+    currentPage: nextPage.page,
 
     // Search & filters
     searchQuery,
@@ -0,0 +1,31 @@
+/**
+ * useNetworkLog.ts
+ * Hook for browsing the API requests captured for the network inspector
+ */
+
+import { useEffect, useState } from "react"
+
+import {
+  clearNetworkLog,
+  getNetworkEntries,
+  NetworkLogEntry,
+  onNetworkLogChange,
+} from "@/services/networkLog"
+
+export interface UseNetworkLogResult {
+  /**
+   * Captured requests, newest first
+   */
+  entries: NetworkLogEntry[]
+  clear: () => void
+}
+
+export const useNetworkLog = (): UseNetworkLogResult => {
+  const [entries, setEntries] = useState(getNetworkEntries)
+
+  useEffect(() => onNetworkLogChange(setEntries), [])
+
+  return { entries, clear: clearNetworkLog }
+}
+
+export default useNetworkLog
@@ -0,0 +1,88 @@
+/**
+ * useOutbox.ts
+ * Hook for inspecting and managing mutations queued while offline
+ */
+
+import { useCallback, useMemo } from "react"
+import { useMMKVObject } from "react-native-mmkv"
+
+import { useAuth } from "@/context/AuthContext"
+import apiService from "@/services/api/ApiService"
+import { getOutboxKey, OutboxEntry, removeOutboxEntry, updateOutboxEntry } from "@/services/outbox"
+import { storage } from "@/utils/storage"
+
+export interface UseOutboxResult {
+  /**
+   * All queued entries, oldest first
+   */
+  entries: OutboxEntry[]
+  /**
+   * Entries waiting to be replayed
+   */
+  pendingCount: number
+  /**
+   * Entries the server rejected
+   */
+  failedCount: number
+  /**
+   * Queue a failed entry again and replay the outbox
+   */
+  retry: (id: string) => Promise<void>
+  /**
+   * Queue every failed entry again and replay the outbox
+   */
+  retryAll: () => Promise<void>
+  /**
+   * Drop an entry without sending it
+   */
+  discard: (id: string) => void
+  /**
+   * Replay pending entries now
+   */
+  flush: () => Promise<void>
+}
+
+/**
+ * Hook for the offline outbox of the active account
+ */
+export const useOutbox = (): UseOutboxResult => {
+  const { activeAccountId } = useAuth()
+  const [storedEntries] = useMMKVObject<OutboxEntry[]>(
+    getOutboxKey(activeAccountId ?? null),
+    storage,
+  )
+  const entries = useMemo(() => storedEntries ?? [], [storedEntries])
+
+  const flush = useCallback(() => apiService.replayOutbox(), [])
+
+  const retry = useCallback(
+    async (id: string) => {
+      updateOutboxEntry(id, { status: "pending" })
+      await flush()
+    },
+    [flush],
+  )
+
+  const retryAll = useCallback(async () => {
+    entries
+      .filter((entry) => entry.status === "failed")
+      .forEach((entry) => updateOutboxEntry(entry.id, { status: "pending" }))
+    await flush()
+  }, [entries, flush])
+
+  const discard = useCallback((id: string) => {
+    removeOutboxEntry(id)
+  }, [])
+
+  return {
+    entries,
+    pendingCount: entries.filter((entry) => entry.status === "pending").length,
+    failedCount: entries.filter((entry) => entry.status === "failed").length,
+    retry,
+    retryAll,
+    discard,
+    flush,
+  }
+}
+
+export default useOutbox
@@ -0,0 +1,59 @@
+/**
+ * useUploads.ts
+ * Hook for queueing files and following their chunked uploads
+ */
+
+import { useCallback, useMemo } from "react"
+import { useMMKVObject } from "react-native-mmkv"
+
+import { useAuth } from "@/context/AuthContext"
+import { getUploadsKey, UploadEntry } from "@/services/uploads"
+import { UploadFile, uploadManager } from "@/services/uploads/UploadManager"
+import { storage } from "@/utils/storage"
+
+export interface UseUploadsResult {
+  /**
+   * All uploads, oldest first
+   */
+  uploads: UploadEntry[]
+  /**
+   * Uploads that are not completed yet
+   */
+  activeCount: number
+  enqueue: (...files: UploadFile[]) => UploadEntry[]
+  pause: (id: string) => void
+  resume: (id: string) => void
+  cancel: (id: string) => Promise<void>
+  clearCompleted: () => void
+}
+
+/**
+ * Hook for the upload queue of the active account.
+ * Progress is persisted per chunk, so it updates as chunks are stored.
+ */
+export const useUploads = (): UseUploadsResult => {
+  const { activeAccountId } = useAuth()
+  const [storedUploads] = useMMKVObject<UploadEntry[]>(
+    getUploadsKey(activeAccountId ?? null),
+    storage,
+  )
+  const uploads = useMemo(() => storedUploads ?? [], [storedUploads])
+
+  const enqueue = useCallback((...files: UploadFile[]) => uploadManager.enqueue(...files), [])
+  const pause = useCallback((id: string) => uploadManager.pause(id), [])
+  const resume = useCallback((id: string) => uploadManager.resume(id), [])
+  const cancel = useCallback((id: string) => uploadManager.cancel(id), [])
+  const clearCompleted = useCallback(() => uploadManager.clearCompleted(), [])
+
+  return {
+    uploads,
+    activeCount: uploads.filter((upload) => upload.status !== "completed").length,
+    enqueue,
+    pause,
+    resume,
+    cancel,
+    clearCompleted,
+  }
+}
+
+export default useUploads
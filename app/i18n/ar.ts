@@ -32,17 +32,125 @@ const ar: Translations = {
 
   errors: {
     invalidEmail: "عنوان البريد الالكتروني غير صالح",
+    required: "هذا الحقل مطلوب.",
+    passwordTooShort: "يجب أن يتكون من {{count}} أحرف على الأقل.",
+    passwordNeedsLowercase: "يجب أن يحتوي على حرف صغير.",
+    passwordNeedsUppercase: "يجب أن يحتوي على حرف كبير.",
+    passwordNeedsDigit: "يجب أن يحتوي على رقم.",
+    passwordsDontMatch: "كلمتا المرور غير متطابقتين.",
+  },
+  apiProblems: {
+    offline: "لا يوجد اتصال بالإنترنت. يرجى التحقق من الشبكة والمحاولة مرة أخرى.",
+    queued: "أنت غير متصل. سيتم إرسال تغييراتك عند عودة الاتصال.",
+    cannotConnect: "تعذر الوصول إلى الخادم. يرجى التحقق من الشبكة والمحاولة مرة أخرى.",
+    unauthorized: "انتهت صلاحية جلستك. يرجى تسجيل الدخول مرة أخرى.",
+    forbidden: "غير مسموح لك بالقيام بذلك.",
+    notFound: "هذا العنصر لم يعد موجودًا.",
+    conflict: "قام شخص آخر بتغيير هذا العنصر. يرجى إعادة التحميل والمحاولة مرة أخرى.",
+    payloadTooLarge: "البيانات التي ترسلها كبيرة جدًا.",
+    rateLimited: "محاولات كثيرة جدًا. يرجى الانتظار قليلًا والمحاولة مرة أخرى.",
+    validation: "يرجى تصحيح الأخطاء والمحاولة مرة أخرى.",
+    unknown: "حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.",
+    errorPrefix: "خطأ",
   },
   loginScreen: {
     logIn: "تسجيل الدخول",
-    enterDetails:
-      ".ادخل التفاصيل الخاصة بك ادناه لفتح معلومات سرية للغاية. لن تخمن ابداً ما الذي ننتظره. او ربما ستفعل انها انها ليست علم الصواريخ",
+    enterDetails: "أدخل بريدك الإلكتروني وكلمة المرور لتسجيل الدخول.",
     emailFieldLabel: "البريد الالكتروني",
     passwordFieldLabel: "كلمة السر",
     emailFieldPlaceholder: "ادخل بريدك الالكتروني",
     passwordFieldPlaceholder: "كلمة السر هنا فائقة السر",
     tapToLogIn: "انقر لتسجيل الدخول!",
-    hint: "(: تلميح: يمكنك استخدام اي عنوان بريد الكتروني وكلمة السر المفضلة لديك",
+    logInFailed: "تعذر تسجيل الدخول",
+    invalidCredentials: "البريد الإلكتروني أو كلمة المرور غير صحيحة.",
+    forgotPassword: "هل نسيت كلمة المرور؟",
+    noAccount: "ليس لديك حساب؟ أنشئ حسابًا",
+    backToAccounts: "إلغاء والعودة إلى حساباتك",
+    logInWithSso: "تسجيل الدخول بحساب الشركة",
+    ssoFailed: "تعذر فتح تسجيل الدخول الخاص بالشركة. يرجى المحاولة مرة أخرى.",
+  },
+  introScreen: {
+    heading: "مرحبًا",
+    tagline: "سجّل الدخول لتكمل من حيث توقفت، أو أنشئ حسابًا للبدء.",
+    logIn: "تسجيل الدخول",
+    register: "إنشاء حساب",
+  },
+  registerScreen: {
+    heading: "إنشاء حساب",
+    enterDetails: "أدخل بياناتك للبدء.",
+    nameFieldLabel: "الاسم",
+    nameFieldPlaceholder: "اسمك الكامل",
+    passwordHelper: "{{count}} أحرف على الأقل، مع أحرف كبيرة وصغيرة ورقم.",
+    confirmPasswordFieldLabel: "تأكيد كلمة المرور",
+    confirmPasswordFieldPlaceholder: "أعد إدخال كلمة المرور",
+    tapToRegister: "إنشاء الحساب",
+    registerFailed: "تعذر إنشاء الحساب",
+    haveAccount: "لديك حساب بالفعل؟ سجّل الدخول",
+  },
+  forgotPasswordScreen: {
+    heading: "إعادة تعيين كلمة المرور",
+    requestDetails: "أدخل بريدك الإلكتروني وسنرسل إليك رمزًا لإعادة تعيين كلمة المرور.",
+    sendCode: "إرسال الرمز",
+    codeDetails: "أدخل الرمز الذي أرسلناه إلى {{email}}.",
+    codeFieldLabel: "الرمز",
+    codeFieldPlaceholder: "الرمز من البريد الإلكتروني",
+    verifyCode: "تحقق من الرمز",
+    resendCode: "إرسال رمز جديد",
+    codeResent: "رمز جديد في الطريق.",
+    passwordDetails: "اختر كلمة مرور جديدة.",
+    newPasswordFieldLabel: "كلمة المرور الجديدة",
+    resetPassword: "إعادة تعيين كلمة المرور",
+    passwordReset: "تمت إعادة تعيين كلمة المرور. يمكنك تسجيل الدخول بها الآن.",
+    resetFailed: "تعذرت إعادة تعيين كلمة المرور",
+    backToLogIn: "العودة إلى تسجيل الدخول",
+  },
+  idleTimeout: {
+    title: "هل ما زلت هنا؟",
+    message: "سيتم تسجيل خروجك خلال {{count}} ثانية.",
+    staySignedIn: "البقاء متصلًا",
+  },
+  pinPad: {
+    delete: "حذف",
+    submit: "تأكيد",
+  },
+  appLock: {
+    title: "أدخل رمز PIN",
+    wrongPin: "رمز PIN خاطئ. تبقى {{count}} محاولات.",
+    tryAgainIn: "محاولات خاطئة كثيرة. حاول مرة أخرى بعد {{count}} ثانية.",
+    tooManyAttempts: "محاولات خاطئة كثيرة. يرجى تسجيل الدخول مرة أخرى.",
+    forgotPin: "هل نسيت رمز PIN؟",
+    forgotPinTitle: "إعادة تعيين رمز PIN؟",
+    forgotPinMessage: "سيتم تسجيل خروجك. سجّل الدخول مرة أخرى لاختيار رمز PIN جديد.",
+    signOut: "تسجيل الخروج",
+  },
+  setPinScreen: {
+    title: "تعيين رمز PIN",
+    details: "اختر رمز PIN من 4 إلى 6 أرقام. ستستخدمه لفتح التطبيق.",
+    confirmTitle: "تأكيد رمز PIN",
+    confirmDetails: "أدخل رمز PIN نفسه مرة أخرى.",
+    mismatch: "رمزا PIN غير متطابقين. يرجى البدء من جديد.",
+  },
+  accountSwitcher: {
+    title: "الحسابات",
+    addAccount: "إضافة حساب آخر",
+    signOut: "تسجيل الخروج من هذا الحساب",
+    unnamedAccount: "حساب",
+  },
+  roles: {
+    admin: "مسؤول",
+    supervisor: "مشرف",
+    staff: "موظف",
+  },
+  notAllowedScreen: {
+    heading: "غير مسموح",
+    details: "لا يملك حسابك صلاحية الوصول إلى هذه الشاشة. اطلبها من المسؤول إذا كنت بحاجة إليها.",
+    back: "رجوع",
+  },
+  oidcCallbackScreen: {
+    signingIn: "جارٍ تسجيل الدخول…",
+    failed: "تعذر تسجيل الدخول",
+    denied: "تم إلغاء تسجيل الدخول.",
+    expired: "انتهت صلاحية رابط تسجيل الدخول هذا. يرجى البدء من جديد.",
   },
   demoNavigator: {
     componentsTab: "عناصر",
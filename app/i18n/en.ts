@@ -31,17 +31,127 @@ const en = {
 
   errors: {
     invalidEmail: "Invalid email address.",
+    required: "This field is required.",
+    passwordTooShort: "Must be at least {{count}} characters.",
+    passwordNeedsLowercase: "Must contain a lowercase letter.",
+    passwordNeedsUppercase: "Must contain an uppercase letter.",
+    passwordNeedsDigit: "Must contain a number.",
+    passwordsDontMatch: "Passwords don't match.",
+  },
+  apiProblems: {
+    offline: "No internet connection. Please check your network and try again.",
+    queued: "You are offline. Your changes will be sent once you are back online.",
+    cannotConnect: "Could not reach the server. Please check your network and try again.",
+    unauthorized: "Your session has expired. Please sign in again.",
+    forbidden: "You are not allowed to do this.",
+    notFound: "This item no longer exists.",
+    conflict: "This item was changed by someone else. Please reload and try again.",
+    payloadTooLarge: "The data you are sending is too large.",
+    rateLimited: "Too many attempts. Please wait a moment and try again.",
+    validation: "Please fix the errors and try again.",
+    unknown: "An unexpected error occurred. Please try again.",
+    errorPrefix: "Error",
   },
   loginScreen: {
     logIn: "Log In",
-    enterDetails:
-      "Enter your details below to unlock top secret info. You'll never guess what we've got waiting. Or maybe you will; it's not rocket science here.",
+    enterDetails: "Enter your email and password to sign in.",
     emailFieldLabel: "Email",
     passwordFieldLabel: "Password",
     emailFieldPlaceholder: "Enter your email address",
     passwordFieldPlaceholder: "Super secret password here",
     tapToLogIn: "Tap to log in!",
-    hint: "Hint: you can use any email address and your favorite password :)",
+    logInFailed: "Could not log in",
+    invalidCredentials: "Wrong email or password.",
+    forgotPassword: "Forgot your password?",
+    noAccount: "No account yet? Sign up",
+    backToAccounts: "Cancel and go back to your accounts",
+    logInWithSso: "Log in with your company account",
+    ssoFailed: "Could not open the company sign-in. Please try again.",
+  },
+  introScreen: {
+    heading: "Welcome",
+    tagline: "Sign in to pick up where you left off, or create an account to get started.",
+    logIn: "Log In",
+    register: "Create an account",
+  },
+  registerScreen: {
+    heading: "Create an account",
+    enterDetails: "Fill in your details to get started.",
+    nameFieldLabel: "Name",
+    nameFieldPlaceholder: "Your full name",
+    passwordHelper:
+      "At least {{count}} characters, with upper and lower case letters and a number.",
+    confirmPasswordFieldLabel: "Confirm password",
+    confirmPasswordFieldPlaceholder: "Repeat your password",
+    tapToRegister: "Create account",
+    registerFailed: "Could not create the account",
+    haveAccount: "Already have an account? Log in",
+  },
+  forgotPasswordScreen: {
+    heading: "Reset your password",
+    requestDetails: "Enter your email and we'll send you a code to reset your password.",
+    sendCode: "Send code",
+    codeDetails: "Enter the code we sent to {{email}}.",
+    codeFieldLabel: "Code",
+    codeFieldPlaceholder: "Code from the email",
+    verifyCode: "Verify code",
+    resendCode: "Send a new code",
+    codeResent: "A new code is on its way.",
+    passwordDetails: "Choose a new password.",
+    newPasswordFieldLabel: "New password",
+    resetPassword: "Reset password",
+    passwordReset: "Your password has been reset. You can log in with it now.",
+    resetFailed: "Could not reset the password",
+    backToLogIn: "Back to log in",
+  },
+  idleTimeout: {
+    title: "Are you still there?",
+    message: "You will be signed out in {{count}}s.",
+    staySignedIn: "Stay signed in",
+  },
+  pinPad: {
+    delete: "Delete",
+    submit: "Confirm",
+  },
+  appLock: {
+    title: "Enter your PIN",
+    wrongPin: "Wrong PIN. {{count}} attempts left.",
+    tryAgainIn: "Too many wrong PINs. Try again in {{count}}s.",
+    tooManyAttempts: "Too many wrong PINs. Please log in again.",
+    forgotPin: "Forgot your PIN?",
+    forgotPinTitle: "Reset your PIN?",
+    forgotPinMessage: "You will be signed out. Log in again to choose a new PIN.",
+    signOut: "Sign out",
+  },
+  setPinScreen: {
+    title: "Set a PIN",
+    details: "Choose a 4 to 6 digit PIN. You will use it to unlock the app.",
+    confirmTitle: "Confirm your PIN",
+    confirmDetails: "Enter the same PIN again.",
+    mismatch: "The PINs don't match. Please start again.",
+  },
+  accountSwitcher: {
+    title: "Accounts",
+    addAccount: "Add another account",
+    signOut: "Sign out of this account",
+    unnamedAccount: "Account",
+  },
+  roles: {
+    admin: "Administrator",
+    supervisor: "Supervisor",
+    staff: "Staff",
+  },
+  notAllowedScreen: {
+    heading: "Not allowed",
+    details:
+      "Your account doesn't have access to this screen. Ask an administrator if you need it.",
+    back: "Go back",
+  },
+  oidcCallbackScreen: {
+    signingIn: "Signing you in…",
+    failed: "Could not sign in",
+    denied: "The sign-in was cancelled.",
+    expired: "This sign-in link has expired. Please start again.",
   },
   demoNavigator: {
     componentsTab: "Components",
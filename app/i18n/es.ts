@@ -33,17 +33,126 @@ const es: Translations = {
 
   errors: {
     invalidEmail: "Email inválido.",
+    required: "Este campo es obligatorio.",
+    passwordTooShort: "Debe tener al menos {{count}} caracteres.",
+    passwordNeedsLowercase: "Debe contener una letra minúscula.",
+    passwordNeedsUppercase: "Debe contener una letra mayúscula.",
+    passwordNeedsDigit: "Debe contener un número.",
+    passwordsDontMatch: "Las contraseñas no coinciden.",
+  },
+  apiProblems: {
+    offline: "Sin conexión a internet. Comprueba tu red e inténtalo de nuevo.",
+    queued: "Estás sin conexión. Tus cambios se enviarán cuando vuelvas a estar en línea.",
+    cannotConnect: "No se pudo contactar con el servidor. Comprueba tu red e inténtalo de nuevo.",
+    unauthorized: "Tu sesión ha caducado. Vuelve a iniciar sesión.",
+    forbidden: "No tienes permiso para hacer esto.",
+    notFound: "Este elemento ya no existe.",
+    conflict: "Otra persona ha modificado este elemento. Recarga e inténtalo de nuevo.",
+    payloadTooLarge: "Los datos que envías son demasiado grandes.",
+    rateLimited: "Demasiados intentos. Espera un momento e inténtalo de nuevo.",
+    validation: "Corrige los errores e inténtalo de nuevo.",
+    unknown: "Se produjo un error inesperado. Inténtalo de nuevo.",
+    errorPrefix: "Error",
   },
   loginScreen: {
     logIn: "Iniciar sesión",
-    enterDetails:
-      "Ingresa tus datos a continuación para desbloquear información ultra secreta. Nunca vas a adivinar lo que te espera al otro lado. O quizás si lo harás; la verdad no hay mucha ciencia alrededor.",
+    enterDetails: "Introduce tu email y contraseña para iniciar sesión.",
     emailFieldLabel: "Email",
     passwordFieldLabel: "Contraseña",
     emailFieldPlaceholder: "Ingresa tu email",
     passwordFieldPlaceholder: "Contraseña super secreta aquí",
     tapToLogIn: "¡Presiona acá para iniciar sesión!",
-    hint: "Consejo: puedes usar cualquier email y tu contraseña preferida :)",
+    logInFailed: "No se pudo iniciar sesión",
+    invalidCredentials: "Correo o contraseña incorrectos.",
+    forgotPassword: "¿Olvidaste tu contraseña?",
+    noAccount: "¿Aún no tienes cuenta? Regístrate",
+    backToAccounts: "Cancelar y volver a tus cuentas",
+    logInWithSso: "Iniciar sesión con tu cuenta de empresa",
+    ssoFailed: "No se pudo abrir el inicio de sesión de la empresa. Inténtalo de nuevo.",
+  },
+  introScreen: {
+    heading: "Bienvenido",
+    tagline: "Inicia sesión para continuar donde lo dejaste o crea una cuenta para empezar.",
+    logIn: "Iniciar sesión",
+    register: "Crear una cuenta",
+  },
+  registerScreen: {
+    heading: "Crear una cuenta",
+    enterDetails: "Completa tus datos para empezar.",
+    nameFieldLabel: "Nombre",
+    nameFieldPlaceholder: "Tu nombre completo",
+    passwordHelper: "Al menos {{count}} caracteres, con mayúsculas, minúsculas y un número.",
+    confirmPasswordFieldLabel: "Confirmar contraseña",
+    confirmPasswordFieldPlaceholder: "Repite tu contraseña",
+    tapToRegister: "Crear cuenta",
+    registerFailed: "No se pudo crear la cuenta",
+    haveAccount: "¿Ya tienes una cuenta? Inicia sesión",
+  },
+  forgotPasswordScreen: {
+    heading: "Restablecer tu contraseña",
+    requestDetails: "Introduce tu email y te enviaremos un código para restablecer tu contraseña.",
+    sendCode: "Enviar código",
+    codeDetails: "Introduce el código que enviamos a {{email}}.",
+    codeFieldLabel: "Código",
+    codeFieldPlaceholder: "Código del email",
+    verifyCode: "Verificar código",
+    resendCode: "Enviar un nuevo código",
+    codeResent: "Un nuevo código está en camino.",
+    passwordDetails: "Elige una nueva contraseña.",
+    newPasswordFieldLabel: "Nueva contraseña",
+    resetPassword: "Restablecer contraseña",
+    passwordReset: "Tu contraseña se ha restablecido. Ya puedes iniciar sesión con ella.",
+    resetFailed: "No se pudo restablecer la contraseña",
+    backToLogIn: "Volver a iniciar sesión",
+  },
+  idleTimeout: {
+    title: "¿Sigues ahí?",
+    message: "Se cerrará tu sesión en {{count}} s.",
+    staySignedIn: "Mantener la sesión",
+  },
+  pinPad: {
+    delete: "Borrar",
+    submit: "Confirmar",
+  },
+  appLock: {
+    title: "Introduce tu PIN",
+    wrongPin: "PIN incorrecto. Quedan {{count}} intentos.",
+    tryAgainIn: "Demasiados PIN incorrectos. Inténtalo de nuevo en {{count}} s.",
+    tooManyAttempts: "Demasiados PIN incorrectos. Inicia sesión de nuevo.",
+    forgotPin: "¿Olvidaste tu PIN?",
+    forgotPinTitle: "¿Restablecer tu PIN?",
+    forgotPinMessage: "Se cerrará tu sesión. Inicia sesión de nuevo para elegir un nuevo PIN.",
+    signOut: "Cerrar sesión",
+  },
+  setPinScreen: {
+    title: "Crea un PIN",
+    details: "Elige un PIN de 4 a 6 dígitos. Lo usarás para desbloquear la app.",
+    confirmTitle: "Confirma tu PIN",
+    confirmDetails: "Introduce el mismo PIN otra vez.",
+    mismatch: "Los PIN no coinciden. Empieza de nuevo.",
+  },
+  accountSwitcher: {
+    title: "Cuentas",
+    addAccount: "Añadir otra cuenta",
+    signOut: "Cerrar sesión en esta cuenta",
+    unnamedAccount: "Cuenta",
+  },
+  roles: {
+    admin: "Administrador",
+    supervisor: "Supervisor",
+    staff: "Personal",
+  },
+  notAllowedScreen: {
+    heading: "Acceso denegado",
+    details:
+      "Tu cuenta no tiene acceso a esta pantalla. Pide acceso a un administrador si lo necesitas.",
+    back: "Volver",
+  },
+  oidcCallbackScreen: {
+    signingIn: "Iniciando sesión…",
+    failed: "No se pudo iniciar sesión",
+    denied: "Se canceló el inicio de sesión.",
+    expired: "Este enlace de inicio de sesión ha caducado. Vuelve a empezar.",
   },
   demoNavigator: {
     componentsTab: "Componentes",
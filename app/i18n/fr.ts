@@ -33,17 +33,129 @@ const fr: Translations = {
 
   errors: {
     invalidEmail: "Adresse e-mail invalide.",
+    required: "Ce champ est obligatoire.",
+    passwordTooShort: "Doit contenir au moins {{count}} caractères.",
+    passwordNeedsLowercase: "Doit contenir une lettre minuscule.",
+    passwordNeedsUppercase: "Doit contenir une lettre majuscule.",
+    passwordNeedsDigit: "Doit contenir un chiffre.",
+    passwordsDontMatch: "Les mots de passe ne correspondent pas.",
+  },
+  apiProblems: {
+    offline: "Pas de connexion internet. Vérifiez votre réseau et réessayez.",
+    queued: "Vous êtes hors ligne. Vos modifications seront envoyées dès votre retour en ligne.",
+    cannotConnect: "Impossible de joindre le serveur. Vérifiez votre réseau et réessayez.",
+    unauthorized: "Votre session a expiré. Veuillez vous reconnecter.",
+    forbidden: "Vous n'êtes pas autorisé à faire cela.",
+    notFound: "Cet élément n'existe plus.",
+    conflict: "Cet élément a été modifié par quelqu'un d'autre. Rechargez et réessayez.",
+    payloadTooLarge: "Les données envoyées sont trop volumineuses.",
+    rateLimited: "Trop de tentatives. Patientez un instant et réessayez.",
+    validation: "Veuillez corriger les erreurs et réessayer.",
+    unknown: "Une erreur inattendue s'est produite. Veuillez réessayer.",
+    errorPrefix: "Erreur",
   },
   loginScreen: {
     logIn: "Se connecter",
-    enterDetails:
-      "Entrez vos informations ci-dessous pour débloquer des informations top secrètes. Vous ne devinerez jamais ce que nous avons en attente. Ou peut-être que vous le ferez ; ce n'est pas de la science spatiale ici.",
+    enterDetails: "Entrez votre e-mail et votre mot de passe pour vous connecter.",
     emailFieldLabel: "E-mail",
     passwordFieldLabel: "Mot de passe",
     emailFieldPlaceholder: "Entrez votre adresse e-mail",
     passwordFieldPlaceholder: "Mot de passe super secret ici",
     tapToLogIn: "Appuyez pour vous connecter!",
-    hint: "Astuce : vous pouvez utiliser n'importe quelle adresse e-mail et votre mot de passe préféré :)",
+    logInFailed: "Connexion impossible",
+    invalidCredentials: "E-mail ou mot de passe incorrect.",
+    forgotPassword: "Mot de passe oublié ?",
+    noAccount: "Pas encore de compte ? Inscrivez-vous",
+    backToAccounts: "Annuler et revenir à vos comptes",
+    logInWithSso: "Se connecter avec votre compte d'entreprise",
+    ssoFailed: "Impossible d'ouvrir la connexion de l'entreprise. Veuillez réessayer.",
+  },
+  introScreen: {
+    heading: "Bienvenue",
+    tagline:
+      "Connectez-vous pour reprendre là où vous en étiez, ou créez un compte pour commencer.",
+    logIn: "Se connecter",
+    register: "Créer un compte",
+  },
+  registerScreen: {
+    heading: "Créer un compte",
+    enterDetails: "Renseignez vos informations pour commencer.",
+    nameFieldLabel: "Nom",
+    nameFieldPlaceholder: "Votre nom complet",
+    passwordHelper:
+      "Au moins {{count}} caractères, avec des majuscules, des minuscules et un chiffre.",
+    confirmPasswordFieldLabel: "Confirmer le mot de passe",
+    confirmPasswordFieldPlaceholder: "Répétez votre mot de passe",
+    tapToRegister: "Créer le compte",
+    registerFailed: "Impossible de créer le compte",
+    haveAccount: "Vous avez déjà un compte ? Connectez-vous",
+  },
+  forgotPasswordScreen: {
+    heading: "Réinitialiser votre mot de passe",
+    requestDetails:
+      "Entrez votre e-mail et nous vous enverrons un code pour réinitialiser votre mot de passe.",
+    sendCode: "Envoyer le code",
+    codeDetails: "Entrez le code envoyé à {{email}}.",
+    codeFieldLabel: "Code",
+    codeFieldPlaceholder: "Code reçu par e-mail",
+    verifyCode: "Vérifier le code",
+    resendCode: "Envoyer un nouveau code",
+    codeResent: "Un nouveau code est en route.",
+    passwordDetails: "Choisissez un nouveau mot de passe.",
+    newPasswordFieldLabel: "Nouveau mot de passe",
+    resetPassword: "Réinitialiser le mot de passe",
+    passwordReset:
+      "Votre mot de passe a été réinitialisé. Vous pouvez maintenant vous connecter avec.",
+    resetFailed: "Impossible de réinitialiser le mot de passe",
+    backToLogIn: "Retour à la connexion",
+  },
+  idleTimeout: {
+    title: "Êtes-vous toujours là ?",
+    message: "Vous serez déconnecté dans {{count}} s.",
+    staySignedIn: "Rester connecté",
+  },
+  pinPad: {
+    delete: "Effacer",
+    submit: "Valider",
+  },
+  appLock: {
+    title: "Saisissez votre code PIN",
+    wrongPin: "Code PIN incorrect. Encore {{count}} essais.",
+    tryAgainIn: "Trop de codes PIN incorrects. Réessayez dans {{count}} s.",
+    tooManyAttempts: "Trop de codes PIN incorrects. Veuillez vous reconnecter.",
+    forgotPin: "Code PIN oublié ?",
+    forgotPinTitle: "Réinitialiser votre code PIN ?",
+    forgotPinMessage: "Vous serez déconnecté. Reconnectez-vous pour choisir un nouveau code PIN.",
+    signOut: "Se déconnecter",
+  },
+  setPinScreen: {
+    title: "Choisir un code PIN",
+    details: "Choisissez un code PIN de 4 à 6 chiffres. Il servira à déverrouiller l'app.",
+    confirmTitle: "Confirmez votre code PIN",
+    confirmDetails: "Saisissez à nouveau le même code PIN.",
+    mismatch: "Les codes PIN ne correspondent pas. Recommencez.",
+  },
+  accountSwitcher: {
+    title: "Comptes",
+    addAccount: "Ajouter un autre compte",
+    signOut: "Se déconnecter de ce compte",
+    unnamedAccount: "Compte",
+  },
+  roles: {
+    admin: "Administrateur",
+    supervisor: "Superviseur",
+    staff: "Personnel",
+  },
+  notAllowedScreen: {
+    heading: "Accès refusé",
+    details: "Votre compte n'a pas accès à cet écran. Demandez-le à un administrateur si besoin.",
+    back: "Retour",
+  },
+  oidcCallbackScreen: {
+    signingIn: "Connexion en cours…",
+    failed: "Connexion impossible",
+    denied: "La connexion a été annulée.",
+    expired: "Ce lien de connexion a expiré. Veuillez recommencer.",
   },
   demoNavigator: {
     componentsTab: "Composants",
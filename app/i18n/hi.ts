@@ -32,17 +32,125 @@ const hi: Translations = {
 
   errors: {
     invalidEmail: "अमान्य ईमेल पता।",
+    required: "यह फ़ील्ड आवश्यक है।",
+    passwordTooShort: "कम से कम {{count}} अक्षर होने चाहिए।",
+    passwordNeedsLowercase: "एक छोटा अक्षर होना चाहिए।",
+    passwordNeedsUppercase: "एक बड़ा अक्षर होना चाहिए।",
+    passwordNeedsDigit: "एक संख्या होनी चाहिए।",
+    passwordsDontMatch: "पासवर्ड मेल नहीं खाते।",
+  },
+  apiProblems: {
+    offline: "इंटरनेट कनेक्शन नहीं है। कृपया अपना नेटवर्क जांचें और फिर से प्रयास करें।",
+    queued: "आप ऑफ़लाइन हैं। ऑनलाइन होते ही आपके बदलाव भेज दिए जाएंगे।",
+    cannotConnect: "सर्वर तक नहीं पहुंच सके। कृपया अपना नेटवर्क जांचें और फिर से प्रयास करें।",
+    unauthorized: "आपका सत्र समाप्त हो गया है। कृपया फिर से साइन इन करें।",
+    forbidden: "आपको यह करने की अनुमति नहीं है।",
+    notFound: "यह आइटम अब मौजूद नहीं है।",
+    conflict: "इस आइटम को किसी और ने बदल दिया है। कृपया रीलोड करें और फिर से प्रयास करें।",
+    payloadTooLarge: "आप जो डेटा भेज रहे हैं वह बहुत बड़ा है।",
+    rateLimited: "बहुत अधिक प्रयास। कृपया थोड़ी देर प्रतीक्षा करें और फिर से प्रयास करें।",
+    validation: "कृपया त्रुटियां ठीक करें और फिर से प्रयास करें।",
+    unknown: "एक अप्रत्याशित त्रुटि हुई। कृपया फिर से प्रयास करें।",
+    errorPrefix: "त्रुटि",
   },
   loginScreen: {
     logIn: "लॉग इन करें",
-    enterDetails:
-      "सर्वश्रेष्ठ रहस्य पता करने के लिए नीचे अपना विवरण दर्ज करें। आप कभी अनुमान नहीं लगा पाएंगे कि हमारे पास क्या इंतजार कर रहा है। या शायद आप कर सकते हैं; यह रॉकेट साइंस नहीं है।",
+    enterDetails: "साइन इन करने के लिए अपना ईमेल और पासवर्ड दर्ज करें।",
     emailFieldLabel: "ईमेल",
     passwordFieldLabel: "पासवर्ड",
     emailFieldPlaceholder: "अपना ईमेल पता दर्ज करें",
     passwordFieldPlaceholder: "सुपर सीक्रेट पासवर्ड यहाँ",
     tapToLogIn: "लॉग इन करने के लिए टैप करें!",
-    hint: "संकेत: आप किसी भी ईमेल पते और अपने पसंदीदा पासवर्ड का उपयोग कर सकते हैं :)",
+    logInFailed: "लॉग इन नहीं हो सका",
+    invalidCredentials: "गलत ईमेल या पासवर्ड।",
+    forgotPassword: "पासवर्ड भूल गए?",
+    noAccount: "अभी तक खाता नहीं है? साइन अप करें",
+    backToAccounts: "रद्द करें और अपने खातों पर वापस जाएँ",
+    logInWithSso: "अपने कंपनी खाते से लॉग इन करें",
+    ssoFailed: "कंपनी साइन-इन नहीं खुल सका। कृपया फिर से प्रयास करें।",
+  },
+  introScreen: {
+    heading: "स्वागत है",
+    tagline: "जहाँ छोड़ा था वहीं से जारी रखने के लिए साइन इन करें, या शुरू करने के लिए खाता बनाएँ।",
+    logIn: "लॉग इन करें",
+    register: "खाता बनाएँ",
+  },
+  registerScreen: {
+    heading: "खाता बनाएँ",
+    enterDetails: "शुरू करने के लिए अपना विवरण भरें।",
+    nameFieldLabel: "नाम",
+    nameFieldPlaceholder: "आपका पूरा नाम",
+    passwordHelper: "कम से कम {{count}} अक्षर, बड़े और छोटे अक्षरों और एक संख्या के साथ।",
+    confirmPasswordFieldLabel: "पासवर्ड की पुष्टि करें",
+    confirmPasswordFieldPlaceholder: "अपना पासवर्ड दोबारा दर्ज करें",
+    tapToRegister: "खाता बनाएँ",
+    registerFailed: "खाता नहीं बनाया जा सका",
+    haveAccount: "पहले से खाता है? लॉग इन करें",
+  },
+  forgotPasswordScreen: {
+    heading: "अपना पासवर्ड रीसेट करें",
+    requestDetails: "अपना ईमेल दर्ज करें और हम आपको पासवर्ड रीसेट करने के लिए एक कोड भेजेंगे।",
+    sendCode: "कोड भेजें",
+    codeDetails: "{{email}} पर भेजा गया कोड दर्ज करें।",
+    codeFieldLabel: "कोड",
+    codeFieldPlaceholder: "ईमेल से कोड",
+    verifyCode: "कोड सत्यापित करें",
+    resendCode: "नया कोड भेजें",
+    codeResent: "नया कोड भेजा जा रहा है।",
+    passwordDetails: "नया पासवर्ड चुनें।",
+    newPasswordFieldLabel: "नया पासवर्ड",
+    resetPassword: "पासवर्ड रीसेट करें",
+    passwordReset: "आपका पासवर्ड रीसेट हो गया है। अब आप इससे लॉग इन कर सकते हैं।",
+    resetFailed: "पासवर्ड रीसेट नहीं हो सका",
+    backToLogIn: "लॉग इन पर वापस जाएँ",
+  },
+  idleTimeout: {
+    title: "क्या आप अभी भी यहाँ हैं?",
+    message: "आप {{count}} सेकंड में साइन आउट हो जाएँगे।",
+    staySignedIn: "साइन इन रहें",
+  },
+  pinPad: {
+    delete: "मिटाएँ",
+    submit: "पुष्टि करें",
+  },
+  appLock: {
+    title: "अपना PIN दर्ज करें",
+    wrongPin: "गलत PIN। {{count}} प्रयास बाकी हैं।",
+    tryAgainIn: "बहुत सारे गलत PIN। {{count}} सेकंड में फिर से प्रयास करें।",
+    tooManyAttempts: "बहुत सारे गलत PIN। कृपया फिर से लॉग इन करें।",
+    forgotPin: "PIN भूल गए?",
+    forgotPinTitle: "अपना PIN रीसेट करें?",
+    forgotPinMessage: "आप साइन आउट हो जाएँगे। नया PIN चुनने के लिए फिर से लॉग इन करें।",
+    signOut: "साइन आउट करें",
+  },
+  setPinScreen: {
+    title: "PIN सेट करें",
+    details: "4 से 6 अंकों का PIN चुनें। ऐप अनलॉक करने के लिए आप इसका उपयोग करेंगे।",
+    confirmTitle: "अपने PIN की पुष्टि करें",
+    confirmDetails: "वही PIN फिर से दर्ज करें।",
+    mismatch: "PIN मेल नहीं खाते। कृपया फिर से शुरू करें।",
+  },
+  accountSwitcher: {
+    title: "खाते",
+    addAccount: "दूसरा खाता जोड़ें",
+    signOut: "इस खाते से साइन आउट करें",
+    unnamedAccount: "खाता",
+  },
+  roles: {
+    admin: "व्यवस्थापक",
+    supervisor: "पर्यवेक्षक",
+    staff: "कर्मचारी",
+  },
+  notAllowedScreen: {
+    heading: "अनुमति नहीं है",
+    details: "आपके खाते को इस स्क्रीन की पहुँच नहीं है। ज़रूरत हो तो किसी व्यवस्थापक से पूछें।",
+    back: "वापस जाएँ",
+  },
+  oidcCallbackScreen: {
+    signingIn: "साइन इन हो रहा है…",
+    failed: "साइन इन नहीं हो सका",
+    denied: "साइन-इन रद्द कर दिया गया।",
+    expired: "यह साइन-इन लिंक समाप्त हो गया है। कृपया फिर से शुरू करें।",
   },
   demoNavigator: {
     componentsTab: "कंपोनेंट्स",
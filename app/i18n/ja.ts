@@ -33,17 +33,127 @@ const ja: Translations = {
 
   errors: {
     invalidEmail: "有効なメールアドレスを入力してください.",
+    required: "この項目は必須です。",
+    passwordTooShort: "{{count}}文字以上で入力してください。",
+    passwordNeedsLowercase: "小文字を含めてください。",
+    passwordNeedsUppercase: "大文字を含めてください。",
+    passwordNeedsDigit: "数字を含めてください。",
+    passwordsDontMatch: "パスワードが一致しません。",
+  },
+  apiProblems: {
+    offline: "インターネットに接続されていません。ネットワークを確認して、もう一度お試しください。",
+    queued: "オフラインです。オンラインに戻ると変更が送信されます。",
+    cannotConnect:
+      "サーバーに接続できませんでした。ネットワークを確認して、もう一度お試しください。",
+    unauthorized: "セッションの有効期限が切れました。もう一度サインインしてください。",
+    forbidden: "この操作は許可されていません。",
+    notFound: "この項目はもう存在しません。",
+    conflict: "この項目は他の人によって変更されました。再読み込みして、もう一度お試しください。",
+    payloadTooLarge: "送信するデータが大きすぎます。",
+    rateLimited: "試行回数が多すぎます。しばらく待ってから、もう一度お試しください。",
+    validation: "エラーを修正して、もう一度お試しください。",
+    unknown: "予期しないエラーが発生しました。もう一度お試しください。",
+    errorPrefix: "エラー",
   },
   loginScreen: {
     logIn: "ログイン",
-    enterDetails:
-      "ここにあなたの情報を入力してトップシークレットをアンロックしましょう。何が待ち構えているか予想もつかないはずです。はたまたそうでも無いかも - ロケットサイエンスほど複雑なものではありません。",
+    enterDetails: "メールアドレスとパスワードを入力してログインしてください。",
     emailFieldLabel: "メールアドレス",
     passwordFieldLabel: "パスワード",
     emailFieldPlaceholder: "メールアドレスを入力してください",
     passwordFieldPlaceholder: "パスワードを入力してください",
     tapToLogIn: "タップしてログインしよう！",
-    hint: "ヒント: お好みのメールアドレスとパスワードを使ってください :)",
+    logInFailed: "ログインできませんでした",
+    invalidCredentials: "メールアドレスまたはパスワードが正しくありません。",
+    forgotPassword: "パスワードをお忘れですか？",
+    noAccount: "アカウントをお持ちでない方は登録",
+    backToAccounts: "キャンセルしてアカウントに戻る",
+    logInWithSso: "会社のアカウントでログイン",
+    ssoFailed: "会社のサインインを開けませんでした。もう一度お試しください。",
+  },
+  introScreen: {
+    heading: "ようこそ",
+    tagline: "ログインして続きから始めるか、アカウントを作成して始めましょう。",
+    logIn: "ログイン",
+    register: "アカウントを作成",
+  },
+  registerScreen: {
+    heading: "アカウントを作成",
+    enterDetails: "情報を入力して始めましょう。",
+    nameFieldLabel: "名前",
+    nameFieldPlaceholder: "フルネーム",
+    passwordHelper: "{{count}}文字以上で、大文字・小文字・数字を含めてください。",
+    confirmPasswordFieldLabel: "パスワードの確認",
+    confirmPasswordFieldPlaceholder: "パスワードをもう一度入力",
+    tapToRegister: "アカウントを作成",
+    registerFailed: "アカウントを作成できませんでした",
+    haveAccount: "アカウントをお持ちの方はログイン",
+  },
+  forgotPasswordScreen: {
+    heading: "パスワードの再設定",
+    requestDetails: "メールアドレスを入力すると、パスワード再設定用のコードをお送りします。",
+    sendCode: "コードを送信",
+    codeDetails: "{{email}} に送信したコードを入力してください。",
+    codeFieldLabel: "コード",
+    codeFieldPlaceholder: "メールに記載のコード",
+    verifyCode: "コードを確認",
+    resendCode: "新しいコードを送信",
+    codeResent: "新しいコードを送信しました。",
+    passwordDetails: "新しいパスワードを設定してください。",
+    newPasswordFieldLabel: "新しいパスワード",
+    resetPassword: "パスワードを再設定",
+    passwordReset: "パスワードを再設定しました。新しいパスワードでログインできます。",
+    resetFailed: "パスワードを再設定できませんでした",
+    backToLogIn: "ログインに戻る",
+  },
+  idleTimeout: {
+    title: "まだ操作中ですか？",
+    message: "{{count}}秒後にログアウトします。",
+    staySignedIn: "ログインしたままにする",
+  },
+  pinPad: {
+    delete: "削除",
+    submit: "確定",
+  },
+  appLock: {
+    title: "PINを入力してください",
+    wrongPin: "PINが違います。残り{{count}}回です。",
+    tryAgainIn: "PINの誤りが多すぎます。{{count}}秒後にもう一度お試しください。",
+    tooManyAttempts: "PINの誤りが多すぎます。もう一度ログインしてください。",
+    forgotPin: "PINをお忘れですか？",
+    forgotPinTitle: "PINを再設定しますか？",
+    forgotPinMessage: "ログアウトします。もう一度ログインして新しいPINを設定してください。",
+    signOut: "ログアウト",
+  },
+  setPinScreen: {
+    title: "PINを設定",
+    details: "4〜6桁のPINを選んでください。アプリのロック解除に使います。",
+    confirmTitle: "PINの確認",
+    confirmDetails: "同じPINをもう一度入力してください。",
+    mismatch: "PINが一致しません。最初からやり直してください。",
+  },
+  accountSwitcher: {
+    title: "アカウント",
+    addAccount: "別のアカウントを追加",
+    signOut: "このアカウントからログアウト",
+    unnamedAccount: "アカウント",
+  },
+  roles: {
+    admin: "管理者",
+    supervisor: "スーパーバイザー",
+    staff: "スタッフ",
+  },
+  notAllowedScreen: {
+    heading: "アクセスできません",
+    details:
+      "このアカウントにはこの画面へのアクセス権がありません。必要な場合は管理者に依頼してください。",
+    back: "戻る",
+  },
+  oidcCallbackScreen: {
+    signingIn: "サインインしています…",
+    failed: "サインインできませんでした",
+    denied: "サインインがキャンセルされました。",
+    expired: "このサインインリンクは期限切れです。もう一度やり直してください。",
   },
   demoNavigator: {
     componentsTab: "コンポーネント",
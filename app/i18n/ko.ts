@@ -32,17 +32,125 @@ const ko: Translations = {
 
   errors: {
     invalidEmail: "잘못된 이메일 주소 입니다.",
+    required: "필수 입력 항목입니다.",
+    passwordTooShort: "{{count}}자 이상이어야 합니다.",
+    passwordNeedsLowercase: "소문자를 포함해야 합니다.",
+    passwordNeedsUppercase: "대문자를 포함해야 합니다.",
+    passwordNeedsDigit: "숫자를 포함해야 합니다.",
+    passwordsDontMatch: "비밀번호가 일치하지 않습니다.",
+  },
+  apiProblems: {
+    offline: "인터넷에 연결되어 있지 않습니다. 네트워크를 확인하고 다시 시도해 주세요.",
+    queued: "오프라인 상태입니다. 다시 온라인이 되면 변경 사항이 전송됩니다.",
+    cannotConnect: "서버에 연결할 수 없습니다. 네트워크를 확인하고 다시 시도해 주세요.",
+    unauthorized: "세션이 만료되었습니다. 다시 로그인해 주세요.",
+    forbidden: "이 작업을 수행할 권한이 없습니다.",
+    notFound: "이 항목은 더 이상 존재하지 않습니다.",
+    conflict: "다른 사람이 이 항목을 변경했습니다. 새로고침한 후 다시 시도해 주세요.",
+    payloadTooLarge: "전송하려는 데이터가 너무 큽니다.",
+    rateLimited: "시도 횟수가 너무 많습니다. 잠시 후 다시 시도해 주세요.",
+    validation: "오류를 수정한 후 다시 시도해 주세요.",
+    unknown: "예기치 않은 오류가 발생했습니다. 다시 시도해 주세요.",
+    errorPrefix: "오류",
   },
   loginScreen: {
     logIn: "로그인",
-    enterDetails:
-      "일급비밀 정보를 해제하기 위해 상세 정보를 입력하세요. 무엇이 기다리고 있는지 절대 모를겁니다. 혹은 알 수 있을지도 모르겠군요. 엄청 복잡한 뭔가는 아닙니다.",
+    enterDetails: "로그인하려면 이메일과 비밀번호를 입력하세요.",
     emailFieldLabel: "이메일",
     passwordFieldLabel: "비밀번호",
     emailFieldPlaceholder: "이메일을 입력하세요",
     passwordFieldPlaceholder: "엄청 비밀스러운 암호를 입력하세요",
     tapToLogIn: "눌러서 로그인 하기!",
-    hint: "힌트: 가장 좋아하는 암호와 아무런 아무 이메일 주소나 사용할 수 있어요 :)",
+    logInFailed: "로그인하지 못했습니다",
+    invalidCredentials: "이메일 또는 비밀번호가 올바르지 않습니다.",
+    forgotPassword: "비밀번호를 잊으셨나요?",
+    noAccount: "계정이 없으신가요? 가입하기",
+    backToAccounts: "취소하고 내 계정으로 돌아가기",
+    logInWithSso: "회사 계정으로 로그인",
+    ssoFailed: "회사 로그인을 열 수 없습니다. 다시 시도해 주세요.",
+  },
+  introScreen: {
+    heading: "환영합니다",
+    tagline: "로그인하여 이어서 하거나, 계정을 만들어 시작하세요.",
+    logIn: "로그인",
+    register: "계정 만들기",
+  },
+  registerScreen: {
+    heading: "계정 만들기",
+    enterDetails: "시작하려면 정보를 입력하세요.",
+    nameFieldLabel: "이름",
+    nameFieldPlaceholder: "이름 전체",
+    passwordHelper: "{{count}}자 이상, 대문자와 소문자, 숫자를 포함해야 합니다.",
+    confirmPasswordFieldLabel: "비밀번호 확인",
+    confirmPasswordFieldPlaceholder: "비밀번호를 다시 입력하세요",
+    tapToRegister: "계정 만들기",
+    registerFailed: "계정을 만들지 못했습니다",
+    haveAccount: "이미 계정이 있으신가요? 로그인",
+  },
+  forgotPasswordScreen: {
+    heading: "비밀번호 재설정",
+    requestDetails: "이메일을 입력하시면 비밀번호 재설정 코드를 보내드립니다.",
+    sendCode: "코드 보내기",
+    codeDetails: "{{email}}(으)로 보낸 코드를 입력하세요.",
+    codeFieldLabel: "코드",
+    codeFieldPlaceholder: "이메일로 받은 코드",
+    verifyCode: "코드 확인",
+    resendCode: "새 코드 보내기",
+    codeResent: "새 코드를 보냈습니다.",
+    passwordDetails: "새 비밀번호를 선택하세요.",
+    newPasswordFieldLabel: "새 비밀번호",
+    resetPassword: "비밀번호 재설정",
+    passwordReset: "비밀번호가 재설정되었습니다. 이제 새 비밀번호로 로그인할 수 있습니다.",
+    resetFailed: "비밀번호를 재설정하지 못했습니다",
+    backToLogIn: "로그인으로 돌아가기",
+  },
+  idleTimeout: {
+    title: "아직 사용 중이신가요?",
+    message: "{{count}}초 후에 로그아웃됩니다.",
+    staySignedIn: "로그인 유지",
+  },
+  pinPad: {
+    delete: "삭제",
+    submit: "확인",
+  },
+  appLock: {
+    title: "PIN을 입력하세요",
+    wrongPin: "PIN이 틀렸습니다. {{count}}번 남았습니다.",
+    tryAgainIn: "PIN을 너무 많이 틀렸습니다. {{count}}초 후에 다시 시도하세요.",
+    tooManyAttempts: "PIN을 너무 많이 틀렸습니다. 다시 로그인하세요.",
+    forgotPin: "PIN을 잊으셨나요?",
+    forgotPinTitle: "PIN을 재설정할까요?",
+    forgotPinMessage: "로그아웃됩니다. 다시 로그인하여 새 PIN을 설정하세요.",
+    signOut: "로그아웃",
+  },
+  setPinScreen: {
+    title: "PIN 설정",
+    details: "4~6자리 PIN을 선택하세요. 앱 잠금을 해제할 때 사용합니다.",
+    confirmTitle: "PIN 확인",
+    confirmDetails: "같은 PIN을 다시 입력하세요.",
+    mismatch: "PIN이 일치하지 않습니다. 처음부터 다시 시작하세요.",
+  },
+  accountSwitcher: {
+    title: "계정",
+    addAccount: "다른 계정 추가",
+    signOut: "이 계정에서 로그아웃",
+    unnamedAccount: "계정",
+  },
+  roles: {
+    admin: "관리자",
+    supervisor: "감독자",
+    staff: "직원",
+  },
+  notAllowedScreen: {
+    heading: "접근할 수 없음",
+    details: "이 계정에는 이 화면에 대한 접근 권한이 없습니다. 필요하면 관리자에게 요청하세요.",
+    back: "돌아가기",
+  },
+  oidcCallbackScreen: {
+    signingIn: "로그인하는 중…",
+    failed: "로그인할 수 없습니다",
+    denied: "로그인이 취소되었습니다.",
+    expired: "이 로그인 링크가 만료되었습니다. 다시 시작해 주세요.",
   },
   demoNavigator: {
     componentsTab: "컴포넌트",
@@ -6,15 +6,23 @@
  */
 import { NavigationContainer } from "@react-navigation/native"
 import { createNativeStackNavigator } from "@react-navigation/native-stack"
+import { useMMKVString } from "react-native-mmkv"
 
 import Config from "@/config"
 import { useAuth } from "@/context/AuthContext"
+import { DeveloperScreen } from "@/screens/DeveloperScreen"
+import { DownloadsScreen } from "@/screens/DownloadsScreen"
 import { ErrorBoundary } from "@/screens/ErrorScreen/ErrorBoundary"
+import { NotAllowedScreen } from "@/screens/NotAllowedScreen"
+import { SetPinScreen } from "@/screens/SetPinScreen"
+import { PIN_STORAGE_KEY } from "@/services/appLock"
 import { useAppTheme } from "@/theme/context"
+import { secureStorage } from "@/utils/storage/secureStorage"
 
 import { AuthNavigator } from "./AuthNavigator"
 import { MainTabNavigator } from "./MainTabNavigator"
 import { navigationRef, useBackButtonHandler } from "./navigationUtilities"
+import { useCanOpenScreen } from "./screenPermissions"
 import type { AppStackParamList, NavigationProps } from "./navigationTypes"
 
 /**
@@ -28,6 +36,10 @@ const Stack = createNativeStackNavigator<AppStackParamList>()
 
 const AppStack = () => {
   const { isAuthenticated } = useAuth()
+  // Set as soon as SetPinScreen stores the PIN, and cleared on logout
+  const [storedPin] = useMMKVString(PIN_STORAGE_KEY, secureStorage)
+  const needsPin = isAuthenticated && !storedPin
+  const canOpenScreen = useCanOpenScreen()
 
   const {
     theme: { colors },
@@ -42,12 +54,19 @@ const AppStack = () => {
           backgroundColor: colors.background,
         },
       }}
-      initialRouteName={isAuthenticated ? "Main" : "Auth"}
+      initialRouteName={needsPin ? "SetPin" : isAuthenticated ? "Main" : "Auth"}
+      // Screens the user lacks the permission for, e.g. opened from a deep link
+      screenLayout={({ route, children }) =>
+        canOpenScreen(route.name) ? children : <NotAllowedScreen />
+      }
     >
-      {isAuthenticated ? (
+      {needsPin ? (
+        <Stack.Screen name="SetPin" component={SetPinScreen} />
+      ) : isAuthenticated ? (
         <>
           <Stack.Screen name="Main" component={MainTabNavigator} />
-          <Stack.Screen name="Developer" component={DeveloperPlaceholderScreen} />
+          <Stack.Screen name="Developer" component={DeveloperScreen} />
+          <Stack.Screen name="Downloads" component={DownloadsScreen} />
         </>
       ) : (
         <>
@@ -61,11 +80,6 @@ const AppStack = () => {
   )
 }
 
-// Placeholder Developer Screen
-const DeveloperPlaceholderScreen = () => {
-  return null
-}
-
 export const AppNavigator = (props: NavigationProps) => {
   const { navigationTheme } = useAppTheme()
 
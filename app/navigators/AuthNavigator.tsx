@@ -3,18 +3,24 @@
  * Authentication flow navigator
  */
 
-import React from "react"
 import { createNativeStackNavigator } from "@react-navigation/native-stack"
-import { useAppTheme } from "@/theme/context"
-import type { AuthStackParamList } from "./navigationTypes"
 
-// Placeholder screens - will be replaced with actual implementations
+import { useAuth } from "@/context/AuthContext"
+import { ForgotPasswordScreen } from "@/screens/ForgotPasswordScreen"
+import { IntroScreen } from "@/screens/IntroScreen"
 import { LoginScreen } from "@/screens/LoginScreen"
+import { OidcCallbackScreen } from "@/screens/OidcCallbackScreen"
+import { RegisterScreen } from "@/screens/RegisterScreen"
+import { useAppTheme } from "@/theme/context"
+
+import type { AuthStackParamList } from "./navigationTypes"
 
 const Stack = createNativeStackNavigator<AuthStackParamList>()
 
 export const AuthNavigator = () => {
   const { theme } = useAppTheme()
+  // Adding an account skips the introduction
+  const { accounts } = useAuth()
 
   return (
     <Stack.Navigator
@@ -25,25 +31,13 @@ export const AuthNavigator = () => {
           backgroundColor: theme.colors.background,
         },
       }}
-      initialRouteName="Login"
+      initialRouteName={accounts.length > 0 ? "Login" : "Intro"}
     >
-      {/* Using LoginScreen as placeholder for all auth screens */}
-      <Stack.Screen
-        name="Intro"
-        component={LoginScreen}
-        // @ts-ignore - placeholder
-      />
+      <Stack.Screen name="Intro" component={IntroScreen} />
       <Stack.Screen name="Login" component={LoginScreen} />
-      <Stack.Screen
-        name="Register"
-        component={LoginScreen}
-        // @ts-ignore - placeholder
-      />
-      <Stack.Screen
-        name="ForgotPassword"
-        component={LoginScreen}
-        // @ts-ignore - placeholder
-      />
+      <Stack.Screen name="Register" component={RegisterScreen} />
+      <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+      <Stack.Screen name="OidcCallback" component={OidcCallbackScreen} />
     </Stack.Navigator>
   )
 }
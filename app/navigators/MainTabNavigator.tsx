@@ -4,28 +4,32 @@
  */
 
 import React, { useEffect } from "react"
-import { createBottomTabNavigator } from "@react-navigation/bottom-tabs"
-import { useAppTheme } from "@/theme/context"
-import { Icon } from "@/components/Icon"
-import type { MainTabParamList } from "./navigationTypes"
-import { useSafeAreaInsets, SafeAreaView } from "react-native-safe-area-context"
 import { Platform, View } from "react-native"
+import { createBottomTabNavigator } from "@react-navigation/bottom-tabs"
+import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context"
 
+import { Icon } from "@/components/Icon"
+import { IconPack } from "@/components/ui"
 // Placeholder screens - will be replaced with actual implementations
-import { WelcomeScreen } from "@/screens/WelcomeScreen"
+import { ComponentScreen } from "@/screens/ComponentScreen"
 import { DemoCommunityScreen } from "@/screens/DemoCommunityScreen"
 import { DemoDebugScreen } from "@/screens/DemoDebugScreen"
-import { ComponentScreen } from "@/screens/ComponentScreen"
-import { setNavigationBar } from "@/services/sytemBars"
 import Home from "@/screens/Home"
-import { IconPack } from "@/components/ui"
 import InfiniteListExampleScreen from "@/screens/InfiniteListExampleScreen"
+import { WelcomeScreen } from "@/screens/WelcomeScreen"
+import { setNavigationBar } from "@/services/sytemBars"
+import { useAppTheme } from "@/theme/context"
+
+import type { MainTabParamList } from "./navigationTypes"
+import { useCanOpenScreen } from "./screenPermissions"
 
 const Tab = createBottomTabNavigator<MainTabParamList>()
 
 export const MainTabNavigator = () => {
   const { theme } = useAppTheme()
   const insets = useSafeAreaInsets()
+  // Tabs the user lacks the permission for are left out
+  const canOpenScreen = useCanOpenScreen()
 
   useEffect(() => {
     // Any side effects related to navigation bar can be handled here
@@ -62,14 +66,16 @@ export const MainTabNavigator = () => {
             tabBarIcon: ({ color }) => <IconPack name="home" size={24} color={color} />,
           }}
         />
-        <Tab.Screen
-          name="Data"
-          component={DemoCommunityScreen as any}
-          options={{
-            tabBarLabel: "Data",
-            tabBarIcon: ({ color }) => <Icon icon="components" size={24} color={color} />,
-          }}
-        />
+        {canOpenScreen("Data") && (
+          <Tab.Screen
+            name="Data"
+            component={DemoCommunityScreen as any}
+            options={{
+              tabBarLabel: "Data",
+              tabBarIcon: ({ color }) => <Icon icon="components" size={24} color={color} />,
+            }}
+          />
+        )}
         <Tab.Screen
           name="Profile"
           component={DemoDebugScreen as any}
@@ -78,22 +84,26 @@ export const MainTabNavigator = () => {
             tabBarIcon: ({ color }) => <Icon icon="ladybug" size={24} color={color} />,
           }}
         />
-        <Tab.Screen
-          name="Components"
-          component={ComponentScreen as any}
-          options={{
-            tabBarLabel: "Components",
-            tabBarIcon: ({ color }) => <Icon icon="components" size={24} color={color} />,
-          }}
-        />
-        <Tab.Screen
-          name="List"
-          component={InfiniteListExampleScreen as any}
-          options={{
-            tabBarLabel: "List",
-            tabBarIcon: ({ color }) => <IconPack name="document" size={24} color={color} />,
-          }}
-        />
+        {canOpenScreen("Components") && (
+          <Tab.Screen
+            name="Components"
+            component={ComponentScreen as any}
+            options={{
+              tabBarLabel: "Components",
+              tabBarIcon: ({ color }) => <Icon icon="components" size={24} color={color} />,
+            }}
+          />
+        )}
+        {canOpenScreen("List") && (
+          <Tab.Screen
+            name="List"
+            component={InfiniteListExampleScreen as any}
+            options={{
+              tabBarLabel: "List",
+              tabBarIcon: ({ color }) => <IconPack name="document" size={24} color={color} />,
+            }}
+          />
+        )}
       </Tab.Navigator>
     </SafeAreaView>
   )
@@ -7,12 +7,15 @@ import {
 } from "@react-navigation/native"
 import { NativeStackScreenProps } from "@react-navigation/native-stack"
 
+import type { OidcCallbackParams } from "@/services/oidc"
+
 // Auth Navigator types
 export type AuthStackParamList = {
   Intro: undefined
   Login: { message?: string }
   Register: undefined
   ForgotPassword: undefined
+  OidcCallback: OidcCallbackParams | undefined
 }
 
 // Tab Navigator types
@@ -40,6 +43,8 @@ export type AppStackParamList = {
   Main: NavigatorScreenParams<MainTabParamList>
   // Standalone screens
   Developer: undefined
+  Downloads: undefined
+  SetPin: undefined
   // Demo screens (kept for reference)
   DemoCommunity: undefined
   DemoShowroom: { queryIndex?: string; itemIndex?: string }
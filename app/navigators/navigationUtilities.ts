@@ -112,7 +112,8 @@ function navigationRestoredDefaultState(persistNavigation: PersistNavigationConf
 /**
  * Custom hook for persisting navigation state.
  * @param {Storage} storage - The storage utility to use.
- * @param {string} persistenceKey - The key to use for storing the navigation state.
+ * @param {string} persistenceKey - The key to use for storing the navigation state. The state
+ * saved under a new key is restored when it changes.
  * @returns {object} - The navigation state and persistence functions.
  */
 export function useNavigationPersistence(storage: Storage, persistenceKey: string) {
@@ -125,6 +126,15 @@ export function useNavigationPersistence(storage: Storage, persistenceKey: strin
 
   const routeNameRef = useRef<keyof AppStackParamList | undefined>(undefined)
 
+  // Another key, e.g. of another account: start from the screens saved under it
+  const [restoredKey, setRestoredKey] = useState(persistenceKey)
+  if (restoredKey !== persistenceKey) {
+    setRestoredKey(persistenceKey)
+    routeNameRef.current = undefined
+    const state = initNavState ? null : storage.load(persistenceKey)
+    setInitialNavigationState((state as NavigationProps["initialState"] | null) ?? undefined)
+  }
+
   const onNavigationStateChange = (state: NavigationState | undefined) => {
     const previousRouteName = routeNameRef.current
     if (state !== undefined) {
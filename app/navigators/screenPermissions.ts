@@ -0,0 +1,49 @@
+/**
+ * screenPermissions.ts
+ * Permissions required to open each screen, checked by the navigators
+ */
+
+import { useCallback } from "react"
+
+import { useAuthorization } from "@/hooks/useAuthorization"
+import type { Permission } from "@/services/authorization"
+
+import type { AppStackParamList, MainTabParamList } from "./navigationTypes"
+
+type RouteName = keyof AppStackParamList | keyof MainTabParamList
+
+/**
+ * Screens not listed are open to every signed-in user. Tabs the user can't open are hidden,
+ * and other screens show `NotAllowedScreen` instead.
+ */
+export const SCREEN_PERMISSIONS: Partial<Record<RouteName, Permission | Permission[]>> = {
+  Data: "data:view",
+  Components: "components:view",
+  List: "lists:view",
+  Developer: "developer:view",
+  Downloads: "downloads:view",
+}
+
+/**
+ * The permissions a screen requires, if any.
+ *
+ * @param routeName The name of the route.
+ */
+export function getScreenPermission(routeName: string): Permission | Permission[] | undefined {
+  return SCREEN_PERMISSIONS[routeName as RouteName]
+}
+
+/**
+ * @returns A function that tells whether the active account may open a screen.
+ */
+export function useCanOpenScreen() {
+  const { can } = useAuthorization()
+
+  return useCallback(
+    (routeName: string) => {
+      const permission = getScreenPermission(routeName)
+      return !permission || can(permission)
+    },
+    [can],
+  )
+}
@@ -0,0 +1,180 @@
+/**
+ * AppLockProvider.tsx
+ * Covers the app with a PIN prompt when it returns from the background
+ */
+
+import { FC, ReactNode, useCallback, useEffect, useRef, useState } from "react"
+import { AppState, StyleSheet, TextStyle, View, ViewStyle } from "react-native"
+
+import { PinPad } from "@/components/PinPad"
+import { Text } from "@/components/Text"
+import Config from "@/config"
+import { useAuth } from "@/context/AuthContext"
+import { useFlashMessage } from "@/hooks/useFlashMessage"
+import { translate } from "@/i18n/translate"
+import { getLockedUntil, hasPin, PIN_MAX_LENGTH, verifyPin } from "@/services/appLock"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+import { usePopupMessageContext } from "./PopupMessageProvider"
+
+interface AppLockProviderProps {
+  children: ReactNode
+  /**
+   * Milliseconds the app can spend in the background without asking for the PIN
+   */
+  gracePeriod?: number
+}
+
+export const AppLockProvider: FC<AppLockProviderProps> = ({
+  children,
+  gracePeriod = Config.appLockGracePeriod,
+}) => {
+  const { isAuthenticated, logoutAll } = useAuth()
+  const { showPopup } = usePopupMessageContext()
+  const { showError } = useFlashMessage()
+  // A cold start counts as a return from the background
+  const [isLocked, setIsLocked] = useState(() => isAuthenticated && hasPin())
+  const [pin, setPinValue] = useState("")
+  const [message, setMessage] = useState<string | null>(null)
+  const [lockedUntil, setLockedUntil] = useState(getLockedUntil)
+  const [now, setNow] = useState(Date.now)
+  const [isChecking, setIsChecking] = useState(false)
+  const backgroundedAt = useRef<number | null>(null)
+
+  const { themed } = useAppTheme()
+  const $insets = useSafeAreaInsetsStyle(["top", "bottom"])
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setIsLocked(false)
+      return undefined
+    }
+
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "background") {
+        backgroundedAt.current = Date.now()
+      } else if (state === "active" && backgroundedAt.current !== null) {
+        const away = Date.now() - backgroundedAt.current
+        backgroundedAt.current = null
+        if (away >= gracePeriod && hasPin()) {
+          setPinValue("")
+          setMessage(null)
+          setLockedUntil(getLockedUntil())
+          setIsLocked(true)
+        }
+      }
+    })
+    return () => subscription.remove()
+  }, [isAuthenticated, gracePeriod])
+
+  const waiting = !!lockedUntil && lockedUntil > now
+
+  // Count down while the next attempt has to wait
+  useEffect(() => {
+    if (!waiting) return undefined
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [waiting])
+
+  const signOut = useCallback(() => {
+    setIsLocked(false)
+    logoutAll()
+  }, [logoutAll])
+
+  const onSubmit = async (value: string) => {
+    setIsChecking(true)
+    const result = await verifyPin(value)
+    setIsChecking(false)
+    setPinValue("")
+
+    switch (result.kind) {
+      case "ok":
+        setMessage(null)
+        setLockedUntil(undefined)
+        setIsLocked(false)
+        break
+      case "wrong":
+        setMessage(translate("appLock:wrongPin", { count: result.attemptsLeft }))
+        setLockedUntil(result.lockedUntil)
+        setNow(Date.now())
+        break
+      case "locked":
+        setMessage(null)
+        setLockedUntil(result.lockedUntil)
+        setNow(Date.now())
+        break
+      case "exceeded":
+        signOut()
+        showError(translate("appLock:tooManyAttempts"))
+        break
+    }
+  }
+
+  const onForgotPin = () =>
+    showPopup({
+      title: translate("appLock:forgotPinTitle"),
+      message: translate("appLock:forgotPinMessage"),
+      type: "warning",
+      buttons: [
+        { text: translate("common:cancel"), style: "cancel" },
+        { text: translate("appLock:signOut"), style: "destructive", onPress: signOut },
+      ],
+    })
+
+  return (
+    <View style={$styles.flex1}>
+      {children}
+      {isLocked && (
+        <View style={[themed($overlay), $insets]} accessibilityViewIsModal>
+          <Text tx="appLock:title" preset="heading" style={themed($title)} />
+          <Text
+            text={
+              waiting
+                ? translate("appLock:tryAgainIn", {
+                    count: Math.ceil((lockedUntil! - now) / 1000),
+                  })
+                : (message ?? " ")
+            }
+            size="sm"
+            style={themed($message)}
+          />
+          <PinPad
+            value={pin}
+            onChange={setPinValue}
+            onSubmit={onSubmit}
+            maxLength={PIN_MAX_LENGTH}
+            disabled={waiting || isChecking}
+          />
+          <Text tx="appLock:forgotPin" size="sm" style={themed($link)} onPress={onForgotPin} />
+        </View>
+      )}
+    </View>
+  )
+}
+
+const $overlay: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  ...StyleSheet.absoluteFillObject,
+  backgroundColor: colors.background,
+  justifyContent: "center",
+  paddingHorizontal: spacing.lg,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  textAlign: "center",
+  marginBottom: spacing.sm,
+})
+
+const $message: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.error,
+  textAlign: "center",
+  marginBottom: spacing.lg,
+})
+
+const $link: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.tint,
+  textAlign: "center",
+  marginTop: spacing.xl,
+})
@@ -0,0 +1,78 @@
+/**
+ * CurrentUserProvider.tsx
+ * Keeps the profile of the active account up to date: after signing in or switching
+ * accounts, and whenever the app returns to the foreground
+ */
+
+import { createContext, FC, ReactNode, useCallback, useContext, useEffect, useState } from "react"
+import { AppState } from "react-native"
+import { useMMKVObject } from "react-native-mmkv"
+
+import { useAuth } from "@/context/AuthContext"
+import { getCurrentUserKey, refreshCurrentUser, UserProfile } from "@/services/user"
+import { storage } from "@/utils/storage"
+
+interface CurrentUserContextValue {
+  /**
+   * The stored profile, until the first fetch of a new account ends
+   */
+  user?: UserProfile
+  /**
+   * Whether a fetch is running
+   */
+  isLoading: boolean
+  /**
+   * Fetch the profile again, e.g. after editing it
+   */
+  refresh: () => Promise<void>
+}
+
+const CurrentUserContext = createContext<CurrentUserContextValue | undefined>(undefined)
+
+interface CurrentUserProviderProps {
+  children: ReactNode
+}
+
+export const CurrentUserProvider: FC<CurrentUserProviderProps> = ({ children }) => {
+  const { activeAccountId } = useAuth()
+  const [user] = useMMKVObject<UserProfile>(getCurrentUserKey(activeAccountId ?? ""), storage)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      await refreshCurrentUser()
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!activeAccountId) return undefined
+
+    refresh()
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") refresh()
+    })
+    return () => subscription.remove()
+  }, [activeAccountId, refresh])
+
+  return (
+    <CurrentUserContext.Provider
+      value={{ user: activeAccountId ? user : undefined, isLoading, refresh }}
+    >
+      {children}
+    </CurrentUserContext.Provider>
+  )
+}
+
+/**
+ * The profile of the active account.
+ */
+export const useCurrentUser = () => {
+  const context = useContext(CurrentUserContext)
+  if (!context) {
+    throw new Error("useCurrentUser must be used within CurrentUserProvider")
+  }
+  return context
+}
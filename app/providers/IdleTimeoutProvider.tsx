@@ -0,0 +1,128 @@
+/**
+ * IdleTimeoutProvider.tsx
+ * Signs the active account out after a period without touches or navigation, with a warning first
+ */
+
+import { createContext, FC, ReactNode, useCallback, useContext, useEffect, useRef } from "react"
+import { AppState, View } from "react-native"
+
+import Config from "@/config"
+import { useAuth } from "@/context/AuthContext"
+import { translate } from "@/i18n/translate"
+import { navigationRef } from "@/navigators/navigationUtilities"
+import { IdleTimer } from "@/services/session/idleTimer"
+import { $styles } from "@/theme/styles"
+
+import { usePopupMessageContext } from "./PopupMessageProvider"
+
+interface IdleTimeoutContextValue {
+  /**
+   * Count as activity, e.g. while a video plays without touches
+   */
+  resetIdleTimer: () => void
+}
+
+const IdleTimeoutContext = createContext<IdleTimeoutContextValue | undefined>(undefined)
+
+interface IdleTimeoutProviderProps {
+  children: ReactNode
+  /**
+   * Milliseconds without activity before signing out. 0 disables the timeout.
+   */
+  timeout?: number
+  /**
+   * Milliseconds before the sign out during which a warning counts down
+   */
+  warningDuration?: number
+}
+
+export const IdleTimeoutProvider: FC<IdleTimeoutProviderProps> = ({
+  children,
+  timeout = Config.idleTimeout,
+  warningDuration = Config.idleWarning,
+}) => {
+  const auth = useAuth()
+  const popup = usePopupMessageContext()
+  const timerRef = useRef<IdleTimer | null>(null)
+  // Read when the timer fires, so new callbacks do not restart the timer
+  const authRef = useRef(auth)
+  authRef.current = auth
+  const popupRef = useRef(popup)
+  popupRef.current = popup
+
+  const { isAuthenticated } = auth
+
+  useEffect(() => {
+    if (!isAuthenticated || !timeout) return undefined
+
+    let warningShown = false
+    const timer = new IdleTimer({
+      timeout,
+      warningDuration,
+      onWarning: (remaining) => {
+        const message = translate("idleTimeout:message", { count: Math.ceil(remaining / 1000) })
+        // Opened once, then only the countdown changes
+        if (warningShown) {
+          popupRef.current.updatePopup({ message })
+          return
+        }
+        warningShown = true
+        popupRef.current.showPopup({
+          title: translate("idleTimeout:title"),
+          message,
+          type: "warning",
+          buttons: [{ text: translate("idleTimeout:staySignedIn"), onPress: () => timer.touch() }],
+          onDismiss: () => timer.touch(),
+        })
+      },
+      onActive: () => {
+        warningShown = false
+        popupRef.current.hidePopup()
+      },
+      onTimeout: () => {
+        warningShown = false
+        popupRef.current.hidePopup()
+        authRef.current.logout()
+      },
+    })
+    timerRef.current = timer
+    timer.setForeground(AppState.currentState === "active")
+    timer.start()
+
+    const appStateSubscription = AppState.addEventListener("change", (state) =>
+      timer.setForeground(state === "active"),
+    )
+    const unsubscribeNavigation = navigationRef.addListener("state", () => timer.touch())
+
+    return () => {
+      timer.stop()
+      timerRef.current = null
+      appStateSubscription.remove()
+      unsubscribeNavigation()
+    }
+  }, [isAuthenticated, timeout, warningDuration])
+
+  const resetIdleTimer = useCallback(() => timerRef.current?.touch(), [])
+
+  // Sees every touch before the touched component, without taking it
+  const onTouchCapture = useCallback(() => {
+    timerRef.current?.touch()
+    return false
+  }, [])
+
+  return (
+    <IdleTimeoutContext.Provider value={{ resetIdleTimer }}>
+      <View style={$styles.flex1} onStartShouldSetResponderCapture={onTouchCapture}>
+        {children}
+      </View>
+    </IdleTimeoutContext.Provider>
+  )
+}
+
+export const useIdleTimeout = () => {
+  const context = useContext(IdleTimeoutContext)
+  if (!context) {
+    throw new Error("useIdleTimeout must be used within IdleTimeoutProvider")
+  }
+  return context
+}
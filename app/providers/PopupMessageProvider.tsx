@@ -3,7 +3,7 @@
  * Provides popup/alert dialog functionality
  */
 
-import React, { createContext, useContext, useRef, ReactNode } from "react"
+import React, { createContext, useCallback, useContext, useMemo, useState, ReactNode } from "react"
 import { Modal, View, StyleSheet, Pressable, Text } from "react-native"
 
 export interface PopupMessageParams {
@@ -11,6 +11,10 @@ export interface PopupMessageParams {
   message: string
   buttons?: PopupButton[]
   type?: "info" | "success" | "warning" | "error"
+  /**
+   * Called when the popup is closed without a button, e.g. by tapping outside
+   */
+  onDismiss?: () => void
 }
 
 export interface PopupButton {
@@ -21,6 +25,11 @@ export interface PopupButton {
 
 interface PopupMessageContextValue {
   showPopup: (params: PopupMessageParams) => void
+  /**
+   * Change the popup showing without opening it again, e.g. to count down
+   */
+  updatePopup: (changes: Partial<PopupMessageParams>) => void
+  hidePopup: () => void
 }
 
 const PopupMessageContext = createContext<PopupMessageContextValue | undefined>(undefined)
@@ -30,22 +39,31 @@ interface PopupMessageProviderProps {
 }
 
 export const PopupMessageProvider: React.FC<PopupMessageProviderProps> = ({ children }) => {
-  const [visible, setVisible] = React.useState(false)
-  const paramsRef = useRef<PopupMessageParams>({
+  const [visible, setVisible] = useState(false)
+  const [params, setParams] = useState<PopupMessageParams>({
     message: "",
     buttons: [{ text: "OK" }],
   })
 
-  const showPopup = (params: PopupMessageParams) => {
-    paramsRef.current = {
-      ...params,
-      buttons: params.buttons || [{ text: "OK" }],
-    }
+  const showPopup = useCallback((nextParams: PopupMessageParams) => {
+    setParams({
+      ...nextParams,
+      buttons: nextParams.buttons || [{ text: "OK" }],
+    })
     setVisible(true)
-  }
+  }, [])
 
-  const hidePopup = () => {
+  const updatePopup = useCallback((changes: Partial<PopupMessageParams>) => {
+    setParams((current) => ({ ...current, ...changes }))
+  }, [])
+
+  const hidePopup = useCallback(() => {
     setVisible(false)
+  }, [])
+
+  const dismissPopup = () => {
+    hidePopup()
+    params.onDismiss?.()
   }
 
   const handleButtonPress = (button: PopupButton) => {
@@ -53,6 +71,11 @@ export const PopupMessageProvider: React.FC<PopupMessageProviderProps> = ({ chil
     button.onPress?.()
   }
 
+  const value = useMemo(
+    () => ({ showPopup, updatePopup, hidePopup }),
+    [showPopup, updatePopup, hidePopup],
+  )
+
   const getTypeColor = (type?: string) => {
     switch (type) {
       case "success":
@@ -66,18 +89,16 @@ export const PopupMessageProvider: React.FC<PopupMessageProviderProps> = ({ chil
     }
   }
 
-  const params = paramsRef.current
-
   return (
-    <PopupMessageContext.Provider value={{ showPopup }}>
+    <PopupMessageContext.Provider value={value}>
       {children}
       <Modal
         visible={visible}
         transparent
         animationType="fade"
-        onRequestClose={hidePopup}
+        onRequestClose={dismissPopup}
       >
-        <Pressable style={styles.overlay} onPress={hidePopup}>
+        <Pressable style={styles.overlay} onPress={dismissPopup}>
           <Pressable style={styles.container}>
             {params.title && (
               <Text style={[styles.title, { color: getTypeColor(params.type) }]}>
@@ -1,4 +1,4 @@
-import { FC, useCallback, useMemo } from "react"
+import { FC, useCallback, useMemo, useState } from "react"
 import {
   LayoutAnimation,
   Linking,
@@ -11,12 +11,21 @@ import {
 import * as Application from "expo-application"
 
 import { Button } from "@/components/Button"
+import { Can } from "@/components/Can"
 import { ListItem } from "@/components/ListItem"
 import { Screen } from "@/components/Screen"
 import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
 import { useAuth } from "@/context/AuthContext"
+import { useApiEnvironment } from "@/hooks/useApiEnvironment"
 import { isRTL } from "@/i18n"
 import { DemoTabScreenProps } from "@/navigators/navigationTypes"
+import {
+  getMockApiSettings,
+  MockProblem,
+  MockSettings,
+  setMockApiSettings,
+} from "@/services/api/mock"
 import type { ThemedStyle } from "@/theme/types"
 import { useAppTheme } from "@/theme/context"
 import { $styles } from "@/theme/styles"
@@ -31,9 +40,18 @@ function openLinkInBrowser(url: string) {
 
 const usingHermes = typeof HermesInternal === "object" && HermesInternal !== null
 
-export const DemoDebugScreen: FC<DemoTabScreenProps<"DemoDebug">> = function DemoDebugScreen(
-  _props,
-) {
+const MOCK_PROBLEMS: (MockProblem | null)[] = [
+  null,
+  "timeout",
+  "cannot-connect",
+  "server",
+  "unauthorized",
+]
+const MOCK_ERROR_RATES = [0, 0.2, 0.5]
+
+export const DemoDebugScreen: FC<DemoTabScreenProps<"DemoDebug">> = function DemoDebugScreen({
+  navigation,
+}) {
   const { setThemeContextOverride, themeContext, themed } = useAppTheme()
   const { logout } = useAuth()
 
@@ -64,6 +82,17 @@ export const DemoDebugScreen: FC<DemoTabScreenProps<"DemoDebug">> = function Dem
     setThemeContextOverride(themeContext === "dark" ? "light" : "dark")
   }, [themeContext, setThemeContextOverride])
 
+  const { environment, environments, setEnvironment } = useApiEnvironment()
+  const [customUrl, setCustomUrl] = useState(
+    environment.name === "custom" ? environment.baseUrl : "",
+  )
+
+  const [mockApi, setMockApi] = useState(getMockApiSettings)
+  const updateMockApi = useCallback((changes: Partial<MockSettings>) => {
+    setMockApiSettings(changes)
+    setMockApi(getMockApiSettings())
+  }, [])
+
   // Resets the theme to the system theme
   const colorScheme = useColorScheme()
   const resetTheme = useCallback(() => {
@@ -91,6 +120,71 @@ export const DemoDebugScreen: FC<DemoTabScreenProps<"DemoDebug">> = function Dem
       <View style={themed($itemsContainer)}>
         <Button onPress={toggleTheme} text={`Toggle Theme: ${themeContext}`} />
       </View>
+      {__DEV__ && (
+        <View style={themed($itemsContainer)}>
+          <Text preset="bold">API environment: {environment.label}</Text>
+          <Text style={themed($hint)}>{environment.baseUrl}. Switching signs you out.</Text>
+          {environments.map((item) => (
+            <Button
+              key={item.name}
+              style={themed($button)}
+              preset={item.name === environment.name ? "filled" : "default"}
+              text={item.label}
+              onPress={() => setEnvironment(item.name)}
+            />
+          ))}
+          <TextField
+            value={customUrl}
+            onChangeText={setCustomUrl}
+            label="Custom URL"
+            placeholder="http://localhost:3000/v1"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Button
+            style={themed($button)}
+            preset={environment.name === "custom" ? "filled" : "default"}
+            text="Use custom URL"
+            disabled={!/^https?:\/\/\S+$/.test(customUrl)}
+            onPress={() => setEnvironment("custom", customUrl)}
+          />
+        </View>
+      )}
+      {__DEV__ && (
+        <View style={themed($itemsContainer)}>
+          <Text preset="bold">Mock API</Text>
+          <Button
+            style={themed($button)}
+            text={`Mock API: ${mockApi.enabled ? "on" : "off"}`}
+            onPress={() => updateMockApi({ enabled: !mockApi.enabled })}
+          />
+          <Button
+            style={themed($button)}
+            text={`Forced problem: ${mockApi.forcedProblem ?? "none"}`}
+            onPress={() =>
+              updateMockApi({
+                forcedProblem:
+                  MOCK_PROBLEMS[
+                    (MOCK_PROBLEMS.indexOf(mockApi.forcedProblem) + 1) % MOCK_PROBLEMS.length
+                  ],
+              })
+            }
+          />
+          <Button
+            style={themed($button)}
+            text={`Error rate: ${Math.round(mockApi.errorRate * 100)}%`}
+            onPress={() =>
+              updateMockApi({
+                errorRate:
+                  MOCK_ERROR_RATES[
+                    (MOCK_ERROR_RATES.indexOf(mockApi.errorRate) + 1) % MOCK_ERROR_RATES.length
+                  ],
+              })
+            }
+          />
+        </View>
+      )}
       <View style={themed($itemsContainer)}>
         <ListItem
           LeftComponent={
@@ -145,6 +239,24 @@ export const DemoDebugScreen: FC<DemoTabScreenProps<"DemoDebug">> = function Dem
         <Button style={themed($button)} tx="demoDebugScreen:reactotron" onPress={demoReactotron} />
         <Text style={themed($hint)} tx={`demoDebugScreen:${Platform.OS}ReactotronHint` as const} />
       </View>
+      <Can permission="developer:view">
+        <View style={themed($buttonContainer)}>
+          <Button
+            style={themed($button)}
+            text="Network inspector"
+            onPress={() => navigation.navigate("Developer")}
+          />
+        </View>
+      </Can>
+      <Can permission="downloads:view">
+        <View style={themed($buttonContainer)}>
+          <Button
+            style={themed($button)}
+            text="Downloads"
+            onPress={() => navigation.navigate("Downloads")}
+          />
+        </View>
+      </Can>
       <View style={themed($buttonContainer)}>
         <Button style={themed($button)} tx="common:logOut" onPress={logout} />
       </View>
@@ -0,0 +1,206 @@
+import { FC, useCallback, useEffect, useMemo, useState } from "react"
+import { FlatList, TextStyle, View, ViewStyle } from "react-native"
+import { File, Paths } from "expo-file-system"
+import Share from "react-native-share"
+
+import { Button } from "@/components/Button"
+import { EmptyState } from "@/components/EmptyState"
+import { Header } from "@/components/Header"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { SearchBar } from "@/components/ui/SearchBar/SearchBar"
+import { useFlashMessage } from "@/hooks/useFlashMessage"
+import { useNetworkLog } from "@/hooks/useNetworkLog"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { apiService } from "@/services/api/ApiService"
+import type { RequestQueueMetrics } from "@/services/api/types"
+import { NetworkLogEntry, toCurl, toHar } from "@/services/networkLog"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+const formatBody = (body: unknown) =>
+  body === undefined || body === null || body === ""
+    ? "(empty)"
+    : typeof body === "string"
+      ? body
+      : JSON.stringify(body, null, 2)
+
+const formatQueue = ({
+  active,
+  queued,
+  maxConcurrent,
+  deduplicated,
+  averageWait,
+}: RequestQueueMetrics) =>
+  `${active}/${maxConcurrent} active · ${queued.high + queued.normal + queued.low} queued · ` +
+  `${deduplicated} deduplicated · ${averageWait} ms avg wait`
+
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n") || "(none)"
+
+/**
+ * Network inspector: the API requests captured by `ApiService`, newest first.
+ * Works in release candidates, where Reactotron can't attach.
+ */
+export const DeveloperScreen: FC<AppStackScreenProps<"Developer">> = function DeveloperScreen({
+  navigation,
+}) {
+  const { themed } = useAppTheme()
+  const { entries, clear } = useNetworkLog()
+  const { showError } = useFlashMessage()
+  const [query, setQuery] = useState("")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [queue, setQueue] = useState(() => apiService.getQueueMetrics())
+
+  useEffect(() => apiService.onQueueChange(setQueue), [])
+
+  const filtered = useMemo(() => {
+    const search = query.trim().toLowerCase()
+    if (!search) return entries
+    return entries.filter((entry) =>
+      [entry.method, entry.url, entry.status, entry.problem]
+        .join(" ")
+        .toLowerCase()
+        .includes(search),
+    )
+  }, [entries, query])
+
+  const selected = entries.find((entry) => entry.id === selectedId)
+
+  const shareCurl = useCallback(async (entry: NetworkLogEntry) => {
+    await Share.open({ message: toCurl(entry), failOnCancel: false })
+  }, [])
+
+  const exportHar = useCallback(async () => {
+    try {
+      const file = new File(Paths.cache, `network-${Date.now()}.har`)
+      file.write(JSON.stringify(toHar(filtered), null, 2))
+      await Share.open({ url: file.uri, type: "application/json", failOnCancel: false })
+    } catch (error) {
+      showError(`Could not export HAR: ${(error as Error).message}`)
+    }
+  }, [filtered, showError])
+
+  if (selected) {
+    return (
+      <Screen preset="scroll" safeAreaEdges={["top"]}>
+        <Header
+          title={`${selected.method.toUpperCase()} ${selected.status ?? "—"}`}
+          leftIcon="back"
+          onLeftPress={() => setSelectedId(null)}
+        />
+        <View style={themed($content)}>
+          <Text selectable>{selected.url}</Text>
+          <Text style={themed($meta)}>
+            {new Date(selected.startedAt).toLocaleTimeString()} · {selected.duration} ms
+            {selected.problem ? ` · ${selected.problem}` : ""}
+          </Text>
+          <Button
+            style={themed($button)}
+            text="Share as curl"
+            onPress={() => shareCurl(selected)}
+          />
+
+          <Text preset="bold" style={themed($section)} text="Request headers" />
+          <Text selectable style={themed($code)} text={formatHeaders(selected.requestHeaders)} />
+          <Text preset="bold" style={themed($section)} text="Request body" />
+          <Text selectable style={themed($code)} text={formatBody(selected.requestBody)} />
+          <Text preset="bold" style={themed($section)} text="Response headers" />
+          <Text selectable style={themed($code)} text={formatHeaders(selected.responseHeaders)} />
+          <Text preset="bold" style={themed($section)} text="Response body" />
+          <Text selectable style={themed($code)} text={formatBody(selected.responseBody)} />
+        </View>
+      </Screen>
+    )
+  }
+
+  return (
+    <Screen preset="fixed" safeAreaEdges={["top"]} contentContainerStyle={$fill}>
+      <Header
+        title="Network"
+        leftIcon="back"
+        onLeftPress={() => navigation.goBack()}
+        rightText="Clear"
+        onRightPress={clear}
+      />
+      <SearchBar value={query} onSearch={setQuery} placeholder="Filter by url, method or status" />
+      <Text size="xxs" style={themed([$meta, $queue])}>
+        {formatQueue(queue)}
+      </Text>
+      <FlatList
+        data={filtered}
+        keyExtractor={(entry) => entry.id}
+        contentContainerStyle={themed($content)}
+        ListEmptyComponent={
+          <EmptyState
+            heading="No requests"
+            content="Requests sent through ApiService show up here."
+            button=""
+          />
+        }
+        renderItem={({ item }) => (
+          <ListItem
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() => setSelectedId(item.id)}
+            LeftComponent={
+              <View style={$fill}>
+                <Text preset="bold" numberOfLines={1}>
+                  {item.method.toUpperCase()} {item.status ?? item.problem}
+                </Text>
+                <Text size="xs" numberOfLines={2}>
+                  {item.url}
+                </Text>
+                <Text size="xxs" style={themed($meta)}>
+                  {new Date(item.startedAt).toLocaleTimeString()} · {item.duration} ms
+                </Text>
+              </View>
+            }
+          />
+        )}
+      />
+      <View style={themed($footer)}>
+        <Button text="Export HAR" disabled={filtered.length === 0} onPress={exportHar} />
+      </View>
+    </Screen>
+  )
+}
+
+const $fill: ViewStyle = { flex: 1 }
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.md,
+  paddingBottom: spacing.lg,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $queue: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.md,
+  paddingVertical: spacing.xs,
+})
+
+const $section: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.lg,
+  marginBottom: spacing.xs,
+})
+
+const $code: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  fontFamily: "monospace",
+  fontSize: 12,
+  padding: spacing.sm,
+  backgroundColor: colors.palette.neutral200,
+})
+
+const $button: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.md,
+})
+
+const $footer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.md,
+})
@@ -0,0 +1,201 @@
+import { FC, useCallback, useState } from "react"
+import { FlatList, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { EmptyState } from "@/components/EmptyState"
+import { Header } from "@/components/Header"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { useDownloads } from "@/hooks/useDownloads"
+import { useFlashMessage } from "@/hooks/useFlashMessage"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { DownloadEntry, DownloadStatus, getDownloadProgress } from "@/services/downloads"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { getFileSize, openFile, shareFile } from "@/utils/helpers/fileHelper"
+
+const STATUS_LABELS: Record<DownloadStatus, string> = {
+  queued: "Queued",
+  downloading: "Downloading",
+  paused: "Paused",
+  failed: "Failed",
+  completed: "Done",
+}
+
+const formatSize = (entry: DownloadEntry) =>
+  entry.status === "completed" || !entry.totalBytes
+    ? getFileSize(entry.bytesWritten)
+    : `${getFileSize(entry.bytesWritten)} of ${getFileSize(entry.totalBytes)}`
+
+/**
+ * Files downloaded by the download manager, with their progress and the disk space they take.
+ */
+export const DownloadsScreen: FC<AppStackScreenProps<"Downloads">> = function DownloadsScreen({
+  navigation,
+}) {
+  const { themed, theme } = useAppTheme()
+  const { downloads, diskUsage, download, pause, resume, retry, remove } = useDownloads()
+  const { showError } = useFlashMessage()
+  const [url, setUrl] = useState("")
+
+  const startDownload = useCallback(() => {
+    if (!url.trim()) return
+    download(url.trim())
+    setUrl("")
+  }, [download, url])
+
+  const runFileAction = useCallback(
+    async (action: (fileUri: string) => Promise<void>, entry: DownloadEntry) => {
+      try {
+        await action(entry.fileUri)
+      } catch (error) {
+        showError(`Could not open ${entry.fileName}: ${(error as Error).message}`)
+      }
+    },
+    [showError],
+  )
+
+  const renderActions = (entry: DownloadEntry) => {
+    const actions: { text: string; onPress: () => void }[] = []
+    if (entry.status === "completed") {
+      actions.push({ text: "Open", onPress: () => runFileAction(openFile, entry) })
+      actions.push({ text: "Share", onPress: () => runFileAction(shareFile, entry) })
+    }
+    if (entry.status === "queued" || entry.status === "downloading") {
+      actions.push({ text: "Pause", onPress: () => pause(entry.id) })
+    }
+    if (entry.status === "paused") {
+      actions.push({ text: "Resume", onPress: () => resume(entry.id) })
+    }
+    if (entry.status === "failed") {
+      actions.push({ text: "Retry", onPress: () => retry(entry.id) })
+    }
+    actions.push({ text: "Delete", onPress: () => remove(entry.id) })
+
+    return actions.map((action) => (
+      <Button
+        key={action.text}
+        preset="default"
+        style={themed($action)}
+        textStyle={themed($actionText)}
+        text={action.text}
+        onPress={action.onPress}
+      />
+    ))
+  }
+
+  return (
+    <Screen preset="fixed" safeAreaEdges={["top"]} contentContainerStyle={$fill}>
+      <Header title="Downloads" leftIcon="back" onLeftPress={() => navigation.goBack()} />
+      <View style={themed($form)}>
+        <TextField
+          value={url}
+          onChangeText={setUrl}
+          placeholder="https://example.com/file.pdf"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          onSubmitEditing={startDownload}
+        />
+        <Button text="Download" disabled={!url.trim()} onPress={startDownload} />
+      </View>
+      <FlatList
+        data={downloads}
+        keyExtractor={(entry) => entry.id}
+        contentContainerStyle={themed($content)}
+        ListEmptyComponent={
+          <EmptyState heading="No downloads" content="Downloaded files show up here." button="" />
+        }
+        renderItem={({ item }) => {
+          const progress = getDownloadProgress(item)
+          return (
+            <ListItem
+              bottomSeparator
+              LeftComponent={
+                <View style={$fill}>
+                  <Text preset="bold" numberOfLines={1}>
+                    {item.fileName}
+                  </Text>
+                  <Text size="xs" style={themed($meta)}>
+                    {STATUS_LABELS[item.status]} · {formatSize(item)}
+                    {item.lastError ? ` · ${item.lastError}` : ""}
+                  </Text>
+                  {item.status !== "completed" && (
+                    <View style={themed($track)}>
+                      <View
+                        style={[
+                          $bar,
+                          {
+                            width: `${progress * 100}%`,
+                            backgroundColor:
+                              item.status === "failed" ? theme.colors.error : theme.colors.tint,
+                          },
+                        ]}
+                      />
+                    </View>
+                  )}
+                  <View style={themed($actions)}>{renderActions(item)}</View>
+                </View>
+              }
+            />
+          )
+        }}
+      />
+      <View style={themed($footer)}>
+        <Text size="xs" style={themed($meta)}>
+          {downloads.length} files · {getFileSize(diskUsage)} on disk
+        </Text>
+      </View>
+    </Screen>
+  )
+}
+
+const $fill: ViewStyle = { flex: 1 }
+
+const $form: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  paddingHorizontal: spacing.md,
+  paddingBottom: spacing.md,
+})
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.md,
+  paddingBottom: spacing.lg,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $track: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  height: 4,
+  borderRadius: 2,
+  overflow: "hidden",
+  marginTop: spacing.xs,
+  backgroundColor: colors.palette.neutral300,
+})
+
+const $bar: ViewStyle = { height: "100%" }
+
+const $actions: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  flexWrap: "wrap",
+  gap: spacing.xs,
+  marginTop: spacing.xs,
+})
+
+const $action: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  minHeight: 32,
+  paddingVertical: 0,
+  paddingHorizontal: spacing.sm,
+})
+
+const $actionText: ThemedStyle<TextStyle> = () => ({
+  fontSize: 13,
+})
+
+const $footer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.md,
+})
@@ -0,0 +1,259 @@
+import { FC, useState } from "react"
+import { TextStyle, View, ViewStyle } from "react-native"
+import { useFormik } from "formik"
+import * as yup from "yup"
+
+import { Button } from "@/components/Button"
+import { PasswordField } from "@/components/PasswordField"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { useFlashMessage } from "@/hooks/useFlashMessage"
+import { useFormikSubmit } from "@/hooks/useFormikSubmit"
+import { translate } from "@/i18n/translate"
+import type { AuthStackScreenProps } from "@/navigators/navigationTypes"
+import { authEndpoints } from "@/services/auth"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { formikTextField } from "@/utils/formikField"
+import {
+  confirmPasswordRule,
+  emailRule,
+  PASSWORD_MIN_LENGTH,
+  passwordRule,
+} from "@/utils/validation"
+
+interface ForgotPasswordScreenProps extends AuthStackScreenProps<"ForgotPassword"> {}
+
+/**
+ * - `request`: the email to send a code to
+ * - `code`: the code from the email
+ * - `password`: the new password
+ */
+type ResetStep = "request" | "code" | "password"
+
+interface ForgotPasswordValues {
+  email: string
+  code: string
+  password: string
+  confirmPassword: string
+}
+
+const required = () => translate("errors:required")
+
+// Each step only validates its own fields
+const STEP_SCHEMAS: Record<ResetStep, yup.AnyObjectSchema> = {
+  request: yup.object({ email: emailRule() }),
+  code: yup.object({ code: yup.string().trim().required(required) }),
+  password: yup.object({ password: passwordRule(), confirmPassword: confirmPasswordRule() }),
+}
+
+/**
+ * Resets a forgotten password with a code sent by email.
+ */
+export const ForgotPasswordScreen: FC<ForgotPasswordScreenProps> = ({ navigation }) => {
+  const [step, setStep] = useState<ResetStep>("request")
+  const [resetToken, setResetToken] = useState("")
+  const { showSuccess } = useFlashMessage()
+  const { themed } = useAppTheme()
+  const errorPrefix = translate("forgotPasswordScreen:resetFailed")
+
+  const goToStep = (next: ResetStep) => {
+    // Errors of the previous step would otherwise show on the new fields
+    formik.resetForm({ values: formik.values })
+    setStep(next)
+  }
+
+  const requestCode = useFormikSubmit({
+    submitFn: ({ email }: ForgotPasswordValues) =>
+      authEndpoints.requestPasswordReset({ body: { email: email.trim() } }),
+    errorPrefix,
+    onSuccess: () => goToStep("code"),
+  })
+
+  const resendCode = async () => {
+    const result = await authEndpoints.requestPasswordReset({
+      body: { email: formik.values.email.trim() },
+    })
+    if (result.kind === "ok") showSuccess(translate("forgotPasswordScreen:codeResent"))
+  }
+
+  const verifyCode = useFormikSubmit({
+    submitFn: ({ email, code }: ForgotPasswordValues) =>
+      authEndpoints.verifyResetCode({ body: { email: email.trim(), code: code.trim() } }),
+    errorPrefix,
+    onSuccess: (response) => {
+      setResetToken(response.resetToken)
+      goToStep("password")
+    },
+  })
+
+  const resetPassword = useFormikSubmit({
+    submitFn: ({ email, password }: ForgotPasswordValues) =>
+      authEndpoints.resetPassword({ body: { email: email.trim(), resetToken, password } }),
+    errorPrefix,
+    onSuccess: () =>
+      navigation.navigate("Login", { message: translate("forgotPasswordScreen:passwordReset") }),
+  })
+
+  const formik = useFormik<ForgotPasswordValues>({
+    initialValues: { email: "", code: "", password: "", confirmPassword: "" },
+    validationSchema: STEP_SCHEMAS[step],
+    onSubmit: { request: requestCode, code: verifyCode, password: resetPassword }[step],
+  })
+
+  const passwordField = formikTextField(formik, "password")
+
+  return (
+    <Screen
+      preset="auto"
+      contentContainerStyle={themed($screenContentContainer)}
+      safeAreaEdges={["top", "bottom"]}
+    >
+      <Text
+        testID="forgot-password-heading"
+        tx="forgotPasswordScreen:heading"
+        preset="heading"
+        style={themed($heading)}
+      />
+
+      {step === "request" && (
+        <>
+          <Text
+            tx="forgotPasswordScreen:requestDetails"
+            preset="subheading"
+            style={themed($details)}
+          />
+          <TextField
+            {...formikTextField(formik, "email")}
+            containerStyle={themed($textField)}
+            autoCapitalize="none"
+            autoComplete="email"
+            autoCorrect={false}
+            keyboardType="email-address"
+            labelTx="loginScreen:emailFieldLabel"
+            placeholderTx="loginScreen:emailFieldPlaceholder"
+            onSubmitEditing={() => formik.handleSubmit()}
+          />
+          <Button
+            tx="forgotPasswordScreen:sendCode"
+            preset="reversed"
+            disabled={formik.isSubmitting}
+            onPress={() => formik.handleSubmit()}
+          />
+        </>
+      )}
+
+      {step === "code" && (
+        <>
+          <Text
+            tx="forgotPasswordScreen:codeDetails"
+            txOptions={{ email: formik.values.email.trim() }}
+            preset="subheading"
+            style={themed($details)}
+          />
+          <TextField
+            {...formikTextField(formik, "code")}
+            containerStyle={themed($textField)}
+            autoCapitalize="none"
+            autoComplete="one-time-code"
+            autoCorrect={false}
+            textContentType="oneTimeCode"
+            keyboardType="number-pad"
+            labelTx="forgotPasswordScreen:codeFieldLabel"
+            placeholderTx="forgotPasswordScreen:codeFieldPlaceholder"
+            onSubmitEditing={() => formik.handleSubmit()}
+          />
+          <Button
+            tx="forgotPasswordScreen:verifyCode"
+            preset="reversed"
+            disabled={formik.isSubmitting}
+            onPress={() => formik.handleSubmit()}
+          />
+          <Text
+            tx="forgotPasswordScreen:resendCode"
+            size="sm"
+            style={themed($resend)}
+            onPress={resendCode}
+          />
+        </>
+      )}
+
+      {step === "password" && (
+        <>
+          <Text
+            tx="forgotPasswordScreen:passwordDetails"
+            preset="subheading"
+            style={themed($details)}
+          />
+          <PasswordField
+            {...passwordField}
+            helperTx={passwordField.helper ? undefined : "registerScreen:passwordHelper"}
+            helperTxOptions={{ count: PASSWORD_MIN_LENGTH }}
+            containerStyle={themed($textField)}
+            autoComplete="new-password"
+            textContentType="newPassword"
+            labelTx="forgotPasswordScreen:newPasswordFieldLabel"
+            placeholderTx="loginScreen:passwordFieldPlaceholder"
+          />
+          <PasswordField
+            {...formikTextField(formik, "confirmPassword")}
+            containerStyle={themed($textField)}
+            autoComplete="new-password"
+            textContentType="newPassword"
+            labelTx="registerScreen:confirmPasswordFieldLabel"
+            placeholderTx="registerScreen:confirmPasswordFieldPlaceholder"
+            onSubmitEditing={() => formik.handleSubmit()}
+          />
+          <Button
+            tx="forgotPasswordScreen:resetPassword"
+            preset="reversed"
+            disabled={formik.isSubmitting}
+            onPress={() => formik.handleSubmit()}
+          />
+        </>
+      )}
+
+      <View style={themed($footer)}>
+        <Text
+          tx="forgotPasswordScreen:backToLogIn"
+          size="sm"
+          style={themed($link)}
+          onPress={() => navigation.navigate("Login", {})}
+        />
+      </View>
+    </Screen>
+  )
+}
+
+const $screenContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingVertical: spacing.xxl,
+  paddingHorizontal: spacing.lg,
+})
+
+const $heading: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $details: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.lg,
+})
+
+const $textField: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.lg,
+})
+
+const $link: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.tint,
+})
+
+const $resend: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.tint,
+  marginTop: spacing.md,
+  textAlign: "center",
+})
+
+const $footer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  alignItems: "center",
+  marginTop: spacing.xl,
+})
@@ -1,19 +1,31 @@
 
-import { Screen } from "@/components/Screen"
-import { Header } from "@/components/Header"
+import { use, useEffect, useState } from "react"
 import { View, Text } from "react-native"
+import { useIsFocused } from "@react-navigation/native"
+
+import { Card } from "@/components/Card"
+import { Header } from "@/components/Header"
+import { Screen } from "@/components/Screen"
+import { Frame, HeaderApp } from "@/components/ui"
 import { Avatar } from "@/components/ui/Avatar"
+import { useAuth } from "@/context/AuthContext"
+import { useAccountSwitcher } from "@/hooks/useAccountSwitcher"
+import { useAuthorization } from "@/hooks/useAuthorization"
+import { useCurrentUser } from "@/providers/CurrentUserProvider"
+import { getRoleLabel } from "@/services/authorization"
 import { useAppTheme } from "@/theme/context"
-import { Frame, HeaderApp } from "@/components/ui"
-import { Card } from "@/components/Card"
-import { use, useEffect, useState } from "react"
-import { useIsFocused } from "@react-navigation/native"
 
 const HomeView = () => {
     const { theme: { colors, layout } } = useAppTheme();
     const statusBarColor = colors.palette.primary300;
     const [useColor, setUseColor] = useState(statusBarColor);
     const isFocused = useIsFocused();
+    const showAccountSwitcher = useAccountSwitcher();
+    const { roles } = useAuthorization();
+    const { session } = useAuth();
+    const { user } = useCurrentUser();
+    // Until the profile arrives, the account is known by its email
+    const name = user?.name ?? session?.email;
 
     useEffect(() => {
         if (isFocused) {
@@ -26,11 +38,13 @@ const HomeView = () => {
     return (
         <Screen preset="scroll" safeAreaEdges={["top"]} statusBarBackgroundColor={useColor}>
             <HeaderApp
-                avatarText="XY"
-                title="Guest User"
-                subtitle="Administrator"
+                avatarUri={user?.avatarUrl}
+                avatarText={name}
+                title={name}
+                subtitle={user?.role ?? getRoleLabel(roles)}
                 // notificationIcon="setting"
                 notificationCount={10}
+                onAvatarPress={showAccountSwitcher}
                 backgroundColor={useColor}
             />
             <View style={{ height: 70, backgroundColor: 'white' }}>
@@ -14,8 +14,14 @@ import { InfiniteList } from "@/components/list"
 import { SearchBar } from "@/components/ui/SearchBar/SearchBar"
 import { FilterChips } from "@/components/filters"
 import { BottomSheetContent, BottomSheetSection } from "@/components/ui/BottomSheetContent"
-import { useInfiniteList } from "@/hooks/useInfiniteList"
+import {
+  InfiniteListFetchOptions,
+  InfiniteListFetchResult,
+  useInfiniteList,
+} from "@/hooks/useInfiniteList"
 import { useBottomSheet } from "@/hooks/useBottomSheet"
+import { apiService } from "@/services/api/ApiService"
+import { fromApiResult } from "@/utils/pagination"
 import { scale, scaleFontSize } from "@/utils/responsive"
 import { useAppTheme } from "@/theme/context"
 
@@ -32,62 +38,30 @@ interface Product {
 }
 
 // ============================================================================
-// Mock API
+// API
 // ============================================================================
 
 /**
- * Mock API function - replace with actual API call
+ * Fetch products. Answered by the mock API in development, see `services/api/mock`.
  */
 const fetchProducts = async (
-  options: {
-    page: number
-    pageSize: number
-    searchQuery?: string
-    filters?: Record<string, any>
-  },
-): Promise<{ data: Product[]; hasMore: boolean; totalCount?: number }> => {
-  // Simulate network delay
-  await new Promise((resolve) => setTimeout(resolve, 800))
-
-  const { page, pageSize, searchQuery, filters } = options
-
-  // Mock data generation
-  const allProducts: Product[] = Array.from({ length: 100 }, (_, i) => ({
-    id: `product-${i + 1}`,
-    name: `Product ${i + 1}`,
-    price: Math.floor(Math.random() * 100) + 10,
-    category: ["Electronics", "Clothing", "Home", "Sports"][i % 4],
-    image: "",
-  }))
-
-  // Apply search filter
-  let filtered = allProducts
-  if (searchQuery) {
-    filtered = filtered.filter((p) =>
-      p.name.toLowerCase().includes(searchQuery.toLowerCase()),
-    )
-  }
-
-  // Apply category filter
-  if (filters?.category) {
-    filtered = filtered.filter((p) => p.category === filters.category)
-  }
-
-  // Apply price filter
-  if (filters?.maxPrice) {
-    filtered = filtered.filter((p) => p.price <= filters.maxPrice)
-  }
-
-  // Pagination
-  const start = (page - 1) * pageSize
-  const end = start + pageSize
-  const paginated = filtered.slice(start, end)
+  options: InfiniteListFetchOptions<Product>,
+): Promise<InfiniteListFetchResult<Product>> => {
+  const { page, pageSize, searchQuery, filters, signal } = options
+
+  const result = await apiService.get(
+    "/products",
+    {
+      page,
+      pageSize,
+      search: searchQuery || undefined,
+      category: filters?.category || undefined,
+      maxPrice: filters?.maxPrice || undefined,
+    },
+    { signal, requireAuth: false },
+  )
 
-  return {
-    data: paginated,
-    hasMore: end < filtered.length,
-    totalCount: filtered.length,
-  }
+  return fromApiResult(result)
 }
 
 // ============================================================================
@@ -0,0 +1,74 @@
+import { FC } from "react"
+import { Image, ImageStyle, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import type { AuthStackScreenProps } from "@/navigators/navigationTypes"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+const introLogo = require("@assets/images/logo.png")
+
+interface IntroScreenProps extends AuthStackScreenProps<"Intro"> {}
+
+/**
+ * First screen of signed out users, leading to log in or registration.
+ */
+export const IntroScreen: FC<IntroScreenProps> = function IntroScreen({ navigation }) {
+  const { themed } = useAppTheme()
+  const $bottomContainerInsets = useSafeAreaInsetsStyle(["bottom"])
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1} safeAreaEdges={["top"]}>
+      <View style={themed($topContainer)}>
+        <Image style={themed($logo)} source={introLogo} resizeMode="contain" />
+        <Text
+          testID="intro-heading"
+          tx="introScreen:heading"
+          preset="heading"
+          style={themed($heading)}
+        />
+        <Text tx="introScreen:tagline" preset="subheading" />
+      </View>
+
+      <View style={themed([$bottomContainer, $bottomContainerInsets])}>
+        <Button
+          testID="intro-login-button"
+          preset="reversed"
+          tx="introScreen:logIn"
+          onPress={() => navigation.navigate("Login", {})}
+        />
+        <Button
+          testID="intro-register-button"
+          tx="introScreen:register"
+          onPress={() => navigation.navigate("Register")}
+        />
+      </View>
+    </Screen>
+  )
+}
+
+const $topContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexGrow: 1,
+  justifyContent: "center",
+  paddingHorizontal: spacing.lg,
+})
+
+const $bottomContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.md,
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $logo: ThemedStyle<ImageStyle> = ({ spacing }) => ({
+  height: 88,
+  width: "100%",
+  marginBottom: spacing.xxl,
+})
+
+const $heading: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.md,
+})
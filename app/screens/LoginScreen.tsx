@@ -1,73 +1,73 @@
-import { ComponentType, FC, useEffect, useMemo, useRef, useState } from "react"
+import { FC, useRef, useState } from "react"
 // eslint-disable-next-line no-restricted-imports
-import { TextInput, TextStyle, ViewStyle } from "react-native"
+import { TextInput, TextStyle, View, ViewStyle } from "react-native"
+import { useFormik } from "formik"
+import * as yup from "yup"
 
 import { Button } from "@/components/Button"
-import { PressableIcon } from "@/components/Icon"
+import { PasswordField } from "@/components/PasswordField"
 import { Screen } from "@/components/Screen"
 import { Text } from "@/components/Text"
-import { TextField, type TextFieldAccessoryProps } from "@/components/TextField"
+import { TextField } from "@/components/TextField"
+import Config from "@/config"
 import { useAuth } from "@/context/AuthContext"
-import type { AppStackScreenProps } from "@/navigators/navigationTypes"
-import type { ThemedStyle } from "@/theme/types"
+import { useFlashMessage } from "@/hooks/useFlashMessage"
+import { useFormikSubmit } from "@/hooks/useFormikSubmit"
+import { translate } from "@/i18n/translate"
+import type { AuthStackScreenProps } from "@/navigators/navigationTypes"
+import { authEndpoints, startSession } from "@/services/auth"
+import { startOidcLogin } from "@/services/oidc"
 import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { formikTextField } from "@/utils/formikField"
+import { emailRule } from "@/utils/validation"
 
-interface LoginScreenProps extends AppStackScreenProps<"Login"> {}
-
-export const LoginScreen: FC<LoginScreenProps> = () => {
-  const authPasswordInput = useRef<TextInput>(null)
-
-  const [authPassword, setAuthPassword] = useState("")
-  const [isAuthPasswordHidden, setIsAuthPasswordHidden] = useState(true)
-  const [isSubmitted, setIsSubmitted] = useState(false)
-  const [attemptsCount, setAttemptsCount] = useState(0)
-  const { authEmail, setAuthEmail, setAuthToken, validationError } = useAuth()
-
-  const {
-    themed,
-    theme: { colors },
-  } = useAppTheme()
-
-  useEffect(() => {
-    // Here is where you could fetch credentials from keychain or storage
-    // and pre-fill the form fields.
-    setAuthEmail("ignite@infinite.red")
-    setAuthPassword("ign1teIsAwes0m3")
-  }, [setAuthEmail])
-
-  const error = isSubmitted ? validationError : ""
-
-  function login() {
-    setIsSubmitted(true)
-    setAttemptsCount(attemptsCount + 1)
+interface LoginScreenProps extends AuthStackScreenProps<"Login"> {}
 
-    if (validationError) return
+interface LoginValues {
+  email: string
+  password: string
+}
 
-    // Make a request to your server to get an authentication token.
-    // If successful, reset the fields and set the token.
-    setIsSubmitted(false)
-    setAuthPassword("")
-    setAuthEmail("")
+const loginSchema: yup.ObjectSchema<LoginValues> = yup.object({
+  email: emailRule(),
+  // Only new passwords are checked against the strength rules
+  password: yup.string().required(() => translate("errors:required")),
+})
 
-    // We'll mock this with a fake token.
-    setAuthToken(String(Date.now()))
+export const LoginScreen: FC<LoginScreenProps> = ({ navigation, route }) => {
+  const passwordInput = useRef<TextInput>(null)
+  const { authEmail, setAuthEmail, accounts, switchAccount } = useAuth()
+  const { themed } = useAppTheme()
+  const { showError } = useFlashMessage()
+  const [isOpeningSso, setIsOpeningSso] = useState(false)
+
+  // Finishes on OidcCallbackScreen once the browser redirects back
+  const logInWithSso = async () => {
+    setIsOpeningSso(true)
+    const result = await startOidcLogin()
+    setIsOpeningSso(false)
+    if (result.kind === "error") showError(translate("loginScreen:ssoFailed"))
   }
 
-  const PasswordRightAccessory: ComponentType<TextFieldAccessoryProps> = useMemo(
-    () =>
-      function PasswordRightAccessory(props: TextFieldAccessoryProps) {
-        return (
-          <PressableIcon
-            icon={isAuthPasswordHidden ? "view" : "hidden"}
-            color={colors.palette.neutral800}
-            containerStyle={props.style}
-            size={20}
-            onPress={() => setIsAuthPasswordHidden(!isAuthPasswordHidden)}
-          />
-        )
-      },
-    [isAuthPasswordHidden, colors.palette.neutral800],
-  )
+  const submit = useFormikSubmit({
+    submitFn: ({ email, password }: LoginValues) =>
+      authEndpoints.login({ body: { email: email.trim(), password } }),
+    errorPrefix: translate("loginScreen:logInFailed"),
+    // A 401 here is a wrong password, not an expired session
+    problemMessages: { unauthorized: translate("loginScreen:invalidCredentials") },
+    onSuccess: (response, { email }) => {
+      // Remembered to pre-fill the form next time
+      setAuthEmail(email.trim())
+      startSession(response, email.trim())
+    },
+  })
+
+  const formik = useFormik<LoginValues>({
+    initialValues: { email: authEmail ?? "", password: "" },
+    validationSchema: loginSchema,
+    onSubmit: submit,
+  })
 
   return (
     <Screen
@@ -77,13 +77,12 @@ export const LoginScreen: FC<LoginScreenProps> = () => {
     >
       <Text testID="login-heading" tx="loginScreen:logIn" preset="heading" style={themed($logIn)} />
       <Text tx="loginScreen:enterDetails" preset="subheading" style={themed($enterDetails)} />
-      {attemptsCount > 2 && (
-        <Text tx="loginScreen:hint" size="sm" weight="light" style={themed($hint)} />
+      {!!route.params?.message && (
+        <Text text={route.params.message} size="sm" style={themed($message)} />
       )}
 
       <TextField
-        value={authEmail}
-        onChangeText={setAuthEmail}
+        {...formikTextField(formik, "email")}
         containerStyle={themed($textField)}
         autoCapitalize="none"
         autoComplete="email"
@@ -91,24 +90,24 @@ export const LoginScreen: FC<LoginScreenProps> = () => {
         keyboardType="email-address"
         labelTx="loginScreen:emailFieldLabel"
         placeholderTx="loginScreen:emailFieldPlaceholder"
-        helper={error}
-        status={error ? "error" : undefined}
-        onSubmitEditing={() => authPasswordInput.current?.focus()}
+        onSubmitEditing={() => passwordInput.current?.focus()}
       />
 
-      <TextField
-        ref={authPasswordInput}
-        value={authPassword}
-        onChangeText={setAuthPassword}
+      <PasswordField
+        ref={passwordInput}
+        {...formikTextField(formik, "password")}
         containerStyle={themed($textField)}
-        autoCapitalize="none"
         autoComplete="password"
-        autoCorrect={false}
-        secureTextEntry={isAuthPasswordHidden}
         labelTx="loginScreen:passwordFieldLabel"
         placeholderTx="loginScreen:passwordFieldPlaceholder"
-        onSubmitEditing={login}
-        RightAccessory={PasswordRightAccessory}
+        onSubmitEditing={() => formik.handleSubmit()}
+      />
+
+      <Text
+        tx="loginScreen:forgotPassword"
+        size="sm"
+        style={themed($link)}
+        onPress={() => navigation.navigate("ForgotPassword")}
       />
 
       <Button
@@ -116,8 +115,36 @@ export const LoginScreen: FC<LoginScreenProps> = () => {
         tx="loginScreen:tapToLogIn"
         style={themed($tapButton)}
         preset="reversed"
-        onPress={login}
+        disabled={formik.isSubmitting}
+        onPress={() => formik.handleSubmit()}
       />
+
+      {!!Config.oidc && (
+        <Button
+          testID="sso-button"
+          tx="loginScreen:logInWithSso"
+          style={themed($ssoButton)}
+          disabled={isOpeningSso}
+          onPress={logInWithSso}
+        />
+      )}
+
+      <View style={themed($footer)}>
+        <Text
+          tx="loginScreen:noAccount"
+          size="sm"
+          style={themed($link)}
+          onPress={() => navigation.navigate("Register")}
+        />
+        {accounts.length > 0 && (
+          <Text
+            tx="loginScreen:backToAccounts"
+            size="sm"
+            style={themed([$link, $backToAccounts])}
+            onPress={() => switchAccount(accounts[0].id)}
+          />
+        )}
+      </View>
     </Screen>
   )
 }
@@ -135,7 +162,7 @@ const $enterDetails: ThemedStyle<TextStyle> = ({ spacing }) => ({
   marginBottom: spacing.lg,
 })
 
-const $hint: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+const $message: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
   color: colors.tint,
   marginBottom: spacing.md,
 })
@@ -144,6 +171,23 @@ const $textField: ThemedStyle<ViewStyle> = ({ spacing }) => ({
   marginBottom: spacing.lg,
 })
 
+const $link: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.tint,
+})
+
+const $backToAccounts: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.md,
+})
+
 const $tapButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
-  marginTop: spacing.xs,
+  marginTop: spacing.lg,
+})
+
+const $ssoButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.md,
+})
+
+const $footer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  alignItems: "center",
+  marginTop: spacing.xl,
 })
@@ -0,0 +1,69 @@
+import { FC } from "react"
+import { TextStyle, View, ViewStyle } from "react-native"
+import { useNavigation } from "@react-navigation/native"
+
+import { Button } from "@/components/Button"
+import { Icon } from "@/components/Icon"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+/**
+ * Shown by the navigators in place of a screen the user lacks the permission for,
+ * e.g. when opened from a deep link.
+ */
+export const NotAllowedScreen: FC = function NotAllowedScreen() {
+  const navigation = useNavigation<AppStackScreenProps<"Main">["navigation"]>()
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  const leave = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack()
+    } else {
+      navigation.navigate("Main", { screen: "Home" })
+    }
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={themed($container)} safeAreaEdges={["top"]}>
+      <View style={themed($content)}>
+        <Icon icon="lock" size={48} color={colors.textDim} />
+        <Text
+          testID="not-allowed-heading"
+          tx="notAllowedScreen:heading"
+          preset="heading"
+          style={themed($heading)}
+        />
+        <Text tx="notAllowedScreen:details" style={themed($details)} />
+      </View>
+      <Button tx="notAllowedScreen:back" preset="reversed" onPress={leave} />
+    </Screen>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flex: 1,
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $content: ThemedStyle<ViewStyle> = () => ({
+  flex: 1,
+  alignItems: "center",
+  justifyContent: "center",
+})
+
+const $heading: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.lg,
+  marginBottom: spacing.sm,
+  textAlign: "center",
+})
+
+const $details: ThemedStyle<TextStyle> = () => ({
+  textAlign: "center",
+})
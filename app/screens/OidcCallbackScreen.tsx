@@ -0,0 +1,67 @@
+import { FC, useEffect, useRef } from "react"
+import { ActivityIndicator, TextStyle, ViewStyle } from "react-native"
+
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import type { AuthStackScreenProps } from "@/navigators/navigationTypes"
+import { completeOidcLogin, OidcError } from "@/services/oidc"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+interface OidcCallbackScreenProps extends AuthStackScreenProps<"OidcCallback"> {}
+
+const getErrorMessage = (error: OidcError, message?: string) => {
+  switch (error) {
+    case "denied":
+      return message ?? translate("oidcCallbackScreen:denied")
+    case "state":
+      return translate("oidcCallbackScreen:expired")
+    default:
+      return message
+        ? `${translate("oidcCallbackScreen:failed")}: ${message}`
+        : translate("oidcCallbackScreen:failed")
+  }
+}
+
+/**
+ * Opened by the identity provider's redirect. Finishes the sign-in started on the login screen:
+ * the navigators switch to the app once the session is stored.
+ */
+export const OidcCallbackScreen: FC<OidcCallbackScreenProps> = ({ navigation, route }) => {
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  // The redirect is only handled once, the pending sign-in is gone afterwards
+  const handled = useRef(false)
+
+  useEffect(() => {
+    if (handled.current) return
+    handled.current = true
+    completeOidcLogin(route.params ?? {}).then((result) => {
+      if (result.kind === "ok") return
+      navigation.replace("Login", { message: getErrorMessage(result.error, result.message) })
+    })
+  }, [navigation, route.params])
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={themed($container)} safeAreaEdges={["top"]}>
+      <ActivityIndicator color={colors.tint} />
+      <Text tx="oidcCallbackScreen:signingIn" style={themed($text)} />
+    </Screen>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flex: 1,
+  alignItems: "center",
+  justifyContent: "center",
+  paddingHorizontal: spacing.lg,
+})
+
+const $text: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.md,
+  textAlign: "center",
+})
@@ -0,0 +1,185 @@
+import { FC, useRef } from "react"
+// eslint-disable-next-line no-restricted-imports
+import { TextInput, TextStyle, View, ViewStyle } from "react-native"
+import { useFormik } from "formik"
+import * as yup from "yup"
+
+import { Button } from "@/components/Button"
+import { PasswordField } from "@/components/PasswordField"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { useAuth } from "@/context/AuthContext"
+import { useFormikSubmit } from "@/hooks/useFormikSubmit"
+import { translate } from "@/i18n/translate"
+import type { AuthStackScreenProps } from "@/navigators/navigationTypes"
+import { authEndpoints, startSession } from "@/services/auth"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { formikTextField } from "@/utils/formikField"
+import {
+  confirmPasswordRule,
+  emailRule,
+  PASSWORD_MIN_LENGTH,
+  passwordRule,
+} from "@/utils/validation"
+
+interface RegisterScreenProps extends AuthStackScreenProps<"Register"> {}
+
+interface RegisterValues {
+  name: string
+  email: string
+  password: string
+  confirmPassword: string
+}
+
+const registerSchema: yup.ObjectSchema<RegisterValues> = yup.object({
+  name: yup
+    .string()
+    .trim()
+    .required(() => translate("errors:required")),
+  email: emailRule(),
+  password: passwordRule(),
+  confirmPassword: confirmPasswordRule(),
+})
+
+/**
+ * Creates an account and signs in with it.
+ */
+export const RegisterScreen: FC<RegisterScreenProps> = ({ navigation }) => {
+  const emailInput = useRef<TextInput>(null)
+  const passwordInput = useRef<TextInput>(null)
+  const confirmPasswordInput = useRef<TextInput>(null)
+  const { setAuthEmail } = useAuth()
+  const { themed } = useAppTheme()
+
+  const submit = useFormikSubmit({
+    submitFn: ({ name, email, password }: RegisterValues) =>
+      authEndpoints.register({ body: { name: name.trim(), email: email.trim(), password } }),
+    errorPrefix: translate("registerScreen:registerFailed"),
+    onSuccess: (response, { email }) => {
+      setAuthEmail(email.trim())
+      startSession(response, email.trim())
+    },
+  })
+
+  const formik = useFormik<RegisterValues>({
+    initialValues: { name: "", email: "", password: "", confirmPassword: "" },
+    validationSchema: registerSchema,
+    onSubmit: submit,
+  })
+
+  const passwordField = formikTextField(formik, "password")
+
+  return (
+    <Screen
+      preset="auto"
+      contentContainerStyle={themed($screenContentContainer)}
+      safeAreaEdges={["top", "bottom"]}
+    >
+      <Text
+        testID="register-heading"
+        tx="registerScreen:heading"
+        preset="heading"
+        style={themed($heading)}
+      />
+      <Text tx="registerScreen:enterDetails" preset="subheading" style={themed($enterDetails)} />
+
+      <TextField
+        {...formikTextField(formik, "name")}
+        containerStyle={themed($textField)}
+        autoComplete="name"
+        textContentType="name"
+        labelTx="registerScreen:nameFieldLabel"
+        placeholderTx="registerScreen:nameFieldPlaceholder"
+        onSubmitEditing={() => emailInput.current?.focus()}
+      />
+
+      <TextField
+        ref={emailInput}
+        {...formikTextField(formik, "email")}
+        containerStyle={themed($textField)}
+        autoCapitalize="none"
+        autoComplete="email"
+        autoCorrect={false}
+        keyboardType="email-address"
+        labelTx="loginScreen:emailFieldLabel"
+        placeholderTx="loginScreen:emailFieldPlaceholder"
+        onSubmitEditing={() => passwordInput.current?.focus()}
+      />
+
+      <PasswordField
+        ref={passwordInput}
+        {...passwordField}
+        // The rules stay visible until they are broken
+        helperTx={passwordField.helper ? undefined : "registerScreen:passwordHelper"}
+        helperTxOptions={{ count: PASSWORD_MIN_LENGTH }}
+        containerStyle={themed($textField)}
+        autoComplete="new-password"
+        textContentType="newPassword"
+        labelTx="loginScreen:passwordFieldLabel"
+        placeholderTx="loginScreen:passwordFieldPlaceholder"
+        onSubmitEditing={() => confirmPasswordInput.current?.focus()}
+      />
+
+      <PasswordField
+        ref={confirmPasswordInput}
+        {...formikTextField(formik, "confirmPassword")}
+        containerStyle={themed($textField)}
+        autoComplete="new-password"
+        textContentType="newPassword"
+        labelTx="registerScreen:confirmPasswordFieldLabel"
+        placeholderTx="registerScreen:confirmPasswordFieldPlaceholder"
+        onSubmitEditing={() => formik.handleSubmit()}
+      />
+
+      <Button
+        testID="register-button"
+        tx="registerScreen:tapToRegister"
+        style={themed($tapButton)}
+        preset="reversed"
+        disabled={formik.isSubmitting}
+        onPress={() => formik.handleSubmit()}
+      />
+
+      <View style={themed($footer)}>
+        <Text
+          tx="registerScreen:haveAccount"
+          size="sm"
+          style={themed($link)}
+          onPress={() => navigation.navigate("Login", {})}
+        />
+      </View>
+    </Screen>
+  )
+}
+
+const $screenContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingVertical: spacing.xxl,
+  paddingHorizontal: spacing.lg,
+})
+
+const $heading: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $enterDetails: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.lg,
+})
+
+const $textField: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.lg,
+})
+
+const $link: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.tint,
+})
+
+const $tapButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.xs,
+})
+
+const $footer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  alignItems: "center",
+  marginTop: spacing.xl,
+})
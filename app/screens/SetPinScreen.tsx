@@ -0,0 +1,99 @@
+import { FC, useState } from "react"
+import { TextStyle, ViewStyle } from "react-native"
+
+import { PinPad } from "@/components/PinPad"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { PIN_MAX_LENGTH, setPin } from "@/services/appLock"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+interface SetPinScreenProps extends AppStackScreenProps<"SetPin"> {}
+
+/**
+ * Chooses the PIN that unlocks the app, entered twice. Shown after logging in until a PIN is set.
+ */
+export const SetPinScreen: FC<SetPinScreenProps> = () => {
+  const [pin, setPinValue] = useState("")
+  // The first entry, once it's being confirmed
+  const [firstPin, setFirstPin] = useState<string | null>(null)
+  const [mismatch, setMismatch] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { themed } = useAppTheme()
+
+  const onChange = (value: string) => {
+    setMismatch(false)
+    setPinValue(value)
+  }
+
+  const onSubmit = async (value: string) => {
+    setPinValue("")
+    if (firstPin === null) {
+      setFirstPin(value)
+      return
+    }
+    if (value !== firstPin) {
+      setFirstPin(null)
+      setMismatch(true)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // The navigator leaves this screen once the PIN is stored
+      await setPin(value)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isConfirming = firstPin !== null
+
+  return (
+    <Screen
+      preset="auto"
+      contentContainerStyle={themed($screenContentContainer)}
+      safeAreaEdges={["top", "bottom"]}
+    >
+      <Text
+        testID="set-pin-heading"
+        tx={isConfirming ? "setPinScreen:confirmTitle" : "setPinScreen:title"}
+        preset="heading"
+        style={themed($heading)}
+      />
+      <Text
+        tx={isConfirming ? "setPinScreen:confirmDetails" : "setPinScreen:details"}
+        preset="subheading"
+        style={themed($details)}
+      />
+      {mismatch && <Text tx="setPinScreen:mismatch" size="sm" style={themed($error)} />}
+
+      <PinPad
+        value={pin}
+        onChange={onChange}
+        onSubmit={onSubmit}
+        maxLength={PIN_MAX_LENGTH}
+        disabled={isSaving}
+      />
+    </Screen>
+  )
+}
+
+const $screenContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingVertical: spacing.xxl,
+  paddingHorizontal: spacing.lg,
+})
+
+const $heading: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $details: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.lg,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.error,
+  marginBottom: spacing.lg,
+})
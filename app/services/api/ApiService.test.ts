@@ -0,0 +1,453 @@
+import NetInfo from "@react-native-community/netinfo"
+import type { AxiosAdapter, AxiosRequestConfig } from "axios"
+
+import { getOutboxEntries } from "@/services/outbox"
+import {
+  clearAccounts,
+  getSession,
+  onSessionExpired,
+  setSession,
+  switchAccount,
+} from "@/services/session"
+import { storage } from "@/utils/storage"
+
+import { ApiService, apiService } from "./ApiService"
+import { clearResponseCache } from "./cache"
+import apiConfig, { API_ENVIRONMENTS } from "./env"
+import { DEFAULT_RETRY_POLICY } from "./retry"
+import type { ApiConfig } from "./types"
+
+type HandlerResponse = {
+  status: number
+  data?: unknown
+  headers?: Record<string, string>
+}
+
+type Handler = (config: AxiosRequestConfig) => HandlerResponse | Promise<HandlerResponse>
+
+/**
+ * Routes every axios call of the service (including the refresh client) through `handler`.
+ * Retries are off unless a test opts in.
+ */
+function createService(handler: Handler, config: Partial<ApiConfig> = {}) {
+  const adapter: AxiosAdapter = async (request) => {
+    const { status, data, headers = {} } = await handler(request)
+    const response = { status, data, headers, config: request, statusText: "" }
+    if (status >= 400) {
+      throw Object.assign(new Error(`Request failed with status ${status}`), {
+        config: request,
+        response,
+        isAxiosError: true,
+      })
+    }
+    return response
+  }
+  return new ApiService({
+    url: "https://api.test",
+    timeout: 1000,
+    refreshPath: "/refresh",
+    retry: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 },
+    adapter,
+    ...config,
+  })
+}
+
+const bearer = (config: AxiosRequestConfig) => (config.headers as any)?.Authorization
+
+describe("ApiService token refresh", () => {
+  beforeAll(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    storage.clearAll()
+    setSession({ accessToken: "expired", refreshToken: "refresh-1", userId: "42" })
+  })
+
+  it("refreshes once and replays concurrent requests with the new token", async () => {
+    let refreshCalls = 0
+    const service = createService((config) => {
+      if (config.url === "/refresh") {
+        refreshCalls += 1
+        return { status: 200, data: { accessToken: "fresh", refreshToken: "refresh-2" } }
+      }
+      return bearer(config) === "Bearer fresh"
+        ? { status: 200, data: { url: config.url } }
+        : { status: 401 }
+    })
+
+    const results = await Promise.all([
+      service.get("/a"),
+      service.get("/b"),
+      service.post("/c", { x: 1 }),
+    ])
+
+    expect(results).toEqual([
+      { kind: "ok", data: { url: "/a" } },
+      { kind: "ok", data: { url: "/b" } },
+      { kind: "ok", data: { url: "/c" } },
+    ])
+    expect(refreshCalls).toBe(1)
+    expect(getSession()).toEqual({
+      accessToken: "fresh",
+      refreshToken: "refresh-2",
+      userId: "42",
+    })
+  })
+
+  it("refreshes a token about to expire before sending the request", async () => {
+    setSession({ accessToken: "expiring", refreshToken: "refresh-1", expiresAt: Date.now() + 1000 })
+    const tokens: string[] = []
+    const service = createService(
+      (config) => {
+        if (config.url === "/refresh") return { status: 200, data: { accessToken: "fresh" } }
+        tokens.push(bearer(config))
+        return { status: 200, data: {} }
+      },
+      { refreshMargin: 60 * 1000 },
+    )
+
+    await service.get("/a")
+
+    expect(tokens).toEqual(["Bearer fresh"])
+  })
+
+  it("expires the session only when the refresh fails", async () => {
+    const service = createService(() => ({ status: 401 }))
+    const onExpired = jest.fn()
+    const unsubscribe = onSessionExpired(onExpired)
+
+    const result = await service.get("/a")
+    unsubscribe()
+
+    expect(result).toEqual({ kind: "unauthorized", status: 401 })
+    expect(onExpired).toHaveBeenCalledTimes(1)
+    expect(getSession()).toBeNull()
+  })
+
+  it("does not refresh requests that opt out of authentication", async () => {
+    const handler = jest.fn(() => ({ status: 401 }))
+    const service = createService(handler)
+
+    const result = await service.get("/public", undefined, { requireAuth: false })
+
+    expect(result).toEqual({ kind: "unauthorized", status: 401 })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("ApiService offline outbox", () => {
+  const offline = () =>
+    (NetInfo.fetch as jest.Mock).mockResolvedValueOnce({
+      isConnected: false,
+      isInternetReachable: false,
+    })
+
+  beforeAll(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("queues queueable mutations while offline and replays them in order", async () => {
+    const sent: { url?: string; key?: string }[] = []
+    const service = createService((config) => {
+      sent.push({ url: config.url, key: (config.headers as any)?.["Idempotency-Key"] })
+      return { status: 200, data: {} }
+    })
+
+    offline()
+    const first = await service.post("/readings", { value: 1 }, { queueable: true })
+    offline()
+    await service.delete("/readings/7", { queueable: true, idempotencyKey: "delete-7" })
+    offline()
+    const notQueued = await service.post("/readings", { value: 2 })
+
+    expect(first.kind).toBe("queued")
+    expect(notQueued).toEqual({ kind: "cannot-connect", temporary: true })
+    expect(getOutboxEntries()).toHaveLength(2)
+
+    await service.replayOutbox()
+
+    expect(sent).toEqual([
+      { url: "/readings", key: first.kind === "queued" ? first.entry.idempotencyKey : "" },
+      { url: "/readings/7", key: "delete-7" },
+    ])
+    expect(getOutboxEntries()).toEqual([])
+  })
+
+  it("marks rejected entries as failed and keeps going", async () => {
+    const service = createService((config) =>
+      config.url === "/bad" ? { status: 400 } : { status: 200, data: {} },
+    )
+
+    offline()
+    await service.post("/bad", {}, { queueable: true })
+    offline()
+    await service.post("/good", {}, { queueable: true })
+
+    await service.replayOutbox()
+
+    expect(getOutboxEntries()).toMatchObject([
+      { url: "/bad", status: "failed", attempts: 1, lastError: "rejected" },
+    ])
+  })
+
+  it("keeps the mutations of each account in its own outbox", async () => {
+    const handler = jest.fn(() => ({ status: 200, data: {} }))
+    const service = createService(handler)
+    clearAccounts()
+    setSession({ accessToken: "token-1", userId: "1" })
+    setSession({ accessToken: "token-2", userId: "2" })
+    switchAccount("1")
+
+    offline()
+    await service.post("/readings", { value: 1 }, { queueable: true })
+    switchAccount("2")
+    await service.replayOutbox()
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(getOutboxEntries()).toEqual([])
+    expect(getOutboxEntries("1")).toMatchObject([{ url: "/readings", accountId: "1" }])
+    clearAccounts()
+  })
+})
+
+describe("ApiService retries", () => {
+  beforeAll(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  it("retries temporary problems until the request succeeds", async () => {
+    let calls = 0
+    const service = createService(() => {
+      calls += 1
+      return calls < 3 ? { status: 503 } : { status: 200, data: "done" }
+    })
+
+    const result = await service.get("/flaky", undefined, {
+      retry: { maxAttempts: 3, baseDelay: 0 },
+    })
+
+    expect(result).toEqual({ kind: "ok", data: "done" })
+    expect(calls).toBe(3)
+  })
+
+  it("does not retry when disabled", async () => {
+    const handler = jest.fn(() => ({ status: 503 }))
+    const service = createService(handler)
+
+    await service.get("/flaky", undefined, { retry: false })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("ApiService cancellation", () => {
+  it("reports aborted requests as cancelled", async () => {
+    const controller = new AbortController()
+    const service = createService(() => {
+      controller.abort()
+      return { status: 200, data: "stale" }
+    })
+
+    const result = await service.get("/items", undefined, { signal: controller.signal })
+
+    expect(result).toEqual({ kind: "cancelled" })
+  })
+})
+
+describe("ApiService response headers", () => {
+  it("returns headers only when asked", async () => {
+    const service = createService(() => ({
+      status: 200,
+      data: [1],
+      headers: { link: '</items?page=2>; rel="next"' },
+    }))
+
+    expect(await service.get("/items")).toEqual({ kind: "ok", data: [1] })
+    expect(await service.get("/items", undefined, { includeHeaders: true })).toEqual({
+      kind: "ok",
+      data: [1],
+      headers: { link: '</items?page=2>; rel="next"' },
+    })
+  })
+})
+
+describe("ApiService request queue", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("sends identical GETs in flight once", async () => {
+    const handler = jest.fn(() => ({ status: 200, data: [1] }))
+    const service = createService(handler)
+
+    const results = await Promise.all([
+      service.get("/items", { page: 1 }),
+      service.get("/items", { page: 1 }),
+      service.get("/items", { page: 2 }),
+    ])
+
+    expect(results).toEqual([
+      { kind: "ok", data: [1] },
+      { kind: "ok", data: [1] },
+      { kind: "ok", data: [1] },
+    ])
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(service.getQueueMetrics().deduplicated).toBe(1)
+  })
+
+  it("keeps the shared GET going while one of its callers is still waiting", async () => {
+    const handler = jest.fn(async () => ({ status: 200, data: "done" }))
+    const service = createService(handler)
+    const controller = new AbortController()
+
+    const first = service.get("/items", undefined, { signal: controller.signal })
+    const second = service.get("/items")
+    controller.abort()
+
+    expect(await first).toEqual({ kind: "cancelled" })
+    expect(await second).toEqual({ kind: "ok", data: "done" })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it("caps concurrent requests and starts high priority ones first", async () => {
+    const order: string[] = []
+    let active = 0
+    let peak = 0
+    const service = createService(
+      async (config) => {
+        order.push(config.url!)
+        active += 1
+        peak = Math.max(peak, active)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        active -= 1
+        return { status: 200 }
+      },
+      { maxConcurrent: 1 },
+    )
+
+    await Promise.all([
+      service.get("/first"),
+      service.get("/prefetch", undefined, { priority: "low" }),
+      service.post("/save", {}),
+      service.get("/tap", undefined, { priority: "high" }),
+    ])
+
+    expect(peak).toBe(1)
+    expect(order).toEqual(["/first", "/tap", "/save", "/prefetch"])
+    expect(service.getQueueMetrics()).toMatchObject({ active: 0, sent: 4, peakQueued: 3 })
+  })
+})
+
+describe("ApiService response cache", () => {
+  const cache = { ttl: 1000, staleWhileRevalidate: 5000 }
+
+  beforeAll(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    storage.clearAll()
+    clearResponseCache()
+    jest.spyOn(Date, "now").mockReturnValue(0)
+  })
+
+  afterEach(() => {
+    jest.spyOn(Date, "now").mockRestore()
+  })
+
+  it("serves fresh entries without a request", async () => {
+    const handler = jest.fn(() => ({ status: 200, data: [1] }))
+    const service = createService(handler)
+
+    await service.get("/items", { page: 1 }, { cache })
+    const result = await service.get("/items", { page: 1 }, { cache })
+
+    expect(result).toEqual({ kind: "ok", data: [1], fromCache: true })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it("revalidates expired entries and serves 304s from cache", async () => {
+    const sentEtags: unknown[] = []
+    const service = createService((config) => {
+      sentEtags.push((config.headers as any)?.["If-None-Match"])
+      return sentEtags.length === 1
+        ? { status: 200, data: [1], headers: { etag: '"v1"' } }
+        : { status: 304 }
+    })
+
+    await service.get("/items", undefined, { cache: { ttl: 1000 } })
+    jest.spyOn(Date, "now").mockReturnValue(2000)
+    const result = await service.get("/items", undefined, { cache: { ttl: 1000 } })
+
+    expect(sentEtags).toEqual([undefined, '"v1"'])
+    expect(result).toEqual({ kind: "ok", data: [1], fromCache: true })
+  })
+
+  it("serves stale data while revalidating in the background", async () => {
+    let version = 0
+    const service = createService(() => ({ status: 200, data: ++version }))
+
+    await service.get("/items", undefined, { cache })
+    jest.spyOn(Date, "now").mockReturnValue(2000)
+    const stale = await service.get("/items", undefined, { cache })
+
+    expect(stale).toEqual({ kind: "ok", data: 1, fromCache: true, stale: true })
+  })
+
+  it("serves cached data when offline", async () => {
+    const service = createService(() => ({ status: 200, data: "cached" }))
+
+    await service.get("/items", undefined, { cache: { ttl: 1000 } })
+    jest.spyOn(Date, "now").mockReturnValue(60000)
+    ;(NetInfo.fetch as jest.Mock).mockResolvedValueOnce({
+      isConnected: false,
+      isInternetReachable: false,
+    })
+    const result = await service.get("/items", undefined, { cache: { ttl: 1000 } })
+
+    expect(result).toEqual({ kind: "ok", data: "cached", fromCache: true, stale: true })
+  })
+})
+
+describe("API environments", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    setSession({ accessToken: "token", refreshToken: "refresh", userId: "42" })
+  })
+
+  it("persists the environment, applies it and signs out", async () => {
+    const expired = jest.fn()
+    const unsubscribe = onSessionExpired(expired)
+
+    apiConfig.setEnvironment("staging")
+
+    expect(apiConfig.environment).toEqual(API_ENVIRONMENTS.staging)
+    expect(getSession()).toBeNull()
+    expect(expired).toHaveBeenCalledTimes(1)
+    unsubscribe()
+
+    // Both the refresh and the request go to the new host
+    const baseUrls: (string | undefined)[] = []
+    apiService.setAdapter(async (config) => {
+      baseUrls.push(config.baseURL)
+      return { status: 200, data: { accessToken: "new" }, headers: {}, config, statusText: "" }
+    })
+    setSession({ accessToken: "token", refreshToken: "refresh", expiresAt: Date.now() })
+    await apiService.get("/items")
+    apiService.setAdapter()
+
+    expect(baseUrls).toEqual([API_ENVIRONMENTS.staging.baseUrl, API_ENVIRONMENTS.staging.baseUrl])
+  })
+
+  it("keeps the session when the url does not change", () => {
+    apiConfig.setEnvironment("custom", API_ENVIRONMENTS.dev.baseUrl)
+
+    expect(apiConfig.environment).toMatchObject({ name: "custom" })
+    expect(getSession()).toMatchObject({ accessToken: "token" })
+  })
+})
@@ -1,20 +1,57 @@
 /**
  * ApiService.ts
- * Enhanced API service with authentication, 401 handling, and offline checks
+ * Enhanced API service with authentication, token refresh, and offline checks
  */
 
 import { ApiResponse, ApisauceInstance, create } from "apisauce"
+import type { AxiosAdapter, AxiosRequestConfig } from "axios"
 import { Platform } from "react-native"
 import NetInfo from "@react-native-community/netinfo"
-import AsyncStorage from "@react-native-async-storage/async-storage"
+import { recordNetworkEntry } from "@/services/networkLog"
+import {
+  clearOutbox,
+  enqueueOutboxEntry,
+  getOutboxEntries,
+  OutboxEntry,
+  removeOutboxEntry,
+  updateOutboxEntry,
+} from "@/services/outbox"
+import {
+  clearAccounts,
+  clearSession,
+  expireSession,
+  getAccountId,
+  getActiveAccountId,
+  getSession,
+  getSessionExpiry,
+  onAccountSwitch,
+  Session,
+  setSession,
+  updateSession,
+} from "@/services/session"
 import apiConfig from "./env"
+import { delay } from "@/utils/delay"
+import { toFormBody } from "@/utils/formBody"
 import { GeneralApiProblem, getGeneralApiProblem } from "./apiProblem"
-import type { ApiConfig } from "./types"
-
-const STORAGE_KEYS = {
-  ACCESS_TOKEN: "@tallygreen_access_token",
-  REFRESH_TOKEN: "@tallygreen_refresh_token",
-}
+import {
+  CacheEntry,
+  CacheOptions,
+  clearResponseCache,
+  getCacheKey,
+  readCacheEntry,
+  writeCacheEntry,
+} from "./cache"
+import { RequestQueue } from "./requestQueue"
+import { DEFAULT_RETRY_POLICY, getRetryDelay, shouldRetry } from "./retry"
+import type {
+  ApiConfig,
+  HttpMethod,
+  OAuthTokenResponse,
+  RefreshTokenResponse,
+  RequestPriority,
+  RequestQueueMetrics,
+  RetryPolicy,
+} from "./types"
 
 /**
  * Enhanced API configuration
@@ -22,6 +59,10 @@ const STORAGE_KEYS = {
 export const API_CONFIG: ApiConfig = {
   url: apiConfig.baseUrl,
   timeout: apiConfig.timeout,
+  refreshPath: apiConfig.refreshPath,
+  refreshMargin: 60 * 1000,
+  retry: DEFAULT_RETRY_POLICY,
+  maxConcurrent: 6,
 }
 
 /**
@@ -44,23 +85,113 @@ export interface RequestOptions {
    * Multipart form data
    */
   isMultipart?: boolean
+  /**
+   * Queue the mutation in the offline outbox instead of failing when there is no connection
+   */
+  queueable?: boolean
+  /**
+   * Sent as the `Idempotency-Key` header. Generated for queued mutations when omitted.
+   */
+  idempotencyKey?: string
+  /**
+   * Overrides of the global retry policy for this request. `false` disables retries.
+   */
+  retry?: Partial<RetryPolicy> | false
+  /**
+   * Aborts the request, resolving it as `{ kind: "cancelled" }`
+   */
+  signal?: AbortSignal
+  /**
+   * Cache GET responses, revalidating with `If-None-Match`/`If-Modified-Since`
+   */
+  cache?: CacheOptions
+  /**
+   * Order in the request queue once `maxConcurrent` requests are running
+   */
+  priority?: RequestPriority
+  /**
+   * Return the response headers with ok results, e.g. to follow `Link` pagination
+   */
+  includeHeaders?: boolean
 }
 
 /**
  * API response wrapper
  */
-export type ApiResult<T> = { kind: "ok"; data: T } | GeneralApiProblem
+export type ApiResult<T> =
+  /**
+   * `fromCache` is set when the data was not fetched just now,
+   * `stale` when it is past its TTL (served offline or while revalidating).
+   * `headers` is set for requests sent with `includeHeaders`.
+   */
+  | {
+      kind: "ok"
+      data: T
+      fromCache?: boolean
+      stale?: boolean
+      headers?: Record<string, string>
+    }
+  /**
+   * Offline and the request was queueable. It will be replayed from the outbox.
+   */
+  | { kind: "queued"; entry: OutboxEntry }
+  | GeneralApiProblem
+
+/**
+ * What is being sent, used to decide on retries and to persist mutations in the outbox
+ */
+type RequestDescriptor = { method: HttpMethod; url: string; data?: any }
+
+/**
+ * A GET in flight, shared by every identical GET sent meanwhile
+ */
+type SharedRequest = {
+  promise: Promise<ApiResult<any>>
+  /**
+   * Aborts the network call once every caller has aborted
+   */
+  controller: AbortController
+  callers: number
+}
+
+/**
+ * Append query params to a url for methods that take a body instead
+ */
+function appendQuery(url: string, query?: Record<string, any>): string {
+  const entries = Object.entries(query ?? {}).filter(([, value]) => value !== undefined)
+  if (entries.length === 0) return url
+
+  const search = entries
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join("&")
+  return `${url}${url.includes("?") ? "&" : "?"}${search}`
+}
 
 /**
  * Enhanced API Service class
  */
 export class ApiService {
   private apisauce: ApisauceInstance
+  private authClient: ApisauceInstance
   private config: ApiConfig
-  private navigation: any = null
+  private isReplayingOutbox = false
+  /**
+   * The network transport, restored by `setAdapter()`
+   */
+  private networkAdapter: AxiosRequestConfig["adapter"]
+  /**
+   * The refresh call in flight, shared by every request that hits a 401 meanwhile
+   */
+  private refreshPromise: Promise<boolean> | null = null
+  private queue: RequestQueue
+  /**
+   * GETs in flight by url, params and headers
+   */
+  private inFlight = new Map<string, SharedRequest>()
 
   constructor(config: ApiConfig = API_CONFIG) {
     this.config = config
+    this.queue = new RequestQueue(config.maxConcurrent)
     this.apisauce = create({
       baseURL: this.config.url,
       timeout: this.config.timeout,
@@ -70,6 +201,18 @@ export class ApiService {
       },
     })
 
+    // Bare client for token calls so they never wait on themselves or trigger another refresh.
+    // Not recorded by the network log: requests and responses carry tokens.
+    this.authClient = create({
+      baseURL: this.config.url,
+      timeout: this.config.timeout,
+    })
+
+    this.networkAdapter = this.apisauce.axiosInstance.defaults.adapter
+    if (this.config.adapter) {
+      this.setAdapter(this.config.adapter)
+    }
+
     this.setupMonitor()
   }
 
@@ -78,11 +221,6 @@ export class ApiService {
    */
   private setupMonitor() {
     this.apisauce.addMonitor((response) => {
-      // Handle 401 Unauthorized
-      if (response.status === 401) {
-        this.handleUnauthorized()
-      }
-
       // Log in development
       if (__DEV__) {
         console.log(`[API] ${response.config?.method?.toUpperCase()} ${response.config?.url}`, {
@@ -91,11 +229,41 @@ export class ApiService {
           data: response.data,
         })
       }
+      this.captureResponse(response)
     })
 
     // Request interceptor to add auth token
-    this.apisauce.addRequestTransform((request) => {
-      this.addAuthToken(request)
+    this.apisauce.addAsyncRequestTransform((request) => this.addAuthToken(request))
+  }
+
+  /**
+   * Record a request and its response for the network inspector
+   */
+  private captureResponse(response: ApiResponse<any>) {
+    const config = response.config ?? {}
+    const isAbsolute = /^https?:\/\//.test(config.url ?? "")
+    const url = isAbsolute
+      ? (config.url ?? "")
+      : `${(config.baseURL ?? "").replace(/\/+$/, "")}/${(config.url ?? "").replace(/^\/+/, "")}`
+
+    let requestBody = config.data
+    if (typeof requestBody === "string") {
+      try {
+        requestBody = JSON.parse(requestBody)
+      } catch {}
+    }
+
+    recordNetworkEntry({
+      method: config.method ?? "get",
+      url: appendQuery(url, config.params),
+      requestHeaders: (config.headers as any)?.toJSON?.() ?? config.headers ?? {},
+      requestBody,
+      status: response.status ?? null,
+      responseHeaders: (response.headers as Record<string, string>) ?? {},
+      responseBody: response.data ?? undefined,
+      duration: response.duration ?? 0,
+      problem: response.ok ? undefined : getGeneralApiProblem(response)?.kind,
+      startedAt: Date.now() - (response.duration ?? 0),
     })
   }
 
@@ -103,8 +271,21 @@ export class ApiService {
    * Add authentication token to request
    */
   private async addAuthToken(request: any) {
+    // Never hand our token to other hosts reached through absolute urls
+    if (/^https?:\/\//.test(request.url ?? "") && !request.url.startsWith(this.config.url)) {
+      return
+    }
+
+    // Hold requests back while a refresh is running so they go out with the new token
+    if (this.refreshPromise) {
+      await this.refreshPromise
+    } else if (this.isTokenExpiring()) {
+      // Refresh ahead of expiry rather than sending a token the server is about to reject
+      await this.refreshAccessToken()
+    }
+
     try {
-      const token = await AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN)
+      const token = getSession()?.accessToken
       if (token) {
         request.headers["Authorization"] = `Bearer ${token}`
       }
@@ -114,26 +295,107 @@ export class ApiService {
   }
 
   /**
-   * Handle 401 Unauthorized response
+   * Whether the access token expires within `refreshMargin` and can be refreshed
    */
-  private handleUnauthorized() {
-    // Clear stored tokens
-    AsyncStorage.multiRemove([STORAGE_KEYS.ACCESS_TOKEN, STORAGE_KEYS.REFRESH_TOKEN])
-
-    // Navigate to login
-    if (this.navigation) {
-      this.navigation.reset({
-        index: 0,
-        routes: [{ name: "Auth" }],
+  private isTokenExpiring(): boolean {
+    const session = getSession()
+    if (!session?.refreshToken || !this.config.refreshMargin) return false
+    const expiresAt = getSessionExpiry(session)
+    return !!expiresAt && expiresAt - Date.now() < this.config.refreshMargin
+  }
+
+  /**
+   * Refresh the access token ahead of expiry, e.g. before opening a socket with it.
+   *
+   * @returns The running refresh, or null when the token is still fresh.
+   */
+  refreshIfExpiring(): Promise<boolean> | null {
+    if (this.refreshPromise) return this.refreshPromise
+    return this.isTokenExpiring() ? this.refreshAccessToken() : null
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token.
+   * Concurrent callers share a single refresh call.
+   */
+  private refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null
       })
     }
+    return this.refreshPromise
+  }
+
+  /**
+   * Call the refresh endpoint and store the rotated tokens
+   */
+  private async performRefresh(): Promise<boolean> {
+    try {
+      const session = getSession()
+      const refreshToken = session?.refreshToken
+      if (!session || !refreshToken) return false
+
+      const tokens = await this.requestRefresh(session, refreshToken)
+      if (!tokens) return false
+
+      const { accessToken, refreshToken: rotatedRefreshToken, expiresIn } = tokens
+      updateSession(
+        {
+          accessToken,
+          refreshToken: rotatedRefreshToken ?? refreshToken,
+          expiresAt: expiresIn ? Date.now() + expiresIn * 1000 : undefined,
+        },
+        getAccountId(session),
+      )
+      return true
+    } catch (error) {
+      if (__DEV__) {
+        console.error("[API] Token refresh failed:", error)
+      }
+      return false
+    }
+  }
+
+  /**
+   * Exchange the refresh token at the api, or at the identity provider that issued the session.
+   */
+  private async requestRefresh(
+    session: Session,
+    refreshToken: string,
+  ): Promise<RefreshTokenResponse | null> {
+    if (session.provider) {
+      const { tokenEndpoint, clientId } = session.provider
+      const response = await this.authClient.post<OAuthTokenResponse>(
+        tokenEndpoint,
+        toFormBody({
+          grant_type: "refresh_token",
+          refresh_token: refreshToken,
+          client_id: clientId,
+        }),
+        { headers: { "Content-Type": "application/x-www-form-urlencoded" } },
+      )
+      if (!response.ok || !response.data?.access_token) return null
+      return {
+        accessToken: response.data.access_token,
+        refreshToken: response.data.refresh_token,
+        expiresIn: response.data.expires_in,
+      }
+    }
+
+    if (!this.config.refreshPath) return null
+    const response = await this.authClient.post<RefreshTokenResponse>(this.config.refreshPath, {
+      refreshToken,
+    })
+    return response.ok && response.data?.accessToken ? response.data : null
   }
 
   /**
-   * Set navigation reference for redirects
+   * Handle 401 Unauthorized response.
+   * Clears the session and lets AuthContext sign the user out.
    */
-  setNavigation(navigation: any) {
-    this.navigation = navigation
+  private handleUnauthorized() {
+    expireSession()
   }
 
   /**
@@ -145,26 +407,24 @@ export class ApiService {
   }
 
   /**
-   * Set authentication token
+   * Start a new session with the given tokens
    */
-  async setAuthToken(token: string): Promise<void> {
-    await AsyncStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, token)
-    this.apisauce.setHeader("Authorization", `Bearer ${token}`)
+  async setAuthToken(token: string, refreshToken?: string): Promise<void> {
+    setSession({ accessToken: token, refreshToken })
   }
 
   /**
    * Clear authentication token
    */
   async clearAuthToken(): Promise<void> {
-    await AsyncStorage.multiRemove([STORAGE_KEYS.ACCESS_TOKEN, STORAGE_KEYS.REFRESH_TOKEN])
-    this.apisauce.deleteHeader("Authorization")
+    clearSession()
   }
 
   /**
    * Get current access token
    */
   async getAccessToken(): Promise<string | null> {
-    return AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN)
+    return getSession()?.accessToken ?? null
   }
 
   /**
@@ -173,6 +433,30 @@ export class ApiService {
   setBaseURL(url: string): void {
     this.config.url = url
     this.apisauce.setBaseURL(url)
+    this.authClient.setBaseURL(url)
+  }
+
+  /**
+   * Send requests of both clients through another transport, e.g. the mock backend.
+   * Without an adapter the network is used again.
+   */
+  setAdapter(adapter?: AxiosAdapter): void {
+    this.apisauce.axiosInstance.defaults.adapter = adapter ?? this.networkAdapter
+    this.authClient.axiosInstance.defaults.adapter = adapter ?? this.networkAdapter
+  }
+
+  /**
+   * Requests running and waiting, and how many GETs were deduplicated
+   */
+  getQueueMetrics(): RequestQueueMetrics {
+    return this.queue.getMetrics()
+  }
+
+  /**
+   * Subscribe to queue metric changes. Returns a function that unsubscribes.
+   */
+  onQueueChange(listener: (metrics: RequestQueueMetrics) => void): () => void {
+    return this.queue.onChange(listener)
   }
 
   /**
@@ -183,7 +467,147 @@ export class ApiService {
     params?: Record<string, any>,
     options: RequestOptions = {},
   ): Promise<ApiResult<T>> {
-    return this.makeRequest<T>(() => this.apisauce.get(url, params, this.getRequestOptions(options)))
+    if (options.cache) {
+      return this.cachedGet<T>(url, params, options, options.cache)
+    }
+
+    return this.dedupe<T>(url, params, options, (signal) =>
+      this.makeRequest<T>(
+        () => this.apisauce.get(url, params, this.getRequestOptions({ ...options, signal })),
+        { ...options, signal },
+        { method: "get", url },
+      ),
+    )
+  }
+
+  /**
+   * Send a GET, or join the identical GET already in flight.
+   * Each caller keeps its own signal: the network call is aborted once all of them aborted.
+   */
+  private dedupe<T>(
+    url: string,
+    params: Record<string, any> | undefined,
+    options: RequestOptions,
+    send: (signal?: AbortSignal) => Promise<ApiResult<T>>,
+  ): Promise<ApiResult<T>> {
+    if (this.config.dedupe === false) return send(options.signal)
+    if (options.signal?.aborted) return Promise.resolve({ kind: "cancelled" })
+
+    const key = [
+      getCacheKey(url, params),
+      JSON.stringify(options.headers ?? {}),
+      options.includeHeaders ? "headers" : "",
+    ].join(":")
+    let shared = this.inFlight.get(key)
+    if (shared) {
+      this.queue.recordDeduplicated()
+    } else {
+      const controller = new AbortController()
+      const request: SharedRequest = {
+        controller,
+        callers: 0,
+        promise: send(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === request) this.inFlight.delete(key)
+        }),
+      }
+      this.inFlight.set(key, request)
+      shared = request
+    }
+
+    const request = shared
+    request.callers += 1
+
+    return new Promise<ApiResult<T>>((resolve) => {
+      const onAbort = () => {
+        resolve({ kind: "cancelled" })
+        request.callers -= 1
+        if (request.callers === 0) {
+          this.inFlight.delete(key)
+          request.controller.abort()
+        }
+      }
+      options.signal?.addEventListener("abort", onAbort, { once: true })
+
+      request.promise.then((result) => {
+        options.signal?.removeEventListener("abort", onAbort)
+        resolve(result)
+      })
+    })
+  }
+
+  /**
+   * GET through the response cache: fresh entries skip the network, stale ones
+   * are served while revalidating, and any entry is served when the network fails
+   */
+  private async cachedGet<T>(
+    url: string,
+    params: Record<string, any> | undefined,
+    options: RequestOptions,
+    cache: CacheOptions,
+  ): Promise<ApiResult<T>> {
+    const key = getCacheKey(url, params)
+    const entry = readCacheEntry<T>(key)
+    const now = Date.now()
+
+    if (entry && now < entry.expiresAt) {
+      return { kind: "ok", data: entry.data, fromCache: true }
+    }
+
+    if (entry && now < entry.expiresAt + (cache.staleWhileRevalidate ?? 0)) {
+      this.revalidate<T>(key, entry, url, params, options, cache)
+      return { kind: "ok", data: entry.data, fromCache: true, stale: true }
+    }
+
+    const result = await this.revalidate<T>(key, entry, url, params, options, cache)
+    if (entry && result.kind !== "ok" && "temporary" in result && result.temporary) {
+      return { kind: "ok", data: entry.data, fromCache: true, stale: true }
+    }
+    return result
+  }
+
+  /**
+   * Fetch a cached GET again, sending the validators of the cached entry
+   */
+  private revalidate<T>(
+    key: string,
+    entry: CacheEntry<T> | null,
+    url: string,
+    params: Record<string, any> | undefined,
+    options: RequestOptions,
+    cache: CacheOptions,
+  ): Promise<ApiResult<T>> {
+    const headers: Record<string, string> = { ...options.headers }
+    if (entry?.etag) headers["If-None-Match"] = entry.etag
+    if (entry?.lastModified) headers["If-Modified-Since"] = entry.lastModified
+
+    return this.dedupe<T>(url, params, { ...options, headers }, (signal) =>
+      this.makeRequest<T>(
+        () =>
+          this.apisauce.get(url, params, this.getRequestOptions({ ...options, headers, signal })),
+        { ...options, signal },
+        { method: "get", url },
+        (response) => {
+          const now = Date.now()
+
+          // Not modified: keep the cached data for another TTL
+          if (response.status === 304 && entry) {
+            writeCacheEntry(key, { ...entry, storedAt: now, expiresAt: now + cache.ttl })
+            return { kind: "ok", data: entry.data, fromCache: true }
+          }
+
+          if (response.ok) {
+            writeCacheEntry(key, {
+              data: response.data,
+              etag: response.headers?.["etag"],
+              lastModified: response.headers?.["last-modified"],
+              storedAt: now,
+              expiresAt: now + cache.ttl,
+            })
+          }
+          return null
+        },
+      ),
+    )
   }
 
   /**
@@ -194,7 +618,31 @@ export class ApiService {
     data?: any,
     options: RequestOptions = {},
   ): Promise<ApiResult<T>> {
-    return this.makeRequest<T>(() => this.apisauce.post(url, data, this.getRequestOptions(options)))
+    return this.makeRequest<T>(
+      () => this.apisauce.post(url, data, this.getRequestOptions(options)),
+      options,
+      { method: "post", url, data },
+    )
+  }
+
+  /**
+   * POST a form to an OAuth2 token endpoint, e.g. to exchange an authorization code.
+   * Sent without the session token, never retried and never recorded by the network log.
+   *
+   * @param url The token endpoint.
+   * @param params The form fields.
+   */
+  async requestToken<T = OAuthTokenResponse>(
+    url: string,
+    params: Record<string, string>,
+  ): Promise<ApiResult<T>> {
+    return this.makeRequest<T>(
+      () =>
+        this.authClient.post(url, toFormBody(params), {
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        }),
+      { requireAuth: false, retry: false },
+    )
   }
 
   /**
@@ -205,7 +653,11 @@ export class ApiService {
     data?: any,
     options: RequestOptions = {},
   ): Promise<ApiResult<T>> {
-    return this.makeRequest<T>(() => this.apisauce.put(url, data, this.getRequestOptions(options)))
+    return this.makeRequest<T>(
+      () => this.apisauce.put(url, data, this.getRequestOptions(options)),
+      options,
+      { method: "put", url, data },
+    )
   }
 
   /**
@@ -216,8 +668,10 @@ export class ApiService {
     data?: any,
     options: RequestOptions = {},
   ): Promise<ApiResult<T>> {
-    return this.makeRequest<T>(() =>
-      this.apisauce.patch(url, data, this.getRequestOptions(options)),
+    return this.makeRequest<T>(
+      () => this.apisauce.patch(url, data, this.getRequestOptions(options)),
+      options,
+      { method: "patch", url, data },
     )
   }
 
@@ -225,7 +679,44 @@ export class ApiService {
    * DELETE request
    */
   async delete<T>(url: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
-    return this.makeRequest<T>(() => this.apisauce.delete(url, this.getRequestOptions(options)))
+    return this.makeRequest<T>(
+      () => this.apisauce.delete(url, this.getRequestOptions(options)),
+      options,
+      { method: "delete", url },
+    )
+  }
+
+  /**
+   * Request with the method chosen at runtime, as used by declared endpoints
+   */
+  async request<T>(
+    method: HttpMethod,
+    url: string,
+    payload: { query?: Record<string, any>; body?: any } = {},
+    options: RequestOptions = {},
+  ): Promise<ApiResult<T>> {
+    switch (method) {
+      case "get":
+        return this.get<T>(url, payload.query, options)
+      case "delete":
+        return this.delete<T>(appendQuery(url, payload.query), options)
+      case "post":
+      case "put":
+      case "patch":
+        return this[method]<T>(appendQuery(url, payload.query), payload.body, options)
+      default:
+        return this.makeRequest<T>(
+          () =>
+            this.apisauce.any({
+              method,
+              url,
+              params: payload.query,
+              ...this.getRequestOptions(options),
+            }),
+          options,
+          { method, url },
+        )
+    }
   }
 
   /**
@@ -237,16 +728,19 @@ export class ApiService {
     options: RequestOptions = { isMultipart: true },
     onUploadProgress?: (progress: number) => void,
   ): Promise<ApiResult<T>> {
-    return this.makeRequest<T>(() =>
-      this.apisauce.post(url, data, {
-        ...this.getRequestOptions(options),
-        onUploadProgress: (progress) => {
-          if (onUploadProgress && progress.total) {
-            const percent = (progress.loaded * 100) / progress.total
-            onUploadProgress(Math.round(percent))
-          }
-        },
-      }),
+    return this.makeRequest<T>(
+      () =>
+        this.apisauce.post(url, data, {
+          ...this.getRequestOptions(options),
+          onUploadProgress: (progress) => {
+            if (onUploadProgress && progress.total) {
+              const percent = (progress.loaded * 100) / progress.total
+              onUploadProgress(Math.round(percent))
+            }
+          },
+        }),
+      options,
+      { method: "post", url },
     )
   }
 
@@ -270,26 +764,160 @@ export class ApiService {
       headers["Content-Type"] = "multipart/form-data"
     }
 
+    if (options.idempotencyKey) {
+      headers["Idempotency-Key"] = options.idempotencyKey
+    }
+
     return {
       headers,
+      signal: options.signal,
+    }
+  }
+
+  /**
+   * Replay queued mutations in order.
+   * Stops at the first temporary problem, since the connection is likely gone again.
+   */
+  async replayOutbox(): Promise<void> {
+    if (this.isReplayingOutbox) return
+    this.isReplayingOutbox = true
+
+    const accountId = getActiveAccountId()
+    try {
+      for (const entry of getOutboxEntries(accountId)) {
+        if (entry.status !== "pending") continue
+        // Sent with the token of the account that made it, stop once another one is active
+        if (getActiveAccountId() !== accountId) break
+
+        const result = await this.makeRequest(
+          () =>
+            this.apisauce.any({
+              method: entry.method,
+              url: entry.url,
+              data: entry.data,
+              headers: { ...entry.headers, "Idempotency-Key": entry.idempotencyKey },
+            }),
+          {},
+          entry,
+        )
+
+        if (result.kind === "ok") {
+          removeOutboxEntry(entry.id, accountId)
+          continue
+        }
+
+        const temporary = "temporary" in result && result.temporary
+        updateOutboxEntry(
+          entry.id,
+          {
+            attempts: entry.attempts + 1,
+            status: temporary ? "pending" : "failed",
+            lastError: result.kind,
+          },
+          accountId,
+        )
+        if (temporary) break
+      }
+    } finally {
+      this.isReplayingOutbox = false
+    }
+    // The account switched while replaying, its own outbox was skipped
+    if (getActiveAccountId() !== accountId) await this.replayOutbox()
+  }
+
+  /**
+   * Resolve the retry policy for a request from the global default and its overrides
+   */
+  private getRetryPolicy(options: RequestOptions): RetryPolicy | null {
+    if (options.retry === false || !this.config.retry) return null
+    return { ...this.config.retry, ...options.retry }
+  }
+
+  /**
+   * Send a request, retrying temporary problems with exponential backoff
+   */
+  private async sendWithRetry(
+    requestFn: () => Promise<ApiResponse<any>>,
+    options: RequestOptions,
+    method: HttpMethod = "get",
+  ): Promise<ApiResponse<any>> {
+    const policy = this.getRetryPolicy(options)
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.queue.run(requestFn, options.priority, options.signal)
+      if (!policy || attempt >= policy.maxAttempts || !shouldRetry(response, policy, method)) {
+        return response
+      }
+
+      const wait = getRetryDelay(response, policy, attempt)
+      if (wait === null) return response
+
+      if (__DEV__) {
+        console.log(`[API] Retrying ${method.toUpperCase()} ${response.config?.url} in ${wait}ms`)
+      }
+      await delay(wait)
+      if (options.signal?.aborted) return response
     }
   }
 
   /**
-   * Make request with error handling
+   * Make request with error handling.
+   * A 401 triggers one token refresh, after which the request is replayed once.
+   * `handleResponse` may settle the result itself, returning null to fall through.
    */
   private async makeRequest<T>(
     requestFn: () => Promise<ApiResponse<any>>,
+    options: RequestOptions = {},
+    request?: RequestDescriptor,
+    handleResponse?: (response: ApiResponse<any>) => ApiResult<T> | null,
   ): Promise<ApiResult<T>> {
     try {
+      if (options.signal?.aborted) {
+        return { kind: "cancelled" }
+      }
+
       // Check connection if enabled
       const state = await NetInfo.fetch()
       if (!state.isConnected && !state.isInternetReachable) {
-        return { kind: "cannot-connect" }
+        if (options.queueable && request && request.method !== "get" && !options.isMultipart) {
+          const entry = enqueueOutboxEntry({
+            method: request.method as OutboxEntry["method"],
+            url: request.url,
+            data: request.data,
+            headers: options.headers,
+            idempotencyKey: options.idempotencyKey,
+            accountId: getActiveAccountId() ?? undefined,
+          })
+          return { kind: "queued", entry }
+        }
+        return { kind: "cannot-connect", temporary: true }
       }
 
       // Make request
-      const response = await requestFn()
+      let response = await this.sendWithRetry(requestFn, options, request?.method)
+
+      // Refresh the access token and replay once
+      if (response.status === 401 && options.requireAuth !== false) {
+        // Skip the refresh when another request already rotated the token we sent
+        const sentToken = response.config?.headers?.Authorization
+        const currentToken = await this.getAccessToken()
+        const refreshed =
+          (!!currentToken && sentToken !== `Bearer ${currentToken}`) ||
+          (await this.refreshAccessToken())
+        if (!refreshed) {
+          this.handleUnauthorized()
+          return { kind: "unauthorized", status: 401 }
+        }
+        response = await this.sendWithRetry(requestFn, options, request?.method)
+      }
+
+      // The caller is no longer interested, whatever the response was
+      if (options.signal?.aborted) {
+        return { kind: "cancelled" }
+      }
+
+      const handled = handleResponse?.(response)
+      if (handled) return handled
 
       // Check for errors
       if (!response.ok) {
@@ -298,12 +926,15 @@ export class ApiService {
       }
 
       // Return data
+      if (options.includeHeaders) {
+        return { kind: "ok", data: response.data as T, headers: { ...response.headers } }
+      }
       return { kind: "ok", data: response.data as T }
     } catch (error) {
       if (__DEV__) {
         console.error("[API] Request error:", error)
       }
-      return { kind: "unknown" }
+      return { kind: "unknown", temporary: true }
     }
   }
 }
@@ -311,4 +942,17 @@ export class ApiService {
 // Singleton instance
 export const apiService = new ApiService()
 
+// Follow environment switches. The sessions, queued mutations and cached responses
+// belong to the previous backend.
+apiConfig.onChange(({ baseUrl }) => {
+  clearAccounts()
+  clearOutbox()
+  expireSession()
+  clearResponseCache()
+  apiService.setBaseURL(baseUrl)
+})
+
+// Mutations the newly active account queued earlier can go out now
+onAccountSwitch(() => apiService.replayOutbox())
+
 export default apiService
@@ -1,6 +1,6 @@
 import { ApiErrorResponse } from "apisauce"
 
-import { getGeneralApiProblem } from "./apiProblem"
+import { getFieldErrors, getGeneralApiProblem, parseRetryAfter } from "./apiProblem"
 
 test("handles connection errors", () => {
   expect(getGeneralApiProblem({ problem: "CONNECTION_ERROR" } as ApiErrorResponse<null>)).toEqual({
@@ -41,6 +41,7 @@ test("handles unauthorized errors", () => {
     getGeneralApiProblem({ problem: "CLIENT_ERROR", status: 401 } as ApiErrorResponse<null>),
   ).toEqual({
     kind: "unauthorized",
+    status: 401,
   })
 })
 
@@ -49,6 +50,7 @@ test("handles forbidden errors", () => {
     getGeneralApiProblem({ problem: "CLIENT_ERROR", status: 403 } as ApiErrorResponse<null>),
   ).toEqual({
     kind: "forbidden",
+    status: 403,
   })
 })
 
@@ -57,6 +59,54 @@ test("handles not-found errors", () => {
     getGeneralApiProblem({ problem: "CLIENT_ERROR", status: 404 } as ApiErrorResponse<null>),
   ).toEqual({
     kind: "not-found",
+    status: 404,
+  })
+})
+
+test("handles conflicts", () => {
+  expect(
+    getGeneralApiProblem({ problem: "CLIENT_ERROR", status: 409 } as ApiErrorResponse<null>),
+  ).toEqual({
+    kind: "conflict",
+    status: 409,
+  })
+})
+
+test("handles payloads that are too large", () => {
+  expect(
+    getGeneralApiProblem({ problem: "CLIENT_ERROR", status: 413 } as ApiErrorResponse<null>),
+  ).toEqual({
+    kind: "payload-too-large",
+    status: 413,
+  })
+})
+
+test("handles validation errors with field messages", () => {
+  expect(
+    getGeneralApiProblem({
+      problem: "CLIENT_ERROR",
+      status: 422,
+      data: { message: "The given data was invalid.", errors: { email: "is taken" } },
+    } as ApiErrorResponse<any>),
+  ).toEqual({
+    kind: "validation",
+    status: 422,
+    message: "The given data was invalid.",
+    errors: { email: ["is taken"] },
+  })
+})
+
+test("handles rate limiting", () => {
+  expect(
+    getGeneralApiProblem({
+      problem: "CLIENT_ERROR",
+      status: 429,
+      headers: { "retry-after": "30" } as Record<string, string>,
+    } as ApiErrorResponse<null>),
+  ).toEqual({
+    kind: "rate-limited",
+    status: 429,
+    retryAfter: 30000,
   })
 })
 
@@ -65,9 +115,42 @@ test("handles other client errors", () => {
     getGeneralApiProblem({ problem: "CLIENT_ERROR", status: 418 } as ApiErrorResponse<null>),
   ).toEqual({
     kind: "rejected",
+    status: 418,
   })
 })
 
 test("handles cancellation errors", () => {
-  expect(getGeneralApiProblem({ problem: "CANCEL_ERROR" } as ApiErrorResponse<null>)).toBeNull()
+  expect(getGeneralApiProblem({ problem: "CANCEL_ERROR" } as ApiErrorResponse<null>)).toEqual({
+    kind: "cancelled",
+  })
+})
+
+test("attaches the server message", () => {
+  expect(
+    getGeneralApiProblem({
+      problem: "SERVER_ERROR",
+      status: 500,
+      data: { error: "Database unavailable" },
+    } as ApiErrorResponse<any>),
+  ).toEqual({
+    kind: "server",
+    status: 500,
+    message: "Database unavailable",
+  })
+})
+
+test("normalizes field errors sent as a list", () => {
+  expect(
+    getFieldErrors([
+      { field: "name", message: "is required" },
+      { field: "name", message: "is too short" },
+    ]),
+  ).toEqual({ name: ["is required", "is too short"] })
+})
+
+test("parses Retry-After seconds and dates", () => {
+  expect(parseRetryAfter("3")).toBe(3000)
+  expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(58000)
+  expect(parseRetryAfter("soon")).toBeNull()
+  expect(parseRetryAfter(undefined)).toBeNull()
 })
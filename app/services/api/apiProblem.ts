@@ -1,6 +1,20 @@
 import { ApiResponse } from "apisauce"
 
-export type GeneralApiProblem =
+/**
+ * What the server told us about a failed request, when it told us anything.
+ */
+export interface ApiProblemDetails {
+  /**
+   * The HTTP status code.
+   */
+  status?: number
+  /**
+   * The message from the response body.
+   */
+  message?: string
+}
+
+type ApiProblemCause =
   /**
    * Times up.
    */
@@ -25,6 +39,22 @@ export type GeneralApiProblem =
    * Unable to find that resource.  This is a 404.
    */
   | { kind: "not-found" }
+  /**
+   * The resource changed in the meantime. This is a 409.
+   */
+  | { kind: "conflict" }
+  /**
+   * The request body is too large for the server. This is a 413.
+   */
+  | { kind: "payload-too-large" }
+  /**
+   * The server rejected some fields. This is a 422.
+   */
+  | { kind: "validation"; errors: Record<string, string[]> }
+  /**
+   * Too many requests. This is a 429. `retryAfter` is in milliseconds.
+   */
+  | { kind: "rate-limited"; retryAfter?: number }
   /**
    * All other 4xx series errors.
    */
@@ -37,6 +67,67 @@ export type GeneralApiProblem =
    * The data we received is not in the expected format.
    */
   | { kind: "bad-data" }
+  /**
+   * The request was aborted by the caller before it completed.
+   */
+  | { kind: "cancelled" }
+
+export type GeneralApiProblem = ApiProblemCause & ApiProblemDetails
+
+/**
+ * Reads a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @param value The header value.
+ * @returns The delay in milliseconds, or null when missing or unreadable.
+ */
+export function parseRetryAfter(value?: string | null): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  if (!isNaN(date)) return Math.max(0, date - Date.now())
+
+  return null
+}
+
+/**
+ * Normalizes field errors, sent either as `{ field: message | messages }`
+ * or as `[{ field, message }]`.
+ *
+ * @param errors The `errors` value from the response body.
+ */
+export function getFieldErrors(errors: unknown): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {}
+
+  if (Array.isArray(errors)) {
+    for (const error of errors) {
+      const field = error?.field ?? error?.path
+      if (typeof field === "string" && error?.message) {
+        fieldErrors[field] = [...(fieldErrors[field] ?? []), String(error.message)]
+      }
+    }
+  } else if (errors && typeof errors === "object") {
+    for (const [field, messages] of Object.entries(errors)) {
+      fieldErrors[field] = Array.isArray(messages) ? messages.map(String) : [String(messages)]
+    }
+  }
+
+  return fieldErrors
+}
+
+/**
+ * Picks the human readable message out of an error response body.
+ *
+ * @param data The response body.
+ */
+function getServerMessage(data: any): string | undefined {
+  if (typeof data === "string") return data || undefined
+  // GraphQL servers answer with an `errors` array
+  const message = data?.message ?? data?.error ?? data?.detail ?? data?.errors?.[0]?.message
+  return typeof message === "string" ? message : undefined
+}
 
 /**
  * Attempts to get a common cause of problems from an api response.
@@ -44,30 +135,49 @@ export type GeneralApiProblem =
  * @param response The api response.
  */
 export function getGeneralApiProblem(response: ApiResponse<any>): GeneralApiProblem | null {
+  const details: ApiProblemDetails = {}
+  if (response.status) details.status = response.status
+  const message = getServerMessage(response.data)
+  if (message) details.message = message
+
   switch (response.problem) {
     case "CONNECTION_ERROR":
-      return { kind: "cannot-connect", temporary: true }
+      return { kind: "cannot-connect", temporary: true, ...details }
     case "NETWORK_ERROR":
-      return { kind: "cannot-connect", temporary: true }
+      return { kind: "cannot-connect", temporary: true, ...details }
     case "TIMEOUT_ERROR":
-      return { kind: "timeout", temporary: true }
+      return { kind: "timeout", temporary: true, ...details }
     case "SERVER_ERROR":
-      return { kind: "server" }
+      return { kind: "server", ...details }
     case "UNKNOWN_ERROR":
-      return { kind: "unknown", temporary: true }
+      return { kind: "unknown", temporary: true, ...details }
     case "CLIENT_ERROR":
       switch (response.status) {
         case 401:
-          return { kind: "unauthorized" }
+          return { kind: "unauthorized", ...details }
         case 403:
-          return { kind: "forbidden" }
+          return { kind: "forbidden", ...details }
         case 404:
-          return { kind: "not-found" }
+          return { kind: "not-found", ...details }
+        case 409:
+          return { kind: "conflict", ...details }
+        case 413:
+          return { kind: "payload-too-large", ...details }
+        case 422:
+          return { kind: "validation", errors: getFieldErrors(response.data?.errors), ...details }
+        case 429: {
+          const retryAfter = parseRetryAfter(
+            response.headers?.["retry-after"] ?? response.headers?.["Retry-After"],
+          )
+          return retryAfter === null
+            ? { kind: "rate-limited", ...details }
+            : { kind: "rate-limited", retryAfter, ...details }
+        }
         default:
-          return { kind: "rejected" }
+          return { kind: "rejected", ...details }
       }
     case "CANCEL_ERROR":
-      return null
+      return { kind: "cancelled" }
   }
 
   return null
@@ -0,0 +1,90 @@
+import { MMKV } from "react-native-mmkv"
+
+import { getActiveAccountId } from "@/services/session"
+
+/**
+ * Responses live in their own MMKV instance so they can be dropped without touching app state.
+ */
+export const cacheStorage = new MMKV({ id: "api-cache" })
+
+/**
+ * Per-request cache settings for `ApiService.get`.
+ */
+export interface CacheOptions {
+  /**
+   * Milliseconds a cached response is served without asking the server.
+   */
+  ttl: number
+  /**
+   * Milliseconds after `ttl` during which the stale response is served
+   * while a revalidation runs in the background.
+   */
+  staleWhileRevalidate?: number
+}
+
+export interface CacheEntry<T = any> {
+  data: T
+  etag?: string
+  lastModified?: string
+  storedAt: number
+  expiresAt: number
+}
+
+/**
+ * Builds the cache key from the active account, the url and the sorted params.
+ *
+ * @param url The request url.
+ * @param params The query params.
+ */
+export function getCacheKey(url: string, params?: Record<string, any>): string {
+  const account = getActiveAccountId() ?? "anonymous"
+  const query = Object.keys(params ?? {})
+    .sort()
+    .map((key) => `${key}=${JSON.stringify(params?.[key])}`)
+    .join("&")
+  return `${account}:${url}?${query}`
+}
+
+/**
+ * Loads a cached response.
+ *
+ * @param key The cache key.
+ */
+export function readCacheEntry<T>(key: string): CacheEntry<T> | null {
+  try {
+    const raw = cacheStorage.getString(key)
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Stores a response.
+ *
+ * @param key The cache key.
+ * @param entry The response and its validators.
+ */
+export function writeCacheEntry<T>(key: string, entry: CacheEntry<T>): void {
+  try {
+    cacheStorage.set(key, JSON.stringify(entry))
+  } catch {}
+}
+
+/**
+ * Drops cached responses, e.g. when signing out.
+ *
+ * @param accountId Only drop the responses of this account. All of them by default.
+ */
+export function clearResponseCache(accountId?: string): void {
+  try {
+    if (!accountId) {
+      cacheStorage.clearAll()
+      return
+    }
+    cacheStorage
+      .getAllKeys()
+      .filter((key) => key.startsWith(`${accountId}:`))
+      .forEach((key) => cacheStorage.delete(key))
+  } catch {}
+}
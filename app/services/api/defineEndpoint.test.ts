@@ -0,0 +1,71 @@
+import * as yup from "yup"
+
+import type { ApiService } from "./ApiService"
+import { buildPath, defineEndpoint } from "./defineEndpoint"
+
+const userSchema = yup.object({
+  id: yup.number().required(),
+  name: yup.string().required(),
+})
+
+function createClient(result: unknown) {
+  return { request: jest.fn().mockResolvedValue(result) } as unknown as ApiService & {
+    request: jest.Mock
+  }
+}
+
+test("fills path params", () => {
+  expect(buildPath("/sites/:siteId/users/:id", { siteId: "a b", id: 7 })).toBe(
+    "/sites/a%20b/users/7",
+  )
+})
+
+test("sends the declared method, path, query and body", async () => {
+  const client = createClient({ kind: "ok", data: { id: 7, name: "Ada" } })
+  const updateUser = defineEndpoint<{ notify: boolean }, { name: string }>()({
+    method: "patch",
+    path: "/users/:id",
+    response: userSchema,
+    client,
+  })
+
+  const result = await updateUser({
+    params: { id: 7 },
+    query: { notify: true },
+    body: { name: "Ada" },
+  })
+
+  expect(client.request).toHaveBeenCalledWith(
+    "patch",
+    "/users/7",
+    { query: { notify: true }, body: { name: "Ada" } },
+    {},
+  )
+  expect(result).toEqual({ kind: "ok", data: { id: 7, name: "Ada" } })
+})
+
+test("turns responses that fail the schema into bad-data", async () => {
+  jest.spyOn(console, "error").mockImplementation(() => {})
+  const client = createClient({ kind: "ok", data: { id: "not a number" } })
+  const getUser = defineEndpoint()({
+    method: "get",
+    path: "/users/:id",
+    response: userSchema,
+    client,
+  })
+
+  expect(await getUser({ params: { id: 1 } })).toEqual({ kind: "bad-data" })
+  expect(console.error).toHaveBeenCalledWith(expect.stringContaining('at "'))
+})
+
+test("passes problems through untouched", async () => {
+  const client = createClient({ kind: "not-found" })
+  const getUser = defineEndpoint()({
+    method: "get",
+    path: "/users/:id",
+    response: userSchema,
+    client,
+  })
+
+  expect(await getUser({ params: { id: 1 } })).toEqual({ kind: "not-found" })
+})
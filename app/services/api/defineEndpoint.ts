@@ -0,0 +1,129 @@
+/**
+ * defineEndpoint.ts
+ * Declare an endpoint once and get a typed call function that validates the response
+ */
+
+import * as yup from "yup"
+
+import { ApiResult, ApiService, apiService, RequestOptions } from "./ApiService"
+import type { HttpMethod } from "./types"
+
+/**
+ * Names of the `:param` segments in a path, e.g. "id" | "postId" for "/users/:id/posts/:postId"
+ */
+type PathParamNames<TPath extends string> = TPath extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | PathParamNames<`/${Rest}`>
+  : TPath extends `${string}:${infer Name}`
+    ? Name
+    : never
+
+export type PathParams<TPath extends string> = { [K in PathParamNames<TPath>]: string | number }
+
+export interface EndpointDefinition<TPath extends string, TResponse> {
+  method: HttpMethod
+  /**
+   * Relative to the client base URL, or absolute. `:name` segments are filled from `params`.
+   */
+  path: TPath
+  /**
+   * Responses that do not match become a `bad-data` problem
+   */
+  response: yup.Schema<TResponse>
+  /**
+   * Defaults for every call, merged with the options of the call
+   */
+  options?: RequestOptions
+  /**
+   * Client to send the request with. Defaults to the shared `apiService`.
+   */
+  client?: ApiService
+}
+
+export type EndpointArgs<TPath extends string, TQuery, TBody> = ([PathParamNames<TPath>] extends [
+  never,
+]
+  ? { params?: undefined }
+  : { params: PathParams<TPath> }) &
+  ([TQuery] extends [void] ? { query?: undefined } : { query: TQuery }) &
+  ([TBody] extends [void] ? { body?: undefined } : { body: TBody }) & {
+    options?: RequestOptions
+  }
+
+export type Endpoint<TPath extends string, TQuery, TBody, TResponse> = {
+  (
+    ...args: [EndpointArgs<TPath, TQuery, TBody>] extends [
+      { params?: undefined; query?: undefined; body?: undefined },
+    ]
+      ? [EndpointArgs<TPath, TQuery, TBody>?]
+      : [EndpointArgs<TPath, TQuery, TBody>]
+  ): Promise<ApiResult<TResponse>>
+  definition: EndpointDefinition<TPath, TResponse>
+}
+
+/**
+ * Fills the `:name` segments of a path.
+ *
+ * @param path The path template.
+ * @param params The values for its segments.
+ */
+export function buildPath(path: string, params: Record<string, string | number> = {}): string {
+  return path.replace(/:(\w+)/g, (segment, name: string) =>
+    name in params ? encodeURIComponent(String(params[name])) : segment,
+  )
+}
+
+/**
+ * Declares an endpoint. Query and body types are given explicitly, the path
+ * params and the response type are inferred from the definition.
+ *
+ * @example
+ * ```ts
+ * const getUser = defineEndpoint()({
+ *   method: "get",
+ *   path: "/users/:id",
+ *   response: yup.object({ id: yup.string().required(), name: yup.string().required() }),
+ * })
+ *
+ * const result = await getUser({ params: { id: 42 } })
+ * if (result.kind === "ok") console.log(result.data.name)
+ * ```
+ */
+export function defineEndpoint<TQuery = void, TBody = void>() {
+  return <TPath extends string, TResponse>(
+    definition: EndpointDefinition<TPath, TResponse>,
+  ): Endpoint<TPath, TQuery, TBody, TResponse> => {
+    const call = async (
+      args: {
+        params?: Record<string, string | number>
+        query?: any
+        body?: any
+        options?: RequestOptions
+      } = {},
+    ): Promise<ApiResult<TResponse>> => {
+      const { method, path, response: schema, client = apiService } = definition
+      const url = buildPath(path, args.params)
+
+      const result = await client.request<unknown>(
+        method,
+        url,
+        { query: args.query, body: args.body },
+        { ...definition.options, ...args.options },
+      )
+      if (result.kind !== "ok") return result
+
+      try {
+        const data = await schema.validate(result.data)
+        return { ...result, data }
+      } catch (error) {
+        if (__DEV__ && error instanceof yup.ValidationError) {
+          console.error(
+            `[API] Bad data from ${method.toUpperCase()} ${url} at "${error.path ?? "(root)"}": ${error.message}`,
+          )
+        }
+        return { kind: "bad-data" }
+      }
+    }
+
+    return Object.assign(call, { definition }) as Endpoint<TPath, TQuery, TBody, TResponse>
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * endpoints.ts
+ * Registry of the backend endpoints the app calls, with the response shapes we rely on
+ */
+
+import * as yup from "yup"
+
+import Config from "@/config"
+
+import { defineEndpoint } from "./defineEndpoint"
+import type { ApiFeedResponse, EpisodeItem } from "./types"
+
+const episodeSchema: yup.ObjectSchema<EpisodeItem> = yup.object({
+  title: yup.string().defined(),
+  pubDate: yup.string().defined(),
+  link: yup.string().defined(),
+  guid: yup.string().defined(),
+  author: yup.string().defined(),
+  thumbnail: yup.string().defined(),
+  description: yup.string().defined(),
+  content: yup.string().defined(),
+  enclosure: yup.object({
+    link: yup.string().defined(),
+    type: yup.string().defined(),
+    length: yup.number().defined(),
+    duration: yup.number().defined(),
+    rating: yup.object({
+      scheme: yup.string().defined(),
+      value: yup.string().defined(),
+    }),
+  }),
+  categories: yup.array(yup.string().defined()).defined(),
+})
+
+const feedSchema: yup.ObjectSchema<ApiFeedResponse> = yup.object({
+  status: yup.string().defined(),
+  feed: yup.object({
+    url: yup.string().defined(),
+    title: yup.string().defined(),
+    link: yup.string().defined(),
+    author: yup.string().defined(),
+    description: yup.string().defined(),
+    image: yup.string().defined(),
+  }),
+  items: yup.array(episodeSchema).defined(),
+})
+
+export const endpoints = {
+  /**
+   * An RSS feed converted to JSON by rss2json. A third-party service, so the url is absolute
+   * and stays the same whatever environment is selected.
+   */
+  getFeed: defineEndpoint<{ rss_url: string }>()({
+    method: "get",
+    path: `${Config.API_URL}api.json`,
+    response: feedSchema,
+    options: { requireAuth: false },
+  }),
+}
@@ -3,29 +3,130 @@
  * Environment configuration for API
  */
 
-const API_BASE_URL = __DEV__
-  ? "https://api-dev.example.com/v1"
-  : "https://api.example.com/v1"
+import { load, remove, save } from "@/utils/storage"
 
-// Developer override for testing
-let developerOverrideBaseUrl: string | null = null
+export type ApiEnvironmentName = "dev" | "staging" | "prod" | "custom"
+
+export interface ApiEnvironment {
+  name: ApiEnvironmentName
+  label: string
+  baseUrl: string
+}
+
+/**
+ * The known backends. `custom` points at any url, e.g. a local server.
+ */
+export const API_ENVIRONMENTS: Record<Exclude<ApiEnvironmentName, "custom">, ApiEnvironment> = {
+  dev: { name: "dev", label: "Development", baseUrl: "https://api-dev.example.com/v1" },
+  staging: { name: "staging", label: "Staging", baseUrl: "https://api-staging.example.com/v1" },
+  prod: { name: "prod", label: "Production", baseUrl: "https://api.example.com/v1" },
+}
+
+export const API_ENVIRONMENT_STORAGE_KEY = "apiEnvironment"
+
+type StoredApiEnvironment = { name: ApiEnvironmentName; customUrl?: string }
+
+const DEFAULT_ENVIRONMENT = __DEV__ ? API_ENVIRONMENTS.dev : API_ENVIRONMENTS.prod
+
+const listeners = new Set<(environment: ApiEnvironment) => void>()
 
 export const apiConfig = {
+  /**
+   * The selected environment. Release builds always use production.
+   */
+  get environment(): ApiEnvironment {
+    if (!__DEV__) return API_ENVIRONMENTS.prod
+
+    const stored = load<StoredApiEnvironment>(API_ENVIRONMENT_STORAGE_KEY)
+    if (stored?.name === "custom" && stored.customUrl) {
+      return { name: "custom", label: "Custom", baseUrl: stored.customUrl }
+    }
+    if (stored && stored.name !== "custom") return API_ENVIRONMENTS[stored.name]
+    return DEFAULT_ENVIRONMENT
+  },
+
   get baseUrl(): string {
-    return developerOverrideBaseUrl || API_BASE_URL
+    return this.environment.baseUrl
+  },
+
+  /**
+   * Select and persist an environment. Listeners apply it to the clients.
+   */
+  setEnvironment(name: ApiEnvironmentName, customUrl?: string): void {
+    if (name === "custom" && !customUrl) {
+      throw new Error("A custom environment needs a url")
+    }
+    const previous = this.baseUrl
+    save(API_ENVIRONMENT_STORAGE_KEY, {
+      name,
+      customUrl: name === "custom" ? customUrl : undefined,
+    })
+    if (this.baseUrl !== previous) notify(this.environment)
   },
 
   setBaseUrl(url: string): void {
-    developerOverrideBaseUrl = url
+    this.setEnvironment("custom", url)
   },
 
   resetBaseUrl(): void {
-    developerOverrideBaseUrl = null
+    const previous = this.baseUrl
+    remove(API_ENVIRONMENT_STORAGE_KEY)
+    if (this.baseUrl !== previous) notify(this.environment)
+  },
+
+  /**
+   * Subscribe to environment switches.
+   *
+   * @returns A function that unsubscribes.
+   */
+  onChange(listener: (environment: ApiEnvironment) => void): () => void {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
   },
 
   get timeout(): number {
     return 30000 // 30 seconds
   },
+
+  /**
+   * Endpoint that exchanges a refresh token for a new access token
+   */
+  get refreshPath(): string {
+    return "/auth/refresh"
+  },
+
+  /**
+   * Endpoints of sign-in, registration and password reset, relative to the api url
+   */
+  get authPaths() {
+    return {
+      login: "/auth/login",
+      register: "/auth/register",
+      requestPasswordReset: "/auth/password/forgot",
+      verifyResetCode: "/auth/password/verify",
+      resetPassword: "/auth/password/reset",
+    }
+  },
+
+  /**
+   * Endpoint returning the profile of the signed-in user
+   */
+  get profilePath(): string {
+    return "/me"
+  },
+
+  /**
+   * WebSocket endpoint of the realtime service, on the api host
+   */
+  get realtimeUrl(): string {
+    return `${this.baseUrl.replace(/^http/, "ws")}/realtime`
+  },
+}
+
+function notify(environment: ApiEnvironment): void {
+  listeners.forEach((listener) => listener(environment))
 }
 
 export default apiConfig
@@ -0,0 +1,139 @@
+import { ApiService } from "./ApiService"
+import { fromConnection, GraphQLClient } from "./graphql"
+import { createMockAdapter, json, MockRequest } from "./mock/mockAdapter"
+
+/**
+ * A client whose endpoint answers with `handler`
+ */
+function createClient(handler: (request: MockRequest) => ReturnType<typeof json>) {
+  const requests: any[] = []
+  const service = new ApiService({
+    url: "https://api.test",
+    timeout: 1000,
+    retry: false,
+    adapter: createMockAdapter(
+      [
+        {
+          method: "post",
+          path: "/graphql",
+          handler: (request: MockRequest) => {
+            requests.push(request.body)
+            return handler(request)
+          },
+        },
+      ],
+      { settings: { enabled: true, latency: 0 } },
+    ),
+  })
+  return { client: new GraphQLClient({ service }), requests }
+}
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {})
+})
+
+describe("GraphQLClient", () => {
+  it("sends the query and variables and returns the data", async () => {
+    const { client, requests } = createClient(() => json({ data: { viewer: { id: "1" } } }))
+
+    const result = await client.query("query Viewer($x: Int) { viewer { id } }", { x: 1 })
+
+    expect(result).toEqual({ kind: "ok", data: { viewer: { id: "1" } } })
+    expect(requests[0]).toEqual({
+      query: "query Viewer($x: Int) { viewer { id } }",
+      variables: { x: 1 },
+    })
+  })
+
+  it("maps error codes to problems", async () => {
+    const { client } = createClient(() =>
+      json({
+        data: null,
+        errors: [
+          {
+            message: "Name is taken",
+            path: ["createUser"],
+            extensions: { code: "BAD_USER_INPUT", field: "name" },
+          },
+        ],
+      }),
+    )
+
+    expect(await client.mutate("mutation { createUser }")).toEqual({
+      kind: "validation",
+      errors: { name: ["Name is taken"] },
+      message: "Name is taken",
+    })
+  })
+
+  it("returns unknown errors with the partial data", async () => {
+    const errors = [{ message: "Boom", path: ["feed"] }]
+    const { client } = createClient(() => json({ data: { viewer: { id: "1" } }, errors }))
+
+    expect(await client.query("{ viewer { id } feed }")).toEqual({
+      kind: "graphql",
+      errors,
+      data: { viewer: { id: "1" } },
+      message: "Boom",
+    })
+  })
+
+  it("sends the hash of persisted queries, and the query once it is unknown", async () => {
+    const { client, requests } = createClient(({ body }) =>
+      body.query
+        ? json({ data: { ok: true } })
+        : json({ errors: [{ message: "PersistedQueryNotFound" }] }),
+    )
+
+    const result = await client.query({ query: "{ ok }", hash: "abc" })
+
+    expect(result).toEqual({ kind: "ok", data: { ok: true } })
+    expect(requests).toEqual([
+      { extensions: { persistedQuery: { version: 1, sha256Hash: "abc" } } },
+      { query: "{ ok }", extensions: { persistedQuery: { version: 1, sha256Hash: "abc" } } },
+    ])
+  })
+
+  it("keeps the HTTP problem mapping and reads the message from errors", async () => {
+    const { client } = createClient(() => json({ errors: [{ message: "Resolver crashed" }] }, 500))
+
+    expect(await client.query("{ viewer { id } }")).toEqual({
+      kind: "server",
+      status: 500,
+      message: "Resolver crashed",
+    })
+  })
+})
+
+describe("fromConnection", () => {
+  it("reads nodes and the end cursor", () => {
+    const page = fromConnection(
+      {
+        kind: "ok",
+        data: {
+          products: {
+            edges: [{ node: { id: "1" } }, { node: { id: "2" } }],
+            pageInfo: { hasNextPage: true, endCursor: "c2" },
+            totalCount: 10,
+          },
+        },
+      },
+      (data) => data.products,
+    )
+
+    expect(page).toEqual({
+      data: [{ id: "1" }, { id: "2" }],
+      hasMore: true,
+      totalCount: 10,
+      nextCursor: "c2",
+    })
+  })
+
+  it("throws on problems", () => {
+    expect(() =>
+      fromConnection({ kind: "graphql", errors: [], message: "Boom" }, () => ({
+        pageInfo: { hasNextPage: false },
+      })),
+    ).toThrow("Boom")
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * graphql.ts
+ * GraphQL client sent through `ApiService`, so it shares auth, connectivity checks,
+ * problem mapping, retries and the network log with the REST calls
+ */
+
+import type { InfiniteListFetchResult } from "@/hooks/useInfiniteList"
+
+import type { ApiProblemDetails, GeneralApiProblem } from "./apiProblem"
+import { apiService, ApiResult, ApiService, RequestOptions } from "./ApiService"
+
+/**
+ * An entry of the GraphQL `errors` array
+ */
+export interface GraphQLError {
+  message: string
+  path?: (string | number)[]
+  extensions?: {
+    code?: string
+    [key: string]: unknown
+  }
+}
+
+/**
+ * A query or mutation. `hash` is the sha256 of `query`, computed at build time,
+ * for servers that accept persisted queries. Without `query`, only the hash is ever sent.
+ */
+export interface GraphQLDocument {
+  query?: string
+  hash?: string
+  operationName?: string
+}
+
+/**
+ * Errors without a code of their own, or the data of the fields that resolved
+ */
+export type GraphQLProblem = {
+  kind: "graphql"
+  errors: GraphQLError[]
+  data?: unknown
+} & ApiProblemDetails
+
+export type GraphQLResult<T> = ApiResult<T> | GraphQLProblem
+
+export interface GraphQLClientOptions {
+  service?: ApiService
+  /**
+   * Path of the endpoint, relative to the api url
+   */
+  path?: string
+}
+
+type GraphQLResponse<T> = { data?: T | null; errors?: GraphQLError[] }
+
+/**
+ * Problems for the `extensions.code` values of common servers
+ */
+const CODE_PROBLEMS = {
+  UNAUTHENTICATED: "unauthorized",
+  FORBIDDEN: "forbidden",
+  NOT_FOUND: "not-found",
+  CONFLICT: "conflict",
+  BAD_USER_INPUT: "validation",
+  GRAPHQL_VALIDATION_FAILED: "rejected",
+  GRAPHQL_PARSE_FAILED: "rejected",
+  INTERNAL_SERVER_ERROR: "server",
+} as const satisfies Record<string, GeneralApiProblem["kind"]>
+
+type KnownCodeError = GraphQLError & { extensions: { code: keyof typeof CODE_PROBLEMS } }
+
+const hasKnownCode = (error: GraphQLError): error is KnownCodeError =>
+  Object.prototype.hasOwnProperty.call(CODE_PROBLEMS, error.extensions?.code ?? "")
+
+const isPersistedQueryNotFound = (errors?: GraphQLError[]) =>
+  !!errors?.some(
+    (error) =>
+      error.extensions?.code === "PERSISTED_QUERY_NOT_FOUND" ||
+      error.message === "PersistedQueryNotFound",
+  )
+
+/**
+ * Maps a GraphQL `errors` array to a problem. The first error with a known code decides the kind.
+ *
+ * @param errors The `errors` of the response.
+ * @param data The data of the fields that resolved, if any.
+ */
+export function getGraphQLProblem(errors: GraphQLError[], data?: unknown): GraphQLResult<never> {
+  const message = errors[0]?.message
+  const known = errors.find(hasKnownCode)
+  const kind = known && CODE_PROBLEMS[known.extensions.code]
+
+  if (kind === "validation") {
+    const fieldErrors: Record<string, string[]> = {}
+    for (const error of errors) {
+      const field = String(
+        error.extensions?.field ??
+          error.extensions?.argumentName ??
+          error.path?.slice(-1)[0] ??
+          "base",
+      )
+      fieldErrors[field] = [...(fieldErrors[field] ?? []), error.message]
+    }
+    return { kind, errors: fieldErrors, message }
+  }
+  if (known && kind) {
+    return { kind, message: known.message }
+  }
+  return { kind: "graphql", errors, data: data ?? undefined, message }
+}
+
+export class GraphQLClient {
+  private service: ApiService
+  private path: string
+
+  constructor(options: GraphQLClientOptions = {}) {
+    this.service = options.service ?? apiService
+    this.path = options.path ?? "/graphql"
+  }
+
+  /**
+   * Run a query. Queries are retried like GETs.
+   *
+   * @param document The query, as a string or a persisted document.
+   * @param variables The variables of the query.
+   * @param options Request options, e.g. `signal`.
+   */
+  query<T, V extends Record<string, any> = Record<string, any>>(
+    document: string | GraphQLDocument,
+    variables?: V,
+    options: RequestOptions = {},
+  ): Promise<GraphQLResult<T>> {
+    // POST is not retried by default, but a query is as safe to send twice as a GET
+    const retry = options.retry === false ? false : { methods: ["post" as const], ...options.retry }
+    return this.request<T>(document, variables, { ...options, retry })
+  }
+
+  /**
+   * Run a mutation. Mutations are never retried, and can be queued offline with `queueable`.
+   *
+   * @param document The mutation, as a string or a persisted document.
+   * @param variables The variables of the mutation.
+   * @param options Request options, e.g. `idempotencyKey`.
+   */
+  mutate<T, V extends Record<string, any> = Record<string, any>>(
+    document: string | GraphQLDocument,
+    variables?: V,
+    options: RequestOptions = {},
+  ): Promise<GraphQLResult<T>> {
+    return this.request<T>(document, variables, options)
+  }
+
+  /**
+   * Send the hash first for persisted documents, and the full query when the server
+   * doesn't know the hash yet
+   */
+  private async request<T>(
+    document: string | GraphQLDocument,
+    variables: Record<string, any> | undefined,
+    options: RequestOptions,
+  ): Promise<GraphQLResult<T>> {
+    const { query, hash, operationName } =
+      typeof document === "string" ? { query: document } : document
+
+    let result = await this.send<T>(
+      {
+        operationName,
+        variables,
+        ...(hash
+          ? { extensions: { persistedQuery: { version: 1, sha256Hash: hash } } }
+          : { query }),
+      },
+      options,
+    )
+
+    if (hash && query && result.kind === "graphql" && isPersistedQueryNotFound(result.errors)) {
+      result = await this.send<T>(
+        {
+          operationName,
+          variables,
+          query,
+          extensions: { persistedQuery: { version: 1, sha256Hash: hash } },
+        },
+        options,
+      )
+    }
+
+    return result
+  }
+
+  private async send<T>(
+    body: Record<string, unknown>,
+    options: RequestOptions,
+  ): Promise<GraphQLResult<T>> {
+    const result = await this.service.post<GraphQLResponse<T>>(this.path, body, options)
+    if (result.kind !== "ok") return result
+
+    const { data, errors } = result.data ?? {}
+    if (errors?.length) return getGraphQLProblem(errors, data)
+    if (data === undefined || data === null) return { kind: "bad-data" }
+
+    return { ...result, data }
+  }
+}
+
+/**
+ * A Relay-style connection
+ */
+export interface Connection<TNode> {
+  edges?: ({ node: TNode; cursor?: string } | null)[] | null
+  nodes?: TNode[] | null
+  pageInfo: { hasNextPage: boolean; endCursor?: string | null }
+  totalCount?: number
+}
+
+/**
+ * Turns a query result holding a Relay connection into a page for `useInfiniteList`,
+ * throwing on problems. Use with `cursorPagination`, sending `{ first: pageSize, after: cursor }`.
+ *
+ * @param result The query result.
+ * @param select Picks the connection out of the data.
+ */
+export function fromConnection<TNode, T>(
+  result: GraphQLResult<T>,
+  select: (data: T) => Connection<TNode>,
+): InfiniteListFetchResult<TNode> {
+  if (result.kind !== "ok") {
+    throw new Error(result.kind === "queued" ? "Request queued" : (result.message ?? result.kind))
+  }
+
+  const connection = select(result.data)
+  const nodes =
+    connection.nodes ?? (connection.edges ?? []).flatMap((edge) => (edge ? [edge.node] : []))
+
+  return {
+    data: nodes,
+    hasMore: connection.pageInfo.hasNextPage,
+    totalCount: connection.totalCount,
+    nextCursor: connection.pageInfo.hasNextPage ? (connection.pageInfo.endCursor ?? null) : null,
+  }
+}
+
+// Singleton instance
+export const graphqlClient = new GraphQLClient()
+
+export default graphqlClient
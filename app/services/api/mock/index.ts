@@ -0,0 +1,59 @@
+/**
+ * mock/index.ts
+ * Local mock backend for development, switchable while the app runs
+ */
+
+import axios from "axios"
+
+import { load, save } from "@/utils/storage"
+
+import { ApiService, apiService } from "../ApiService"
+import { createMockAdapter, DEFAULT_MOCK_SETTINGS, MockRoute, MockSettings } from "./mockAdapter"
+import { mockRoutes } from "./routes"
+
+export * from "./mockAdapter"
+export { mockRoutes, resetMockData } from "./routes"
+export type { MockPage, MockProduct } from "./routes"
+
+export const MOCK_API_STORAGE_KEY = "mockApi"
+
+/**
+ * The persisted settings. The mock backend is never used outside dev builds. In dev builds it
+ * is on until switched off from the Debug screen or started with `EXPO_PUBLIC_MOCK_API=0`.
+ */
+export function getMockApiSettings(): MockSettings {
+  if (!__DEV__) return { ...DEFAULT_MOCK_SETTINGS, enabled: false }
+  return {
+    ...DEFAULT_MOCK_SETTINGS,
+    enabled: process.env.EXPO_PUBLIC_MOCK_API !== "0",
+    ...load<Partial<MockSettings>>(MOCK_API_STORAGE_KEY),
+  }
+}
+
+/**
+ * Changes the settings. They apply to the next request.
+ *
+ * @param changes The settings to change.
+ */
+export function setMockApiSettings(changes: Partial<MockSettings>): void {
+  save(MOCK_API_STORAGE_KEY, { ...getMockApiSettings(), ...changes })
+}
+
+/**
+ * Answers the requests of a service from the mock routes while the persisted
+ * settings have the mock enabled. Unmatched requests go to the network.
+ *
+ * @param service The service to mock. Defaults to the shared `apiService`.
+ * @param routes The fixture routes.
+ */
+export function installMockApi(
+  service: ApiService = apiService,
+  routes: MockRoute[] = mockRoutes,
+): void {
+  if (!__DEV__) return
+
+  const network = axios.getAdapter(axios.defaults.adapter)
+  service.setAdapter(
+    createMockAdapter(routes, { settings: getMockApiSettings, passthrough: network }),
+  )
+}
@@ -0,0 +1,127 @@
+import { ApiService } from "../ApiService"
+import { DEFAULT_RETRY_POLICY } from "../retry"
+import { createMockAdapter, json, matchPath, MockRoute, MockSettings } from "./mockAdapter"
+import { mockRoutes, resetMockData } from "./routes"
+
+function createService(routes: MockRoute[], settings: Partial<MockSettings> = {}) {
+  return new ApiService({
+    url: "https://api.test",
+    timeout: 1000,
+    retry: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 },
+    adapter: createMockAdapter(routes, { settings: { enabled: true, latency: 0, ...settings } }),
+  })
+}
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {})
+})
+
+test("matchPath", () => {
+  expect(matchPath("/products/:id", "/products/42")).toEqual({ id: "42" })
+  expect(matchPath("/products/:id", "/products")).toBeNull()
+  expect(matchPath("/products", "/orders")).toBeNull()
+})
+
+describe("mock adapter", () => {
+  beforeEach(() => resetMockData())
+
+  it("answers static fixtures and handlers with params", async () => {
+    const service = createService([
+      { method: "get", path: "/config", handler: { theme: "dark" } },
+      ...mockRoutes,
+    ])
+
+    expect(await service.get("/config")).toEqual({ kind: "ok", data: { theme: "dark" } })
+
+    const result = await service.get<any>("/products/product-2")
+    expect(result).toEqual({ kind: "ok", data: expect.objectContaining({ name: "Product 2" }) })
+  })
+
+  it("filters and paginates the product fixtures", async () => {
+    const service = createService(mockRoutes)
+
+    const result = await service.get<any>("/products", { category: "Home", pageSize: 10 })
+    expect(result.kind).toBe("ok")
+    if (result.kind !== "ok") return
+    expect(result.data.data).toHaveLength(10)
+    expect(result.data.data.every((p: any) => p.category === "Home")).toBe(true)
+    expect(result.data).toMatchObject({ hasMore: true, totalCount: 25 })
+  })
+
+  it("keeps in-memory state between calls", async () => {
+    const service = createService(mockRoutes)
+
+    await service.post("/products", { name: "Lamp", price: 20, category: "Home" })
+    const result = await service.get<any>("/products", { search: "lamp" })
+
+    expect(result.kind === "ok" && result.data.data).toEqual([
+      expect.objectContaining({ name: "Lamp" }),
+    ])
+  })
+
+  it("maps handler statuses to problems", async () => {
+    const service = createService([
+      { method: "get", path: "/gone", handler: () => json({ message: "Gone" }, 410) },
+      ...mockRoutes,
+    ])
+
+    expect(await service.post("/products", {})).toEqual({
+      kind: "validation",
+      errors: { name: ["Name is required"] },
+      status: 422,
+      message: "Invalid product",
+    })
+    expect(await service.get("/gone")).toEqual({ kind: "rejected", status: 410, message: "Gone" })
+    expect(await service.get("/nope/nope")).toMatchObject({ kind: "not-found" })
+  })
+
+  it.each([
+    ["timeout", { kind: "timeout" }],
+    ["cannot-connect", { kind: "cannot-connect" }],
+    ["server", { kind: "server", status: 500 }],
+    ["unauthorized", { kind: "unauthorized", status: 401 }],
+  ] as const)("forces %s problems", async (forcedProblem, expected) => {
+    const service = createService(mockRoutes, { forcedProblem })
+
+    expect(await service.get("/products", {}, { requireAuth: false })).toMatchObject(expected)
+  })
+
+  it("fails requests at the configured error rate", async () => {
+    const service = createService(mockRoutes, { errorRate: 1 })
+
+    expect(await service.get("/products")).toMatchObject({ kind: "server", status: 500 })
+  })
+
+  it("reads settings on every request", async () => {
+    const settings: Partial<MockSettings> = { enabled: true, latency: 0 }
+    const service = new ApiService({
+      url: "https://api.test",
+      timeout: 1000,
+      retry: false,
+      adapter: createMockAdapter(mockRoutes, {
+        settings: () => settings,
+        passthrough: async (config) => ({
+          status: 200,
+          statusText: "",
+          data: "network",
+          headers: {},
+          config,
+        }),
+      }),
+    })
+
+    expect(await service.get("/products/product-1")).toMatchObject({ kind: "ok" })
+    settings.enabled = false
+    expect(await service.get("/products/product-1")).toEqual({ kind: "ok", data: "network" })
+  })
+
+  it("aborts during the simulated latency", async () => {
+    const service = createService(mockRoutes, { latency: 1000 })
+    const controller = new AbortController()
+
+    const pending = service.get("/products", {}, { signal: controller.signal })
+    controller.abort()
+
+    expect(await pending).toEqual({ kind: "cancelled" })
+  })
+})
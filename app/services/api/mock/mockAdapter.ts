@@ -0,0 +1,295 @@
+/**
+ * mockAdapter.ts
+ * Axios adapter that answers requests from local fixture handlers
+ */
+
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from "axios"
+
+import type { HttpMethod } from "../types"
+
+/**
+ * Problems that can be forced on every mocked request
+ */
+export type MockProblem = "timeout" | "cannot-connect" | "server" | "unauthorized"
+
+/**
+ * How the mock backend behaves
+ */
+export interface MockSettings {
+  /**
+   * When off, every request goes to the real network
+   */
+  enabled: boolean
+  /**
+   * Milliseconds before answering, or a `[min, max]` range
+   */
+  latency: number | [number, number]
+  /**
+   * Share of requests, between 0 and 1, that fail with a 500
+   */
+  errorRate: number
+  /**
+   * Fails every mocked request with this problem
+   */
+  forcedProblem: MockProblem | null
+}
+
+export const DEFAULT_MOCK_SETTINGS: MockSettings = {
+  enabled: false,
+  latency: [200, 800],
+  errorRate: 0,
+  forcedProblem: null,
+}
+
+/**
+ * The request as seen by a fixture handler
+ */
+export interface MockRequest {
+  method: HttpMethod
+  /**
+   * Path relative to the base url, without the query string
+   */
+  path: string
+  /**
+   * Values of the `:name` segments of the route
+   */
+  params: Record<string, string>
+  query: Record<string, any>
+  body: any
+  headers: Record<string, string>
+}
+
+export interface MockResponse {
+  status?: number
+  data?: unknown
+  headers?: Record<string, string>
+}
+
+/**
+ * Static JSON, or a function that builds the response and may keep state between calls
+ */
+export type MockHandler = unknown | ((request: MockRequest) => MockResponse | Promise<MockResponse>)
+
+export interface MockRoute {
+  method: HttpMethod
+  /**
+   * e.g. "/products/:id"
+   */
+  path: string
+  handler: MockHandler
+  /**
+   * Overrides the latency of the settings for this route
+   */
+  latency?: number
+}
+
+export interface MockAdapterOptions {
+  /**
+   * Settings, or a getter so they can be changed while the app runs
+   */
+  settings?: Partial<MockSettings> | (() => Partial<MockSettings>)
+  /**
+   * Adapter for requests no route matches. Without it they fail with a 404.
+   */
+  passthrough?: AxiosAdapter
+}
+
+/**
+ * Wraps the return value of a handler: functions return a `MockResponse`, anything else is the body
+ */
+export const json = (
+  data: unknown,
+  status = 200,
+  headers?: Record<string, string>,
+): MockResponse => ({
+  status,
+  data,
+  headers,
+})
+
+/**
+ * Matches a path against a route pattern.
+ *
+ * @param pattern The route path, with `:name` segments.
+ * @param path The request path.
+ * @returns The segment values, or null when the path does not match.
+ */
+export function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split("/").filter(Boolean)
+  const pathParts = path.split("/").filter(Boolean)
+  if (patternParts.length !== pathParts.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(":")) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i])
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+/**
+ * Splits the request url into a path relative to the base url and its query.
+ * Absolute urls on other hosts have no path, so they never match a route.
+ */
+function parseUrl(config: InternalAxiosRequestConfig): {
+  path: string | null
+  query: Record<string, any>
+} {
+  let url = config.url ?? ""
+  const baseURL = config.baseURL ?? ""
+  if (/^https?:\/\//.test(url)) {
+    if (!baseURL || !url.startsWith(baseURL)) return { path: null, query: {} }
+    url = url.slice(baseURL.length)
+  }
+
+  const [path, search = ""] = url.split("?")
+  const query: Record<string, any> = {}
+  for (const pair of search.split("&").filter(Boolean)) {
+    const [key, value = ""] = pair.split("=")
+    query[decodeURIComponent(key)] = decodeURIComponent(value)
+  }
+  return { path: `/${path.replace(/^\/+/, "")}`, query: { ...query, ...config.params } }
+}
+
+function parseBody(data: unknown): any {
+  if (typeof data !== "string") return data
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+function getLatency(settings: MockSettings, route: MockRoute): number {
+  if (route.latency !== undefined) return route.latency
+  if (typeof settings.latency === "number") return settings.latency
+  const [min, max] = settings.latency
+  return Math.round(min + Math.random() * (max - min))
+}
+
+/**
+ * Waits like a network would, giving up as soon as the request is aborted
+ */
+function wait(ms: number, signal?: InternalAxiosRequestConfig["signal"]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError())
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener?.("abort", () => {
+      clearTimeout(timer)
+      reject(new CanceledError())
+    })
+  })
+}
+
+/**
+ * Creates an axios adapter that answers from the given routes.
+ * Responses outside 2xx are rejected like axios does, so apisauce maps them to the same problems.
+ *
+ * @param routes The fixture routes, matched in order.
+ * @param options Settings and the adapter for unmatched requests.
+ */
+export function createMockAdapter(
+  routes: MockRoute[],
+  options: MockAdapterOptions = {},
+): AxiosAdapter {
+  const getSettings = (): MockSettings => ({
+    ...DEFAULT_MOCK_SETTINGS,
+    ...(typeof options.settings === "function" ? options.settings() : options.settings),
+  })
+
+  const notFound: AxiosAdapter = async (config) =>
+    settle(config, { status: 404, data: { message: "No mock route" } })
+
+  return async (config) => {
+    const settings = getSettings()
+    const passthrough = options.passthrough ?? notFound
+    if (!settings.enabled) return passthrough(config)
+
+    const method = (config.method ?? "get").toLowerCase() as HttpMethod
+    const { path, query } = parseUrl(config)
+    if (path === null) return passthrough(config)
+
+    let match: { route: MockRoute; params: Record<string, string> } | null = null
+    for (const route of routes) {
+      const params = route.method === method ? matchPath(route.path, path) : null
+      if (params) {
+        match = { route, params }
+        break
+      }
+    }
+    if (!match) return passthrough(config)
+
+    const latency = getLatency(settings, match.route)
+    await wait(latency, config.signal)
+
+    switch (settings.forcedProblem) {
+      case "timeout":
+        throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, "ECONNABORTED", config)
+      case "cannot-connect":
+        throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config)
+      case "server":
+        return settle(config, { status: 500, data: { message: "Forced server error" } })
+      case "unauthorized":
+        return settle(config, { status: 401, data: { message: "Forced unauthorized" } })
+    }
+
+    if (settings.errorRate > 0 && Math.random() < settings.errorRate) {
+      return settle(config, { status: 500, data: { message: "Random mock failure" } })
+    }
+
+    const { handler } = match.route
+    const response =
+      typeof handler === "function"
+        ? await handler({
+            method,
+            path,
+            params: match.params,
+            query,
+            body: parseBody(config.data),
+            headers: { ...(config.headers as Record<string, string>) },
+          })
+        : json(handler)
+
+    return settle(config, response)
+  }
+}
+
+/**
+ * Resolves 2xx responses and rejects the rest, as axios does for real responses
+ */
+function settle(
+  config: InternalAxiosRequestConfig,
+  response: MockResponse,
+): Promise<AxiosResponse> {
+  const status = response.status ?? 200
+  const axiosResponse: AxiosResponse = {
+    status,
+    statusText: "",
+    data: response.data,
+    headers: response.headers ?? {},
+    config,
+  }
+  if (status >= 200 && status < 300) return Promise.resolve(axiosResponse)
+
+  return Promise.reject(
+    new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      axiosResponse,
+    ),
+  )
+}
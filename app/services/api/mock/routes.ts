@@ -0,0 +1,133 @@
+/**
+ * routes.ts
+ * Fixture routes of the mock backend used by the demo screens and generated list screens
+ */
+
+import { json, MockRequest, MockRoute } from "./mockAdapter"
+
+export interface MockProduct {
+  id: string
+  name: string
+  price: number
+  category: string
+  image: string
+}
+
+export interface MockPage<T> {
+  data: T[]
+  hasMore: boolean
+  totalCount: number
+}
+
+const CATEGORIES = ["Electronics", "Clothing", "Home", "Sports"]
+
+/**
+ * Prices follow the index so pages stay stable between requests
+ */
+const createProducts = (): MockProduct[] =>
+  Array.from({ length: 100 }, (_, i) => ({
+    id: `product-${i + 1}`,
+    name: `Product ${i + 1}`,
+    price: ((i * 37) % 100) + 10,
+    category: CATEGORIES[i % 4],
+    image: "",
+  }))
+
+/**
+ * In-memory state, kept until the app restarts or `resetMockData` is called
+ */
+let products = createProducts()
+
+export function resetMockData(): void {
+  products = createProducts()
+}
+
+/**
+ * Slices a list by the `page` and `pageSize` query params, pages starting at 1
+ */
+function paginate<T>(items: T[], query: MockRequest["query"]): MockPage<T> {
+  const page = Number(query.page ?? 1)
+  const pageSize = Number(query.pageSize ?? 20)
+  const start = (page - 1) * pageSize
+  const end = start + pageSize
+
+  return {
+    data: items.slice(start, end),
+    hasMore: end < items.length,
+    totalCount: items.length,
+  }
+}
+
+export const mockRoutes: MockRoute[] = [
+  {
+    method: "get",
+    path: "/products",
+    handler: ({ query }: MockRequest) => {
+      let filtered = products
+      if (query.search) {
+        const search = String(query.search).toLowerCase()
+        filtered = filtered.filter((p) => p.name.toLowerCase().includes(search))
+      }
+      if (query.category) {
+        filtered = filtered.filter((p) => p.category === query.category)
+      }
+      if (query.maxPrice) {
+        filtered = filtered.filter((p) => p.price <= Number(query.maxPrice))
+      }
+      return json(paginate(filtered, query))
+    },
+  },
+  {
+    method: "get",
+    path: "/products/:id",
+    handler: ({ params }: MockRequest) => {
+      const product = products.find((p) => p.id === params.id)
+      return product ? json(product) : json({ message: "Product not found" }, 404)
+    },
+  },
+  {
+    method: "post",
+    path: "/products",
+    handler: ({ body }: MockRequest) => {
+      if (!body?.name) {
+        return json({ message: "Invalid product", errors: { name: ["Name is required"] } }, 422)
+      }
+      const product: MockProduct = {
+        id: `product-${Date.now()}`,
+        name: body.name,
+        price: Number(body.price ?? 0),
+        category: body.category ?? CATEGORIES[0],
+        image: "",
+      }
+      products = [product, ...products]
+      return json(product, 201)
+    },
+  },
+  {
+    method: "delete",
+    path: "/products/:id",
+    handler: ({ params }: MockRequest) => {
+      products = products.filter((p) => p.id !== params.id)
+      return json(undefined, 204)
+    },
+  },
+  {
+    // Any other collection, so screens generated from the list template have data to show
+    method: "get",
+    path: "/:collection",
+    handler: ({ params, query }: MockRequest) => {
+      const items = Array.from({ length: 100 }, (_, i) => ({
+        id: `${params.collection}-${i + 1}`,
+        name: `${params.collection} ${i + 1}`,
+        description: `Description for item ${i + 1}`,
+      }))
+      const search = String(query.search ?? "").toLowerCase()
+      return json(
+        paginate(
+          items.filter((item) => item.name.toLowerCase().includes(search)),
+          query,
+        ),
+      )
+    },
+  },
+]
@@ -0,0 +1,140 @@
+import type { RequestPriority, RequestQueueMetrics } from "./types"
+
+const PRIORITIES: RequestPriority[] = ["high", "normal", "low"]
+
+type QueuedTask = {
+  start: () => void
+  queuedAt: number
+}
+
+type QueueListener = (metrics: RequestQueueMetrics) => void
+
+/**
+ * Caps the requests running at once. Waiting requests start by priority, then in order.
+ */
+export class RequestQueue {
+  private active = 0
+  private waiting: Record<RequestPriority, QueuedTask[]> = { high: [], normal: [], low: [] }
+  private sent = 0
+  private deduplicated = 0
+  private peakQueued = 0
+  private totalWait = 0
+  private listeners = new Set<QueueListener>()
+
+  constructor(private maxConcurrent: number = Infinity) {}
+
+  /**
+   * Run a task once a slot is free.
+   * A task whose signal aborts while waiting starts right away, so it can settle as cancelled.
+   *
+   * @param task Sends the request.
+   * @param priority Order in the queue.
+   * @param signal Aborts the request.
+   */
+  run<T>(task: () => Promise<T>, priority: RequestPriority = "normal", signal?: AbortSignal) {
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        queuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener("abort", onAbort)
+          this.active += 1
+          this.sent += 1
+          this.totalWait += Date.now() - queued.queuedAt
+          this.notify()
+
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active -= 1
+              this.next()
+            })
+        },
+      }
+
+      const onAbort = () => {
+        const tasks = this.waiting[priority]
+        const index = tasks.indexOf(queued)
+        if (index === -1) return
+        tasks.splice(index, 1)
+        // Skips the limit: an aborted request settles without using the network
+        queued.start()
+      }
+
+      if (this.active < this.maxConcurrent && this.size === 0) {
+        queued.start()
+        return
+      }
+
+      this.waiting[priority].push(queued)
+      this.peakQueued = Math.max(this.peakQueued, this.size)
+      signal?.addEventListener("abort", onAbort)
+      this.notify()
+    })
+  }
+
+  /**
+   * Count a GET answered by a request already in flight.
+   */
+  recordDeduplicated(): void {
+    this.deduplicated += 1
+    this.notify()
+  }
+
+  /**
+   * Change the limit, starting waiting requests when it grows.
+   */
+  setMaxConcurrent(maxConcurrent: number): void {
+    this.maxConcurrent = maxConcurrent
+    this.next()
+  }
+
+  getMetrics(): RequestQueueMetrics {
+    return {
+      active: this.active,
+      queued: {
+        high: this.waiting.high.length,
+        normal: this.waiting.normal.length,
+        low: this.waiting.low.length,
+      },
+      maxConcurrent: this.maxConcurrent,
+      sent: this.sent,
+      deduplicated: this.deduplicated,
+      peakQueued: this.peakQueued,
+      averageWait: this.sent ? Math.round(this.totalWait / this.sent) : 0,
+    }
+  }
+
+  /**
+   * Subscribe to metric changes.
+   *
+   * @returns A function that unsubscribes.
+   */
+  onChange(listener: QueueListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private get size(): number {
+    return PRIORITIES.reduce((total, priority) => total + this.waiting[priority].length, 0)
+  }
+
+  /**
+   * Start waiting tasks while there are free slots
+   */
+  private next(): void {
+    while (this.active < this.maxConcurrent) {
+      const priority = PRIORITIES.find((candidate) => this.waiting[candidate].length > 0)
+      if (!priority) break
+      this.waiting[priority].shift()!.start()
+    }
+    this.notify()
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return
+    const metrics = this.getMetrics()
+    this.listeners.forEach((listener) => listener(metrics))
+  }
+}
@@ -0,0 +1,37 @@
+import { ApiErrorResponse } from "apisauce"
+
+import { DEFAULT_RETRY_POLICY, getRetryDelay, shouldRetry } from "./retry"
+
+const policy = { ...DEFAULT_RETRY_POLICY, jitter: false }
+
+test("retries temporary problems on idempotent methods only", () => {
+  const timeout = { ok: false, problem: "TIMEOUT_ERROR" } as ApiErrorResponse<null>
+  expect(shouldRetry(timeout, policy, "get")).toBe(true)
+  expect(shouldRetry(timeout, policy, "post")).toBe(false)
+})
+
+test("retries listed statuses but not other client errors", () => {
+  const tooMany = { ok: false, problem: "CLIENT_ERROR", status: 429 } as ApiErrorResponse<null>
+  const notFound = { ok: false, problem: "CLIENT_ERROR", status: 404 } as ApiErrorResponse<null>
+  expect(shouldRetry(tooMany, policy, "get")).toBe(true)
+  expect(shouldRetry(notFound, policy, "get")).toBe(false)
+})
+
+test("backs off exponentially up to the max delay", () => {
+  const timeout = { ok: false, problem: "TIMEOUT_ERROR" } as ApiErrorResponse<null>
+  expect(getRetryDelay(timeout, policy, 1)).toBe(500)
+  expect(getRetryDelay(timeout, policy, 2)).toBe(1000)
+  expect(getRetryDelay(timeout, policy, 10)).toBe(10000)
+})
+
+test("honors Retry-After unless it exceeds the max delay", () => {
+  const withHeader = (value: string) =>
+    ({
+      ok: false,
+      problem: "SERVER_ERROR",
+      status: 503,
+      headers: { "retry-after": value } as Record<string, string>,
+    }) as ApiErrorResponse<null>
+  expect(getRetryDelay(withHeader("2"), policy, 1)).toBe(2000)
+  expect(getRetryDelay(withHeader("120"), policy, 1)).toBeNull()
+})
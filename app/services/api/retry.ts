@@ -0,0 +1,65 @@
+import { ApiResponse } from "apisauce"
+
+import { getGeneralApiProblem, parseRetryAfter } from "./apiProblem"
+import type { HttpMethod, RetryPolicy } from "./types"
+
+/**
+ * Retries temporary problems on idempotent requests, three attempts in total.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  backoffFactor: 2,
+  jitter: true,
+  retryOn: ["timeout", "cannot-connect", "unknown"],
+  retryOnStatus: [429, 503],
+  methods: ["get", "head", "options", "put", "delete"],
+}
+
+/**
+ * Decides whether a failed response should be sent again.
+ *
+ * @param response The api response.
+ * @param policy The retry policy.
+ * @param method The request method.
+ */
+export function shouldRetry(
+  response: ApiResponse<any>,
+  policy: RetryPolicy,
+  method: HttpMethod,
+): boolean {
+  // 304 only fails because axios treats it as an error, it is an answer like any 2xx
+  if (response.ok || response.status === 304 || !policy.methods.includes(method)) return false
+  if (response.status && policy.retryOnStatus.includes(response.status)) return true
+
+  const problem = getGeneralApiProblem(response)
+  return !!problem && policy.retryOn.includes(problem.kind)
+}
+
+/**
+ * Milliseconds to wait before the next attempt, or null when the server asks us
+ * to wait longer than the policy allows.
+ *
+ * @param response The failed api response.
+ * @param policy The retry policy.
+ * @param attempt The attempt that just failed, starting at 1.
+ */
+export function getRetryDelay(
+  response: ApiResponse<any>,
+  policy: RetryPolicy,
+  attempt: number,
+): number | null {
+  if (response.status === 429 || response.status === 503) {
+    const retryAfter = parseRetryAfter(
+      response.headers?.["retry-after"] ?? response.headers?.["Retry-After"],
+    )
+    if (retryAfter !== null) return retryAfter <= policy.maxDelay ? retryAfter : null
+  }
+
+  const backoff = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(policy.backoffFactor, attempt - 1),
+  )
+  return policy.jitter ? Math.round(Math.random() * backoff) : backoff
+}
@@ -1,3 +1,7 @@
+import type { AxiosAdapter } from "axios"
+
+import type { GeneralApiProblem } from "./apiProblem"
+
 /**
  * These types indicate the shape of the data you expect to receive from your
  * API endpoint, assuming it's a JSON object like we have.
@@ -47,4 +51,160 @@ export interface ApiConfig {
    * Milliseconds before we timeout the request.
    */
   timeout: number
+
+  /**
+   * Path of the token refresh endpoint, relative to `url`.
+   */
+  refreshPath?: string
+
+  /**
+   * Milliseconds before the access token expires from which requests refresh it first,
+   * instead of waiting for a 401.
+   */
+  refreshMargin?: number
+
+  /**
+   * Default retry policy for temporary problems. `false` disables retries.
+   */
+  retry?: RetryPolicy | false
+
+  /**
+   * Transport for every request, e.g. the mock backend. Defaults to the network.
+   */
+  adapter?: AxiosAdapter
+
+  /**
+   * Requests sent at the same time. The others wait in a priority queue.
+   */
+  maxConcurrent?: number
+
+  /**
+   * Share one network call between identical GETs in flight. Defaults to true.
+   */
+  dedupe?: boolean
+}
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete" | "head" | "options"
+
+/**
+ * How failed requests are retried with exponential backoff.
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first one.
+   */
+  maxAttempts: number
+
+  /**
+   * Milliseconds to wait before the first retry.
+   */
+  baseDelay: number
+
+  /**
+   * Upper bound for a single wait, including `Retry-After`. Longer `Retry-After` values end the retries.
+   */
+  maxDelay: number
+
+  /**
+   * Multiplier applied to the delay after every attempt.
+   */
+  backoffFactor: number
+
+  /**
+   * Randomize each delay between zero and the backoff value to spread out retries.
+   */
+  jitter: boolean
+
+  /**
+   * Problem kinds that are retried.
+   */
+  retryOn: GeneralApiProblem["kind"][]
+
+  /**
+   * HTTP statuses that are retried, honoring their `Retry-After` header.
+   */
+  retryOnStatus: number[]
+
+  /**
+   * Methods that are safe to send more than once.
+   */
+  methods: HttpMethod[]
+}
+
+/**
+ * Order in the request queue: `high` for calls the user is waiting on, `low` for prefetches.
+ */
+export type RequestPriority = "high" | "normal" | "low"
+
+/**
+ * Snapshot of the request queue, for debugging.
+ */
+export interface RequestQueueMetrics {
+  /**
+   * Requests on the network.
+   */
+  active: number
+
+  /**
+   * Requests waiting for a free slot, per priority.
+   */
+  queued: Record<RequestPriority, number>
+
+  maxConcurrent: number
+
+  /**
+   * Requests sent since the app started.
+   */
+  sent: number
+
+  /**
+   * GETs answered by a request already in flight instead of their own.
+   */
+  deduplicated: number
+
+  /**
+   * Longest the queue has been.
+   */
+  peakQueued: number
+
+  /**
+   * Average milliseconds spent waiting for a slot.
+   */
+  averageWait: number
+}
+
+/**
+ * The payload returned by the token refresh endpoint.
+ */
+export interface RefreshTokenResponse {
+  /**
+   * The new short-lived access token.
+   */
+  accessToken: string
+
+  /**
+   * A rotated refresh token. When omitted the current refresh token stays valid.
+   */
+  refreshToken?: string
+
+  /**
+   * Lifetime of the new access token, in seconds.
+   */
+  expiresIn?: number
+}
+
+/**
+ * The payload returned by the token endpoint of an OAuth2 identity provider (RFC 6749).
+ */
+export interface OAuthTokenResponse {
+  access_token: string
+  refresh_token?: string
+  /**
+   * Lifetime of the access token, in seconds.
+   */
+  expires_in?: number
+  /**
+   * OpenID Connect identity of the user, a JWT.
+   */
+  id_token?: string
 }
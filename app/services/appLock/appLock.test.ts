@@ -0,0 +1,80 @@
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { clearPin, getLockedUntil, hasPin, MAX_PIN_ATTEMPTS, setPin, verifyPin } from "./index"
+
+jest.mock("expo-crypto", () => {
+  const { createHash, randomBytes } = require("crypto")
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    digestStringAsync: async (_algorithm: string, data: string) =>
+      createHash("sha256").update(data).digest("hex"),
+    getRandomBytes: (count: number) => new Uint8Array(randomBytes(count)),
+  }
+})
+
+beforeEach(() => {
+  secureStorage.clearAll()
+  jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") })
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+})
+
+test("stores only a salted hash of the PIN", async () => {
+  await setPin("1234")
+
+  expect(hasPin()).toBe(true)
+  const stored = secureStorage.getString("appLock.pin")!
+  expect(stored).not.toContain("1234")
+
+  expect(await verifyPin("1234")).toEqual({ kind: "ok" })
+  expect(await verifyPin("4321")).toMatchObject({ kind: "wrong" })
+})
+
+test("rejects PINs that are not 4 to 6 digits", async () => {
+  await expect(setPin("123")).rejects.toThrow()
+  await expect(setPin("1234567")).rejects.toThrow()
+  await expect(setPin("12a4")).rejects.toThrow()
+})
+
+test("makes later attempts wait longer and longer", async () => {
+  await setPin("1234")
+
+  expect(await verifyPin("0000")).toEqual({ kind: "wrong", attemptsLeft: 9 })
+  expect(await verifyPin("0000")).toEqual({ kind: "wrong", attemptsLeft: 8 })
+  expect(await verifyPin("0000")).toEqual({
+    kind: "wrong",
+    attemptsLeft: 7,
+    lockedUntil: Date.now() + 30000,
+  })
+
+  // Not even the right PIN is checked while locked
+  expect(await verifyPin("1234")).toMatchObject({ kind: "locked" })
+
+  jest.advanceTimersByTime(30000)
+  expect(getLockedUntil()).toBeUndefined()
+  expect(await verifyPin("0000")).toMatchObject({ lockedUntil: Date.now() + 60000 })
+
+  jest.advanceTimersByTime(60000)
+  expect(await verifyPin("1234")).toEqual({ kind: "ok" })
+  // A right PIN starts the count over
+  expect(await verifyPin("0000")).toEqual({ kind: "wrong", attemptsLeft: 9 })
+})
+
+test("gives up after too many wrong PINs", async () => {
+  await setPin("1234")
+
+  let result
+  for (let attempt = 0; attempt < MAX_PIN_ATTEMPTS; attempt++) {
+    jest.advanceTimersByTime(60 * 60 * 1000)
+    result = await verifyPin("0000")
+  }
+
+  expect(result).toEqual({ kind: "exceeded" })
+  jest.advanceTimersByTime(60 * 60 * 1000)
+  expect(await verifyPin("1234")).toEqual({ kind: "exceeded" })
+
+  clearPin()
+  expect(hasPin()).toBe(false)
+})
@@ -0,0 +1,130 @@
+/**
+ * appLock/index.ts
+ * PIN that unlocks the app on resume. Only a salted hash of it is kept, in the encrypted storage.
+ */
+
+import * as Crypto from "expo-crypto"
+
+import { secureItem } from "@/utils/storage/secureStorage"
+
+export const PIN_PATTERN = /^\d{4,6}$/
+export const PIN_MAX_LENGTH = 6
+
+/**
+ * Wrong PINs allowed before the user is signed out
+ */
+export const MAX_PIN_ATTEMPTS = 10
+
+/**
+ * Wrong PINs allowed before each further attempt waits
+ */
+const FREE_PIN_ATTEMPTS = 3
+const FIRST_DELAY = 30 * 1000
+const MAX_DELAY = 15 * 60 * 1000
+
+interface StoredPin {
+  salt: string
+  hash: string
+}
+
+interface PinAttempts {
+  failures: number
+  /**
+   * No attempt is accepted before this time, in milliseconds since epoch
+   */
+  lockedUntil?: number
+}
+
+export const PIN_STORAGE_KEY = "appLock.pin"
+
+const pinItem = secureItem<StoredPin>(PIN_STORAGE_KEY)
+// Kept with the PIN so restarting the app doesn't reset the count
+const attemptsItem = secureItem<PinAttempts>("appLock.attempts")
+
+/**
+ * - `ok`: the PIN is right
+ * - `wrong`: the PIN is wrong, `lockedUntil` is set when the next attempt has to wait
+ * - `locked`: tried before `lockedUntil`, the PIN was not checked
+ * - `exceeded`: too many wrong PINs, the user must sign in again
+ */
+export type PinResult =
+  | { kind: "ok" }
+  | { kind: "wrong"; attemptsLeft: number; lockedUntil?: number }
+  | { kind: "locked"; lockedUntil: number }
+  | { kind: "exceeded" }
+
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`)
+
+/**
+ * Delay before the next attempt, doubled with every failure past the free ones
+ */
+const getDelay = (failures: number) =>
+  failures < FREE_PIN_ATTEMPTS
+    ? 0
+    : Math.min(MAX_DELAY, FIRST_DELAY * 2 ** (failures - FREE_PIN_ATTEMPTS))
+
+export function hasPin(): boolean {
+  return !!pinItem.get()
+}
+
+/**
+ * Stores a new PIN, replacing the current one.
+ *
+ * @param pin 4 to 6 digits.
+ */
+export async function setPin(pin: string): Promise<void> {
+  if (!PIN_PATTERN.test(pin)) {
+    throw new Error("A PIN has 4 to 6 digits")
+  }
+  const salt = btoa(String.fromCharCode(...Crypto.getRandomBytes(16)))
+  pinItem.set({ salt, hash: await hashPin(pin, salt) })
+  attemptsItem.remove()
+}
+
+/**
+ * Checks a PIN, counting wrong ones.
+ *
+ * @param pin The PIN entered.
+ */
+export async function verifyPin(pin: string): Promise<PinResult> {
+  const stored = pinItem.get()
+  if (!stored) return { kind: "exceeded" }
+
+  const attempts = attemptsItem.get() ?? { failures: 0 }
+  if (attempts.failures >= MAX_PIN_ATTEMPTS) return { kind: "exceeded" }
+  if (attempts.lockedUntil && Date.now() < attempts.lockedUntil) {
+    return { kind: "locked", lockedUntil: attempts.lockedUntil }
+  }
+
+  if ((await hashPin(pin, stored.salt)) === stored.hash) {
+    attemptsItem.remove()
+    return { kind: "ok" }
+  }
+
+  const failures = attempts.failures + 1
+  if (failures >= MAX_PIN_ATTEMPTS) {
+    attemptsItem.set({ failures })
+    return { kind: "exceeded" }
+  }
+  const delay = getDelay(failures)
+  const lockedUntil = delay ? Date.now() + delay : undefined
+  attemptsItem.set({ failures, lockedUntil })
+  return { kind: "wrong", attemptsLeft: MAX_PIN_ATTEMPTS - failures, lockedUntil }
+}
+
+/**
+ * When the next attempt is accepted, or undefined when it is now.
+ */
+export function getLockedUntil(): number | undefined {
+  const lockedUntil = attemptsItem.get()?.lockedUntil
+  return lockedUntil && lockedUntil > Date.now() ? lockedUntil : undefined
+}
+
+/**
+ * Forgets the PIN and the failed attempts, e.g. when signing out.
+ */
+export function clearPin(): void {
+  pinItem.remove()
+  attemptsItem.remove()
+}
@@ -0,0 +1,106 @@
+/**
+ * auth/index.ts
+ * Sign-in, registration and password reset endpoints, and the session they start
+ */
+
+import * as yup from "yup"
+
+import { defineEndpoint } from "@/services/api/defineEndpoint"
+import apiConfig from "@/services/api/env"
+import type { RefreshTokenResponse } from "@/services/api/types"
+import { setSession } from "@/services/session"
+
+/**
+ * Tokens returned when signing in or registering
+ */
+export interface AuthResponse extends RefreshTokenResponse {
+  userId?: string
+}
+
+export interface LoginBody {
+  email: string
+  password: string
+}
+
+export interface RegisterBody {
+  name: string
+  email: string
+  password: string
+}
+
+export interface ResetPasswordBody {
+  email: string
+  /**
+   * Token returned by `verifyResetCode`
+   */
+  resetToken: string
+  password: string
+}
+
+const authResponseSchema: yup.ObjectSchema<AuthResponse> = yup.object({
+  accessToken: yup.string().required(),
+  refreshToken: yup.string(),
+  expiresIn: yup.number(),
+  userId: yup.string(),
+})
+
+const paths = apiConfig.authPaths
+
+// None of these send the current token, and a 401 is a wrong password, not an expired session
+const options = { requireAuth: false }
+
+export const authEndpoints = {
+  login: defineEndpoint<void, LoginBody>()({
+    method: "post",
+    path: paths.login,
+    response: authResponseSchema,
+    options,
+  }),
+  register: defineEndpoint<void, RegisterBody>()({
+    method: "post",
+    path: paths.register,
+    response: authResponseSchema,
+    options,
+  }),
+  /**
+   * Emails a code to reset the password
+   */
+  requestPasswordReset: defineEndpoint<void, { email: string }>()({
+    method: "post",
+    path: paths.requestPasswordReset,
+    response: yup.mixed(),
+    options,
+  }),
+  /**
+   * Exchanges the emailed code for a token that allows one password reset
+   */
+  verifyResetCode: defineEndpoint<void, { email: string; code: string }>()({
+    method: "post",
+    path: paths.verifyResetCode,
+    response: yup.object({ resetToken: yup.string().required() }),
+    options,
+  }),
+  resetPassword: defineEndpoint<void, ResetPasswordBody>()({
+    method: "post",
+    path: paths.resetPassword,
+    response: yup.mixed(),
+    options,
+  }),
+}
+
+/**
+ * Stores the session of a successful sign-in or registration, which signs the user in.
+ * The account joins the ones already signed in and becomes the active one.
+ *
+ * @param response The tokens returned by the server.
+ * @param email The email the user signed in with.
+ */
+export function startSession(response: AuthResponse, email?: string): void {
+  setSession({
+    accessToken: response.accessToken,
+    refreshToken: response.refreshToken,
+    expiresAt: response.expiresIn ? Date.now() + response.expiresIn * 1000 : undefined,
+    userId: response.userId,
+    email,
+  })
+}
@@ -0,0 +1,59 @@
+import { getAuthorization, hasPermission } from "./index"
+
+/**
+ * An unsigned token carrying `claims`
+ */
+const token = (claims: Record<string, unknown>) =>
+  ["header", Buffer.from(JSON.stringify(claims)).toString("base64url"), "signature"].join(".")
+
+describe("getAuthorization", () => {
+  it("grants the permissions of the roles and of the token", () => {
+    const authorization = getAuthorization(
+      token({ roles: ["staff"], permissions: ["downloads:view"] }),
+    )
+
+    expect(authorization).toEqual({
+      roles: ["staff"],
+      permissions: ["downloads:view", "data:view", "lists:view"],
+    })
+  })
+
+  it("reads a single role and space separated scopes", () => {
+    expect(getAuthorization(token({ role: "supervisor", scope: "components:view" }))).toEqual({
+      roles: ["supervisor"],
+      permissions: ["components:view", "data:*", "lists:view", "downloads:view"],
+    })
+  })
+
+  it("adds the roles and permissions of the profile to an opaque token", () => {
+    expect(
+      getAuthorization("opaque-token", { roles: ["staff"], permissions: ["downloads:view"] }),
+    ).toEqual({
+      roles: ["staff"],
+      permissions: ["downloads:view", "data:view", "lists:view"],
+    })
+  })
+
+  it("merges the roles of the token and of the profile", () => {
+    expect(getAuthorization(token({ role: "staff" }), { roles: ["supervisor", "staff"] })).toEqual({
+      roles: ["staff", "supervisor"],
+      permissions: ["data:view", "lists:view", "data:*", "downloads:view"],
+    })
+  })
+
+  it("grants nothing without a readable token", () => {
+    expect(getAuthorization("opaque-token")).toEqual({ roles: [], permissions: [] })
+    expect(getAuthorization(undefined)).toEqual({ roles: [], permissions: [] })
+  })
+})
+
+describe("hasPermission", () => {
+  it("follows wildcards", () => {
+    const supervisor = getAuthorization(token({ roles: ["supervisor"] }))
+    const admin = getAuthorization(token({ roles: ["admin"] }))
+
+    expect(hasPermission(supervisor, "data:edit")).toBe(true)
+    expect(hasPermission(supervisor, "developer:view")).toBe(false)
+    expect(hasPermission(admin, "developer:view")).toBe(true)
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * authorization/index.ts
+ * Roles and permissions of the active account, read from the claims of its access token
+ * and from its profile
+ */
+
+import { translate } from "@/i18n/translate"
+import { decodeJwt, JwtClaims } from "@/utils/jwt"
+
+/**
+ * What the app lets a user do. `*` grants everything, `data:*` everything on data.
+ */
+export type Permission =
+  | "data:view"
+  | "data:edit"
+  | "lists:view"
+  | "components:view"
+  | "downloads:view"
+  | "developer:view"
+
+export type Role = "admin" | "supervisor" | "staff"
+
+/**
+ * Permissions granted by each role, on top of the ones in the token
+ */
+export const ROLE_PERMISSIONS: Record<Role, string[]> = {
+  admin: ["*"],
+  supervisor: ["data:*", "lists:view", "downloads:view"],
+  staff: ["data:view", "lists:view"],
+}
+
+/**
+ * Known roles, from the most to the least privileged
+ */
+const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[]
+
+export interface Authorization {
+  roles: string[]
+  permissions: string[]
+}
+
+/**
+ * Where servers commonly put roles and permissions
+ */
+interface AuthorizationClaims extends JwtClaims {
+  role?: string
+  roles?: string[] | string
+  permissions?: string[]
+  /**
+   * Space separated, as in OAuth2 scopes
+   */
+  scope?: string
+}
+
+/**
+ * What a user without roles or permissions may do: only screens that require nothing
+ */
+export const NO_AUTHORIZATION: Authorization = { roles: [], permissions: [] }
+
+const toList = (value?: string[] | string) =>
+  Array.isArray(value) ? value : value ? value.split(" ").filter(Boolean) : []
+
+/**
+ * Reads the roles and permissions of an access token, adding the ones granted elsewhere.
+ * Opaque tokens carry no claims, so their account relies on `granted` alone.
+ *
+ * @param accessToken The access token of the active account.
+ * @param granted Roles and permissions of the account from the server, e.g. its profile.
+ */
+export function getAuthorization(
+  accessToken?: string | null,
+  granted: Partial<Authorization> = {},
+): Authorization {
+  const claims = decodeJwt<AuthorizationClaims>(accessToken) ?? {}
+
+  const roles = [
+    ...new Set([...toList(claims.roles), ...toList(claims.role), ...(granted.roles ?? [])]),
+  ]
+  const permissions = new Set([
+    ...toList(claims.permissions),
+    ...toList(claims.scope),
+    ...(granted.permissions ?? []),
+  ])
+  roles.forEach((role) => ROLE_PERMISSIONS[role as Role]?.forEach((p) => permissions.add(p)))
+
+  return { roles, permissions: [...permissions] }
+}
+
+/**
+ * Checks a permission, following `*` wildcards.
+ *
+ * @param authorization The roles and permissions of the user.
+ * @param permission The permission required.
+ */
+export function hasPermission(authorization: Authorization, permission: Permission): boolean {
+  const [resource] = permission.split(":")
+  return authorization.permissions.some(
+    (granted) => granted === "*" || granted === permission || granted === `${resource}:*`,
+  )
+}
+
+/**
+ * Name of the most privileged known role, for display.
+ *
+ * @param roles The roles of the user.
+ * @returns The name, or undefined without a known role.
+ */
+export function getRoleLabel(roles: string[]): string | undefined {
+  const role = ROLES.find((known) => roles.includes(known))
+  return role && translate(`roles:${role}`)
+}
@@ -0,0 +1,203 @@
+import apiConfig from "@/services/api/env"
+import { setSession } from "@/services/session"
+import { storage } from "@/utils/storage"
+
+import { DownloadManager, DownloadTask, DownloadTaskOptions } from "./DownloadManager"
+
+import { getDownloads } from "./index"
+
+/**
+ * Fake `DownloadResumable`s that finish when the test says so
+ */
+function createTasks() {
+  const tasks: (DownloadTaskOptions & { finish: (status?: number) => void })[] = []
+
+  const createTask = (options: DownloadTaskOptions): DownloadTask => {
+    let finish: (result: { status: number } | undefined) => void = () => {}
+    const task = {
+      ...options,
+      finish: (status = 200) => {
+        options.onProgress(100, 100)
+        finish({ status })
+      },
+    }
+    tasks.push(task)
+
+    return {
+      start: () =>
+        new Promise((resolve) => {
+          finish = resolve
+        }),
+      pause: async () => {
+        finish(undefined)
+        return { resumeData: "saved" }
+      },
+      cancel: async () => finish(undefined),
+    }
+  }
+
+  return { tasks, createTask }
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+beforeEach(() => {
+  storage.clearAll()
+})
+
+test("downloads a file and records its size", async () => {
+  const { tasks, createTask } = createTasks()
+  const manager = new DownloadManager({ directory: "file:///docs/", createTask })
+
+  const entry = manager.download("https://cdn.test/files/report.pdf")
+  expect(entry).toMatchObject({ fileName: "report.pdf", status: "queued" })
+  expect(tasks[0].fileUri).toBe(`file:///docs/${entry.id}-report.pdf`)
+
+  tasks[0].finish()
+  await settle()
+
+  expect(getDownloads()[0]).toMatchObject({
+    status: "completed",
+    bytesWritten: 100,
+    totalBytes: 100,
+  })
+})
+
+test("does not download the same url twice", () => {
+  const { tasks, createTask } = createTasks()
+  const manager = new DownloadManager({ createTask })
+
+  const first = manager.download("https://cdn.test/a.zip")
+  const second = manager.download("https://cdn.test/a.zip")
+
+  expect(second.id).toBe(first.id)
+  expect(tasks).toHaveLength(1)
+  expect(getDownloads()).toHaveLength(1)
+})
+
+test("sends the session token to the api only", () => {
+  setSession({ accessToken: "token" })
+  const { tasks, createTask } = createTasks()
+  const manager = new DownloadManager({ createTask })
+
+  manager.download("/files/1.pdf")
+  manager.download("https://cdn.test/2.pdf", { headers: { "X-Key": "key" } })
+
+  expect(tasks[0].headers).toEqual({ Authorization: "Bearer token" })
+  expect(tasks[1].headers).toEqual({ "X-Key": "key" })
+})
+
+test("does not send the session token to hosts that only start like the api", () => {
+  setSession({ accessToken: "token" })
+  const { tasks, createTask } = createTasks()
+  const manager = new DownloadManager({ createTask })
+
+  apiConfig.setBaseUrl("https://api.test")
+
+  manager.download("https://api.test.evil.io/1.pdf")
+  manager.download("https://api.test/files/2.pdf")
+
+  expect(tasks[0].headers).toEqual({})
+  expect(tasks[1].headers).toEqual({ Authorization: "Bearer token" })
+})
+
+test("resumes downloads stopped with the app, with their headers", async () => {
+  const { tasks, createTask } = createTasks()
+  const readResumeData = jest.fn(async () => "512")
+  new DownloadManager({ createTask }).download("https://cdn.test/video.mp4", {
+    headers: { "X-Key": "key", "Authorization": "Bearer cdn" },
+  })
+  expect(JSON.stringify(getDownloads())).not.toContain("Bearer cdn")
+
+  // A new run of the app, with the entry still marked as downloading
+  const manager = new DownloadManager({ createTask, readResumeData })
+  await manager.resumeAll()
+
+  expect(readResumeData).toHaveBeenCalledWith(getDownloads()[0].fileUri)
+  expect(tasks[1]).toMatchObject({ headers: { "X-Key": "key" }, resumeData: "512" })
+})
+
+test("pauses and resumes from the saved position", async () => {
+  const { tasks, createTask } = createTasks()
+  const manager = new DownloadManager({ createTask })
+
+  const entry = manager.download("https://cdn.test/video.mp4")
+  await manager.pause(entry.id)
+  await settle()
+
+  expect(getDownloads()[0]).toMatchObject({ status: "paused", resumeData: "saved" })
+
+  manager.resume(entry.id)
+  expect(tasks[1].resumeData).toBe("saved")
+
+  tasks[1].finish()
+  await settle()
+
+  expect(getDownloads()[0].status).toBe("completed")
+  expect(getDownloads()[0].resumeData).toBeUndefined()
+})
+
+test("fails on error responses and retries from the start", async () => {
+  const { tasks, createTask } = createTasks()
+  const deleteFile = jest.fn(async () => true)
+  const manager = new DownloadManager({ createTask, deleteFile })
+
+  const entry = manager.download("https://cdn.test/missing.pdf")
+  tasks[0].finish(404)
+  await settle()
+
+  expect(getDownloads()[0]).toMatchObject({ status: "failed", lastError: "HTTP 404" })
+  expect(deleteFile).toHaveBeenCalledWith(entry.fileUri)
+
+  await manager.retry(entry.id)
+  expect(tasks).toHaveLength(2)
+  expect(tasks[1].resumeData).toBeUndefined()
+})
+
+test("limits the downloads running at once", async () => {
+  const { tasks, createTask } = createTasks()
+  const manager = new DownloadManager({ createTask, concurrency: 2 })
+
+  manager.download("https://cdn.test/1")
+  manager.download("https://cdn.test/2")
+  manager.download("https://cdn.test/3")
+  expect(tasks).toHaveLength(2)
+
+  tasks[0].finish()
+  await settle()
+
+  expect(tasks).toHaveLength(3)
+})
+
+test("remove cancels the download and deletes the file", async () => {
+  const { createTask } = createTasks()
+  const deleteFile = jest.fn(async () => true)
+  const manager = new DownloadManager({ createTask, deleteFile })
+
+  const entry = manager.download("https://cdn.test/big.iso")
+  await manager.remove(entry.id)
+  await settle()
+
+  expect(getDownloads()).toEqual([])
+  expect(deleteFile).toHaveBeenCalledWith(entry.fileUri)
+})
+
+test("finishes downloads for the account that started them and deletes them on sign out", async () => {
+  const { tasks, createTask } = createTasks()
+  const deleteFile = jest.fn(async () => true)
+  const manager = new DownloadManager({ directory: "file:///docs/", createTask, deleteFile })
+  setSession({ accessToken: "token-1", userId: "1" })
+  const entry = manager.download("https://cdn.test/report.pdf")
+
+  setSession({ accessToken: "token-2", userId: "2" })
+  tasks[0].finish()
+  await settle()
+
+  expect(getDownloads()).toEqual([])
+  expect(getDownloads("1")).toMatchObject([{ id: entry.id, status: "completed" }])
+
+  await manager.clear("1")
+
+  expect(getDownloads("1")).toEqual([])
+  expect(deleteFile).toHaveBeenCalledWith(entry.fileUri)
+})
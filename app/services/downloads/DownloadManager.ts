@@ -0,0 +1,391 @@
+/**
+ * DownloadManager.ts
+ * Downloads files a few at a time, keeping their progress so they can be paused and resumed
+ */
+
+import { Platform } from "react-native"
+import * as FileSystem from "expo-file-system/legacy"
+
+import apiConfig from "@/services/api/env"
+import { createOutboxKey } from "@/services/outbox"
+import { getActiveAccountId, getSession, onAccountSwitch } from "@/services/session"
+import { deleteFile, getAppDirectory } from "@/utils/helpers/fileHelper"
+
+import {
+  addDownload,
+  clearDownloads,
+  DownloadEntry,
+  getDownloads,
+  removeDownload,
+  updateDownload,
+} from "./index"
+
+export interface DownloadTaskOptions {
+  url: string
+  fileUri: string
+  headers: Record<string, string>
+  /**
+   * Position saved by a previous pause
+   */
+  resumeData?: string
+  onProgress: (bytesWritten: number, totalBytes: number) => void
+}
+
+/**
+ * A running download. Wraps `DownloadResumable`, replaceable in tests.
+ */
+export interface DownloadTask {
+  /**
+   * Resolves with the HTTP status once done, or undefined when paused or cancelled
+   */
+  start: () => Promise<{ status: number } | undefined>
+  pause: () => Promise<{ resumeData?: string }>
+  cancel: () => Promise<void>
+}
+
+export type DownloadTaskFactory = (options: DownloadTaskOptions) => DownloadTask
+
+export interface StartDownloadOptions {
+  /**
+   * Name of the file on disk. Taken from the url when omitted.
+   */
+  fileName?: string
+  headers?: Record<string, string>
+}
+
+export interface DownloadManagerOptions {
+  /**
+   * Directory the files are saved to
+   */
+  directory?: string
+  /**
+   * Files downloaded at the same time
+   */
+  concurrency?: number
+  createTask?: DownloadTaskFactory
+  deleteFile?: (fileUri: string) => Promise<boolean>
+  /**
+   * Position to resume a download stopped with the app from, read from its partial file
+   */
+  readResumeData?: (fileUri: string) => Promise<string | undefined>
+}
+
+const createExpoDownloadTask: DownloadTaskFactory = (options) => {
+  const resumable = FileSystem.createDownloadResumable(
+    options.url,
+    options.fileUri,
+    { headers: options.headers },
+    (progress) =>
+      options.onProgress(progress.totalBytesWritten, progress.totalBytesExpectedToWrite),
+    options.resumeData,
+  )
+
+  return {
+    start: async () => {
+      const directory = options.fileUri.slice(0, options.fileUri.lastIndexOf("/") + 1)
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true })
+      return options.resumeData ? resumable.resumeAsync() : resumable.downloadAsync()
+    },
+    pause: () => resumable.pauseAsync(),
+    cancel: () => resumable.cancelAsync(),
+  }
+}
+
+/**
+ * Android resumes from the length of the partial file. iOS needs the data of a pause,
+ * so a download stopped with the app starts over there.
+ */
+const readPartialFileLength = async (fileUri: string): Promise<string | undefined> => {
+  if (Platform.OS !== "android") return undefined
+  const info = await FileSystem.getInfoAsync(fileUri)
+  return info.exists && info.size > 0 ? String(info.size) : undefined
+}
+
+/**
+ * Scheme, host and port of an absolute url, lowercased
+ */
+function getOrigin(url: string): string | undefined {
+  return url.match(/^[a-z][a-z\d+.-]*:\/\/[^/?#]*/i)?.[0].toLowerCase()
+}
+
+/**
+ * Resolves paths against the api base url
+ */
+function resolveUrl(url: string): string {
+  return /^[a-z]+:\/\//i.test(url) ? url : `${apiConfig.baseUrl}${url}`
+}
+
+/**
+ * The headers a download can keep in storage: credentials stay in memory
+ */
+function withoutAuthorization(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => name.toLowerCase() !== "authorization"),
+  )
+}
+
+export class DownloadManager {
+  private directory: string
+  private concurrency: number
+  private createTask: DownloadTaskFactory
+  private deleteFile: (fileUri: string) => Promise<boolean>
+  private readResumeData: (fileUri: string) => Promise<string | undefined>
+  /**
+   * Tasks of the downloads that are running
+   */
+  private running = new Map<string, DownloadTask>()
+  /**
+   * Headers given to `download` in this run of the app, credentials included
+   */
+  private headers = new Map<string, Record<string, string>>()
+
+  constructor(options: DownloadManagerOptions = {}) {
+    this.directory = options.directory ?? `${getAppDirectory()}downloads/`
+    this.concurrency = options.concurrency ?? 2
+    this.createTask = options.createTask ?? createExpoDownloadTask
+    this.deleteFile = options.deleteFile ?? deleteFile
+    this.readResumeData = options.readResumeData ?? readPartialFileLength
+  }
+
+  /**
+   * Download a file. A url that is already in the list is not downloaded twice:
+   * its entry is returned, and resumed when it was paused or failed.
+   *
+   * @param url Absolute url, or a path on the api.
+   * @param options File name and extra headers.
+   */
+  download(url: string, options: StartDownloadOptions = {}): DownloadEntry {
+    const resolvedUrl = resolveUrl(url)
+    const existing = getDownloads().find((entry) => entry.url === resolvedUrl)
+    if (existing) {
+      if (existing.status === "paused" || existing.status === "failed") this.resume(existing.id)
+      return existing
+    }
+
+    const id = createOutboxKey()
+    const fileName =
+      options.fileName ?? decodeURIComponent(resolvedUrl.split(/[?#]/)[0].split("/").pop() || id)
+    const entry: DownloadEntry = {
+      id,
+      url: resolvedUrl,
+      fileUri: `${this.directory}${id}-${fileName}`,
+      fileName,
+      bytesWritten: 0,
+      status: "queued",
+      headers: withoutAuthorization(options.headers),
+      createdAt: Date.now(),
+    }
+    addDownload(entry)
+    this.headers.set(id, options.headers ?? {})
+    this.pump()
+    return entry
+  }
+
+  /**
+   * Stop a download, keeping its position on disk.
+   */
+  async pause(id: string): Promise<void> {
+    updateDownload(id, { status: "paused" })
+
+    const task = this.running.get(id)
+    if (!task) return
+    try {
+      const { resumeData } = await task.pause()
+      updateDownload(id, { resumeData })
+    } catch (error) {
+      if (__DEV__) {
+        console.error("[Downloads] Pause failed:", error)
+      }
+    }
+  }
+
+  /**
+   * Continue a paused or failed download from its saved position.
+   */
+  resume(id: string): void {
+    updateDownload(id, { status: "queued", lastError: undefined })
+    this.pump()
+  }
+
+  /**
+   * Download a file again from the start.
+   */
+  async retry(id: string): Promise<void> {
+    const entry = getDownloads().find((download) => download.id === id)
+    if (!entry) return
+
+    await this.running.get(id)?.cancel()
+    await this.deleteFile(entry.fileUri)
+    updateDownload(id, {
+      status: "queued",
+      bytesWritten: 0,
+      totalBytes: undefined,
+      resumeData: undefined,
+      lastError: undefined,
+    })
+    this.pump()
+  }
+
+  /**
+   * Stop a download and delete its file.
+   */
+  async remove(id: string): Promise<void> {
+    const entry = getDownloads().find((download) => download.id === id)
+    removeDownload(id)
+    this.headers.delete(id)
+
+    await this.running.get(id)?.cancel()
+    if (entry) await this.deleteFile(entry.fileUri)
+  }
+
+  /**
+   * Cancel the downloads of an account signing out and delete their files.
+   *
+   * @param accountId The account signing out.
+   */
+  async clear(accountId: string): Promise<void> {
+    const entries = getDownloads(accountId)
+    clearDownloads(accountId)
+
+    await Promise.all(
+      entries.map(async (entry) => {
+        this.headers.delete(entry.id)
+        await this.running.get(entry.id)?.cancel()
+        await this.deleteFile(entry.fileUri)
+      }),
+    )
+  }
+
+  /**
+   * Resume downloads stopped by an app restart or queued by the newly active account.
+   * Called when the connection returns.
+   */
+  async resumeAll(): Promise<void> {
+    const accountId = getActiveAccountId()
+    const interrupted = getDownloads(accountId).filter(
+      (entry) => entry.status === "downloading" && !this.running.has(entry.id),
+    )
+
+    await Promise.all(
+      interrupted.map(async (entry) => {
+        // Stopped with the app, so no pause saved its position
+        const resumeData =
+          entry.resumeData ?? (await this.readResumeData(entry.fileUri).catch(() => undefined))
+        updateDownload(entry.id, { status: "queued", resumeData }, accountId)
+      }),
+    )
+    this.pump()
+  }
+
+  /**
+   * Start queued downloads while there are free slots
+   */
+  private pump(): void {
+    const accountId = getActiveAccountId()
+    for (const entry of getDownloads(accountId)) {
+      if (this.running.size >= this.concurrency) return
+      if (entry.status !== "queued" || this.running.has(entry.id)) continue
+
+      updateDownload(entry.id, { status: "downloading" }, accountId)
+      const task = this.createTask({
+        url: entry.url,
+        fileUri: entry.fileUri,
+        headers: this.getHeaders(entry),
+        resumeData: entry.resumeData,
+        onProgress: (bytesWritten, totalBytes) =>
+          this.progress(entry.id, bytesWritten, totalBytes, accountId),
+      })
+      this.running.set(entry.id, task)
+      this.run(entry.id, task, accountId).finally(() => {
+        this.running.delete(entry.id)
+        this.pump()
+      })
+    }
+  }
+
+  /**
+   * Session token for the api, plus the headers given to `download`
+   */
+  private getHeaders(entry: DownloadEntry): Record<string, string> {
+    const headers: Record<string, string> = {}
+    const token = getSession()?.accessToken
+    // Never send the token to other hosts, e.g. `https://api.example.com.evil.io`
+    const origin = getOrigin(entry.url)
+    if (token && origin && origin === getOrigin(apiConfig.baseUrl)) {
+      headers["Authorization"] = `Bearer ${token}`
+    }
+    return { ...headers, ...entry.headers, ...this.headers.get(entry.id) }
+  }
+
+  /**
+   * Persist progress, at most once per percent so storage is not written for every packet
+   */
+  private progress(
+    id: string,
+    bytesWritten: number,
+    totalBytes: number,
+    accountId: string | null,
+  ): void {
+    const entry = getDownloads(accountId).find((download) => download.id === id)
+    if (!entry || entry.status !== "downloading") return
+
+    const total = totalBytes > 0 ? totalBytes : undefined
+    const done = total !== undefined && bytesWritten >= total
+    if (!done && bytesWritten - entry.bytesWritten < (total ?? 0) / 100) return
+
+    updateDownload(id, { bytesWritten, totalBytes: total }, accountId)
+  }
+
+  /**
+   * Run a download until it is done or stopped. It keeps the token it started with,
+   * so it finishes for the account that started it even after a switch.
+   */
+  private async run(id: string, task: DownloadTask, accountId: string | null): Promise<void> {
+    const update = (changes: Partial<DownloadEntry>) => updateDownload(id, changes, accountId)
+    try {
+      const result = await task.start()
+      const entry = getDownloads(accountId).find((download) => download.id === id)
+      // Paused or removed by the user
+      if (!result || !entry || entry.status !== "downloading") return
+
+      if (result.status >= 400) {
+        await this.deleteFile(entry.fileUri)
+        update({
+          status: "failed",
+          bytesWritten: 0,
+          resumeData: undefined,
+          lastError: `HTTP ${result.status}`,
+        })
+        return
+      }
+
+      const bytes = Math.max(entry.bytesWritten, entry.totalBytes ?? 0)
+      update({
+        status: "completed",
+        bytesWritten: bytes,
+        totalBytes: bytes,
+        resumeData: undefined,
+        lastError: undefined,
+      })
+    } catch (error) {
+      const entry = getDownloads(accountId).find((download) => download.id === id)
+      if (!entry || entry.status !== "downloading") return
+
+      if (__DEV__) {
+        console.error("[Downloads] Download failed:", error)
+      }
+      update({
+        status: "failed",
+        lastError: error instanceof Error ? error.message : "unknown",
+      })
+    }
+  }
+}
+
+// Singleton instance
+export const downloadManager = new DownloadManager()
+
+// Downloads the newly active account queued earlier can start now
+onAccountSwitch(() => downloadManager.resumeAll())
+
+export default downloadManager
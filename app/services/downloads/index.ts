@@ -0,0 +1,147 @@
+/**
+ * downloads/index.ts
+ * Persistent list of downloads, so they can be paused, resumed after a restart and listed
+ */
+
+import { getActiveAccountId } from "@/services/session"
+import { load, remove, save, storage } from "@/utils/storage"
+
+export const DOWNLOADS_STORAGE_KEY = "downloads"
+
+/**
+ * Storage key of the downloads of an account. Each account keeps its own list.
+ *
+ * @param accountId The account, the active one by default.
+ */
+export const getDownloadsKey = (accountId: string | null = getActiveAccountId()) =>
+  accountId ? `${DOWNLOADS_STORAGE_KEY}.${accountId}` : DOWNLOADS_STORAGE_KEY
+
+/**
+ * - `queued`: waiting for a free slot
+ * - `downloading`: receiving bytes
+ * - `paused`: stopped by the user, resumes from the saved position
+ * - `failed`: stopped by an error, waits for retry or delete
+ * - `completed`: the file is on disk
+ */
+export type DownloadStatus = "queued" | "downloading" | "paused" | "failed" | "completed"
+
+/**
+ * A file being downloaded
+ */
+export interface DownloadEntry {
+  id: string
+  url: string
+  /**
+   * Local destination of the file
+   */
+  fileUri: string
+  fileName: string
+  bytesWritten: number
+  /**
+   * Bytes expected, once the server reported them
+   */
+  totalBytes?: number
+  status: DownloadStatus
+  /**
+   * Extra headers given to `download`, without credentials, so the download resumes
+   * after a restart
+   */
+  headers?: Record<string, string>
+  /**
+   * Position saved on pause or read from the partial file, used to resume without
+   * starting over
+   */
+  resumeData?: string
+  lastError?: string
+  createdAt: number
+}
+
+/**
+ * Share of the download on disk, between 0 and 1.
+ *
+ * @param entry The download.
+ */
+export function getDownloadProgress(entry: DownloadEntry): number {
+  if (entry.status === "completed") return 1
+  if (!entry.totalBytes) return 0
+  return Math.min(1, entry.bytesWritten / entry.totalBytes)
+}
+
+/**
+ * Bytes taken on disk by the downloads, including partial files.
+ *
+ * @param entries The downloads.
+ */
+export function getDownloadsDiskUsage(entries: DownloadEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.bytesWritten, 0)
+}
+
+/**
+ * Loads all downloads, oldest first.
+ *
+ * @param accountId The account, the active one by default.
+ */
+export function getDownloads(accountId = getActiveAccountId()): DownloadEntry[] {
+  return load<DownloadEntry[]>(getDownloadsKey(accountId)) ?? []
+}
+
+function saveDownloads(entries: DownloadEntry[], accountId: string | null): void {
+  save(getDownloadsKey(accountId), entries)
+}
+
+/**
+ * Adds a download to the end of the list.
+ *
+ * @param entry The download to add.
+ * @param accountId The account, the active one by default.
+ */
+export function addDownload(entry: DownloadEntry, accountId = getActiveAccountId()): void {
+  saveDownloads([...getDownloads(accountId), entry], accountId)
+}
+
+/**
+ * Merges changes into a download.
+ *
+ * @param id The download to update.
+ * @param changes The fields to update.
+ * @param accountId The account, the active one by default.
+ */
+export function updateDownload(
+  id: string,
+  changes: Partial<DownloadEntry>,
+  accountId = getActiveAccountId(),
+): void {
+  saveDownloads(
+    getDownloads(accountId).map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)),
+    accountId,
+  )
+}
+
+/**
+ * Removes a download from the list. The file is left on disk.
+ *
+ * @param id The download to remove.
+ * @param accountId The account, the active one by default.
+ */
+export function removeDownload(id: string, accountId = getActiveAccountId()): void {
+  saveDownloads(
+    getDownloads(accountId).filter((entry) => entry.id !== id),
+    accountId,
+  )
+}
+
+/**
+ * Drops the downloads of an account, or of every account when none is given.
+ *
+ * @param accountId The account signing out.
+ */
+export function clearDownloads(accountId?: string): void {
+  if (accountId) {
+    remove(getDownloadsKey(accountId))
+    return
+  }
+  storage
+    .getAllKeys()
+    .filter((key) => key === DOWNLOADS_STORAGE_KEY || key.startsWith(`${DOWNLOADS_STORAGE_KEY}.`))
+    .forEach(remove)
+}
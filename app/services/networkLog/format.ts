@@ -0,0 +1,112 @@
+/**
+ * format.ts
+ * Exports captured requests as curl commands and HAR files
+ */
+
+import type { NetworkLogEntry } from "./index"
+
+const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+
+const stringifyBody = (body: unknown): string | undefined => {
+  if (body === undefined || body === null || body === "") return undefined
+  return typeof body === "string" ? body : JSON.stringify(body)
+}
+
+/**
+ * Builds a curl command that replays the request. Redacted headers stay redacted.
+ *
+ * @param entry The captured request.
+ */
+export function toCurl(entry: NetworkLogEntry): string {
+  const parts = [`curl -X ${entry.method.toUpperCase()} ${quote(entry.url)}`]
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    parts.push(`-H ${quote(`${name}: ${value}`)}`)
+  }
+  const body = stringifyBody(entry.requestBody)
+  if (body !== undefined) parts.push(`--data-raw ${quote(body)}`)
+  return parts.join(" \\\n  ")
+}
+
+const toNameValues = (values: Record<string, string>) =>
+  Object.entries(values).map(([name, value]) => ({ name, value: String(value) }))
+
+/**
+ * Decodes a urlencoded name or value. Malformed escapes are kept as they are.
+ *
+ * @param value The encoded text.
+ */
+export const decodeFormValue = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "))
+  } catch {
+    return value
+  }
+}
+
+/**
+ * React Native's `URL` does not implement `searchParams`, so the query is split by hand
+ */
+const getQueryString = (url: string) =>
+  (url.split("#")[0].split("?")[1] ?? "")
+    .split("&")
+    .filter(Boolean)
+    .map((pair) => {
+      const [name, value = ""] = pair.split("=")
+      return { name: decodeFormValue(name), value: decodeFormValue(value) }
+    })
+
+/**
+ * Builds an HTTP Archive (HAR 1.2) that browsers and proxies can open.
+ *
+ * @param entries The captured requests.
+ */
+export function toHar(entries: NetworkLogEntry[]) {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "network-inspector", version: "1.0" },
+      entries: entries.map((entry) => {
+        const requestBody = stringifyBody(entry.requestBody)
+        const responseBody = stringifyBody(entry.responseBody) ?? ""
+
+        return {
+          startedDateTime: new Date(entry.startedAt).toISOString(),
+          time: entry.duration,
+          request: {
+            method: entry.method.toUpperCase(),
+            url: entry.url,
+            httpVersion: "HTTP/1.1",
+            headers: toNameValues(entry.requestHeaders),
+            queryString: getQueryString(entry.url),
+            cookies: [],
+            headersSize: -1,
+            bodySize: requestBody?.length ?? 0,
+            ...(requestBody !== undefined && {
+              postData: {
+                mimeType: entry.requestHeaders["Content-Type"] ?? "application/json",
+                text: requestBody,
+              },
+            }),
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.problem ?? "",
+            httpVersion: "HTTP/1.1",
+            headers: toNameValues(entry.responseHeaders),
+            cookies: [],
+            content: {
+              size: responseBody.length,
+              mimeType: entry.responseHeaders["content-type"] ?? "application/json",
+              text: responseBody,
+            },
+            redirectURL: "",
+            headersSize: -1,
+            bodySize: responseBody.length,
+          },
+          cache: {},
+          timings: { send: 0, wait: entry.duration, receive: 0 },
+        }
+      }),
+    },
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * networkLog/index.ts
+ * Bounded in-memory capture of API traffic for the network inspector
+ */
+
+import Config from "@/config"
+
+import { decodeFormValue } from "./format"
+
+export { toCurl, toHar } from "./format"
+
+/**
+ * Only the most recent requests are kept
+ */
+export const NETWORK_LOG_LIMIT = 200
+
+const REDACTED = "[redacted]"
+const SECRET_HEADERS = ["authorization", "cookie", "set-cookie", "proxy-authorization"]
+// Compared without case, `_` and `-`, so `access_token` and `Access-Token` match too
+const SECRET_FIELDS = [
+  "password",
+  "newpassword",
+  "accesstoken",
+  "refreshtoken",
+  "idtoken",
+  "resettoken",
+  "token",
+  "pin",
+  "secret",
+  "clientsecret",
+  "codeverifier",
+  "apikey",
+]
+// `a=1&b=2`, as sent to OAuth token endpoints
+const FORM_BODY = /^[^=&\s]+=[^&\s]*(&[^=&\s]+=[^&\s]*)*$/
+
+const isSecretField = (key: string) =>
+  SECRET_FIELDS.includes(key.toLowerCase().replace(/[_-]/g, ""))
+
+/**
+ * Replaces the values of secret fields in `a=1&b=2`, a form body or a query string
+ */
+const redactForm = (form: string) =>
+  form
+    .split("&")
+    .map((pair) => {
+      const separator = pair.indexOf("=")
+      if (separator === -1) return pair
+      const key = pair.slice(0, separator)
+      return isSecretField(decodeFormValue(key)) ? `${key}=${REDACTED}` : pair
+    })
+    .join("&")
+
+/**
+ * A captured request and its response
+ */
+export interface NetworkLogEntry {
+  id: string
+  method: string
+  /**
+   * Absolute url, including the query string
+   */
+  url: string
+  requestHeaders: Record<string, string>
+  requestBody?: unknown
+  /**
+   * Null when no response arrived
+   */
+  status: number | null
+  responseHeaders: Record<string, string>
+  responseBody?: unknown
+  /**
+   * Milliseconds until the response arrived
+   */
+  duration: number
+  /**
+   * Kind of the `GeneralApiProblem`, when the request failed
+   */
+  problem?: string
+  startedAt: number
+}
+
+type NetworkLogListener = (entries: NetworkLogEntry[]) => void
+
+let entries: NetworkLogEntry[] = []
+let nextId = 1
+const listeners = new Set<NetworkLogListener>()
+
+/**
+ * Whether requests are captured in this build.
+ */
+export function isNetworkLogEnabled(): boolean {
+  switch (Config.networkInspector) {
+    case "always":
+      return true
+    case "dev":
+      return __DEV__
+    case "prod":
+      return !__DEV__
+    default:
+      return false
+  }
+}
+
+/**
+ * Replaces credentials in headers.
+ *
+ * @param headers The request or response headers.
+ */
+export function redactHeaders(headers: Record<string, unknown> = {}): Record<string, string> {
+  const redacted: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || value === null || typeof value === "object") continue
+    redacted[name] = SECRET_HEADERS.includes(name.toLowerCase()) ? REDACTED : String(value)
+  }
+  return redacted
+}
+
+/**
+ * Replaces passwords and tokens in a request or response body.
+ *
+ * @param body The parsed body, or a urlencoded form.
+ */
+export function redactBody(body: unknown): unknown {
+  if (typeof body === "string" && FORM_BODY.test(body)) return redactForm(body)
+  if (Array.isArray(body)) return body.map(redactBody)
+  if (!body || typeof body !== "object") return body
+
+  const redacted: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(body)) {
+    redacted[key] = isSecretField(key) ? REDACTED : redactBody(value)
+  }
+  return redacted
+}
+
+/**
+ * Replaces tokens in the query string of a url, e.g. `?access_token=`.
+ *
+ * @param url The url of the request.
+ */
+export function redactUrl(url: string): string {
+  const queryStart = url.indexOf("?")
+  if (queryStart === -1) return url
+  const hashStart = url.indexOf("#", queryStart)
+  const queryEnd = hashStart === -1 ? url.length : hashStart
+  const query = redactForm(url.slice(queryStart + 1, queryEnd))
+  return url.slice(0, queryStart + 1) + query + url.slice(queryEnd)
+}
+
+/**
+ * Adds a request to the log, dropping the oldest beyond `NETWORK_LOG_LIMIT`.
+ * Query strings, headers and bodies are redacted here, so nothing secret is ever kept.
+ *
+ * @param entry The request to add.
+ */
+export function recordNetworkEntry(entry: Omit<NetworkLogEntry, "id">): void {
+  if (!isNetworkLogEnabled()) return
+
+  const recorded: NetworkLogEntry = {
+    ...entry,
+    id: String(nextId++),
+    url: redactUrl(entry.url),
+    requestHeaders: redactHeaders(entry.requestHeaders),
+    requestBody: redactBody(entry.requestBody),
+    responseHeaders: redactHeaders(entry.responseHeaders),
+    responseBody: redactBody(entry.responseBody),
+  }
+  entries = [recorded, ...entries].slice(0, NETWORK_LOG_LIMIT)
+  listeners.forEach((listener) => listener(entries))
+}
+
+/**
+ * The captured requests, newest first.
+ */
+export function getNetworkEntries(): NetworkLogEntry[] {
+  return entries
+}
+
+/**
+ * Drops every captured request.
+ */
+export function clearNetworkLog(): void {
+  entries = []
+  listeners.forEach((listener) => listener(entries))
+}
+
+/**
+ * Subscribes to new and cleared entries.
+ *
+ * @param listener Called with all entries, newest first.
+ * @returns A function that removes the listener.
+ */
+export function onNetworkLogChange(listener: NetworkLogListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
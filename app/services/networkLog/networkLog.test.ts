@@ -0,0 +1,153 @@
+import { ApiService } from "@/services/api/ApiService"
+import { createMockAdapter, json } from "@/services/api/mock/mockAdapter"
+import { setSession } from "@/services/session"
+import { storage } from "@/utils/storage"
+
+import {
+  clearNetworkLog,
+  getNetworkEntries,
+  NETWORK_LOG_LIMIT,
+  NetworkLogEntry,
+  recordNetworkEntry,
+  toCurl,
+  toHar,
+} from "./index"
+
+const entry: Omit<NetworkLogEntry, "id"> = {
+  method: "post",
+  url: "https://api.test/login?lang=en",
+  requestHeaders: { "Authorization": "Bearer secret", "Content-Type": "application/json" },
+  requestBody: { email: "a@b.c", password: "hunter2" },
+  status: 200,
+  responseHeaders: { "content-type": "application/json" },
+  responseBody: { accessToken: "abc", user: { name: "Ann" } },
+  duration: 120,
+  startedAt: 0,
+}
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {})
+})
+
+beforeEach(() => clearNetworkLog())
+
+test("redacts credentials before keeping an entry", () => {
+  recordNetworkEntry(entry)
+
+  expect(getNetworkEntries()[0]).toMatchObject({
+    requestHeaders: { "Authorization": "[redacted]", "Content-Type": "application/json" },
+    requestBody: { email: "a@b.c", password: "[redacted]" },
+    responseBody: { accessToken: "[redacted]", user: { name: "Ann" } },
+  })
+})
+
+test("redacts OAuth tokens and form-encoded bodies", () => {
+  recordNetworkEntry({
+    ...entry,
+    url: "https://id.test/token",
+    requestHeaders: { "Content-Type": "application/x-www-form-urlencoded" },
+    requestBody: "grant_type=refresh_token&refresh_token=r%2B1&client_id=mobile&client_secret=s",
+    responseBody: {
+      access_token: "a",
+      id_token: "i",
+      refresh_token: "r",
+      token_type: "Bearer",
+      resetToken: "t",
+    },
+  })
+
+  expect(getNetworkEntries()[0]).toMatchObject({
+    requestBody:
+      "grant_type=refresh_token&refresh_token=[redacted]&client_id=mobile&client_secret=[redacted]",
+    responseBody: {
+      access_token: "[redacted]",
+      id_token: "[redacted]",
+      refresh_token: "[redacted]",
+      token_type: "Bearer",
+      resetToken: "[redacted]",
+    },
+  })
+})
+
+test("redacts tokens in the query string", () => {
+  recordNetworkEntry({ ...entry, url: "https://api.test/ws?access_token=a&lang=en&token=t#top" })
+
+  expect(getNetworkEntries()[0].url).toBe(
+    "https://api.test/ws?access_token=[redacted]&lang=en&token=[redacted]#top",
+  )
+})
+
+test("keeps the newest entries only", () => {
+  for (let i = 0; i < NETWORK_LOG_LIMIT + 5; i++) {
+    recordNetworkEntry({ ...entry, url: `https://api.test/${i}` })
+  }
+
+  const entries = getNetworkEntries()
+  expect(entries).toHaveLength(NETWORK_LOG_LIMIT)
+  expect(entries[0].url).toBe(`https://api.test/${NETWORK_LOG_LIMIT + 4}`)
+})
+
+test("toCurl", () => {
+  recordNetworkEntry(entry)
+
+  expect(toCurl(getNetworkEntries()[0])).toBe(
+    [
+      "curl -X POST 'https://api.test/login?lang=en'",
+      "-H 'Authorization: [redacted]'",
+      "-H 'Content-Type: application/json'",
+      `--data-raw '{"email":"a@b.c","password":"[redacted]"}'`,
+    ].join(" \\\n  "),
+  )
+})
+
+test("toHar", () => {
+  recordNetworkEntry(entry)
+
+  const har = toHar(getNetworkEntries())
+  expect(har.log.entries[0]).toMatchObject({
+    time: 120,
+    request: {
+      method: "POST",
+      queryString: [{ name: "lang", value: "en" }],
+      postData: { text: `{"email":"a@b.c","password":"[redacted]"}` },
+    },
+    response: {
+      status: 200,
+      content: { text: `{"accessToken":"[redacted]","user":{"name":"Ann"}}` },
+    },
+  })
+})
+
+test("toHar keeps malformed query escapes as they are", () => {
+  recordNetworkEntry({ ...entry, url: "https://api.test/search?q=100%&page=2" })
+
+  expect(toHar(getNetworkEntries()).log.entries[0].request.queryString).toEqual([
+    { name: "q", value: "100%" },
+    { name: "page", value: "2" },
+  ])
+})
+
+test("captures requests sent through ApiService", async () => {
+  storage.clearAll()
+  setSession({ accessToken: "secret" })
+  const service = new ApiService({
+    url: "https://api.test",
+    timeout: 1000,
+    retry: false,
+    adapter: createMockAdapter(
+      [{ method: "get", path: "/missing", handler: () => json({ message: "Nope" }, 404) }],
+      { settings: { enabled: true, latency: 0 } },
+    ),
+  })
+
+  await service.get("/missing", { page: 2 })
+
+  expect(getNetworkEntries()[0]).toMatchObject({
+    method: "get",
+    url: "https://api.test/missing?page=2",
+    requestHeaders: { Authorization: "[redacted]" },
+    status: 404,
+    problem: "not-found",
+    responseBody: { message: "Nope" },
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * oidc/index.ts
+ * Sign-in with the company identity provider: OAuth2 authorization code flow with PKCE.
+ * The browser hands the code back through the `oauth/callback` deep link, see `OidcCallbackScreen`.
+ */
+
+import * as Crypto from "expo-crypto"
+import * as Linking from "expo-linking"
+
+import Config from "@/config"
+import type { OidcConfig } from "@/config/config.base"
+import { apiService } from "@/services/api/ApiService"
+import type { OAuthTokenResponse } from "@/services/api/types"
+import { setSession } from "@/services/session"
+import { toFormBody } from "@/utils/formBody"
+import { decodeJwt, JwtClaims } from "@/utils/jwt"
+import { openLinkInBrowser } from "@/utils/openLinkInBrowser"
+import { loadSecure, removeSecure, saveSecure } from "@/utils/storage/secureStorage"
+
+/**
+ * Path of the redirect, matched by the linking config in `app.tsx`
+ */
+export const OIDC_REDIRECT_PATH = "oauth/callback"
+
+const PENDING_STORAGE_KEY = "oidc.pending"
+
+/**
+ * The parts of the discovery document the app uses
+ */
+export interface OidcDiscovery {
+  authorization_endpoint: string
+  token_endpoint: string
+}
+
+/**
+ * Query parameters of the redirect
+ */
+export interface OidcCallbackParams {
+  code?: string
+  state?: string
+  error?: string
+  error_description?: string
+}
+
+/**
+ * - `not-configured`: no identity provider in the config
+ * - `discovery`: the discovery document could not be loaded
+ * - `denied`: the provider returned an error, e.g. the user cancelled
+ * - `state`: the redirect does not belong to the sign-in started here
+ * - `exchange`: the code could not be exchanged for tokens
+ */
+export type OidcError = "not-configured" | "discovery" | "denied" | "state" | "exchange"
+
+export type OidcResult = { kind: "ok" } | { kind: "error"; error: OidcError; message?: string }
+
+/**
+ * What is needed to finish a sign-in once the browser redirects back.
+ * Persisted, since the app may be stopped while the browser is open.
+ */
+interface PendingSignIn {
+  state: string
+  verifier: string
+  redirectUri: string
+  tokenEndpoint: string
+}
+
+const toBase64Url = (base64: string) =>
+  base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+
+const randomString = (bytes: number) =>
+  toBase64Url(btoa(String.fromCharCode(...Crypto.getRandomBytes(bytes))))
+
+/**
+ * Creates a PKCE verifier and its S256 challenge (RFC 7636).
+ */
+export async function createPkce(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = randomString(32)
+  const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, verifier, {
+    encoding: Crypto.CryptoEncoding.BASE64,
+  })
+  return { verifier, challenge: toBase64Url(digest) }
+}
+
+/**
+ * Loads the discovery document of the configured provider.
+ *
+ * @param config The provider, from the app config by default.
+ */
+export async function fetchDiscovery(
+  config: OidcConfig | undefined = Config.oidc,
+): Promise<OidcDiscovery | null> {
+  if (!config) return null
+  const result = await apiService.get<OidcDiscovery>(config.discoveryUrl, undefined, {
+    requireAuth: false,
+  })
+  if (result.kind !== "ok") return null
+  const { authorization_endpoint, token_endpoint } = result.data ?? {}
+  return authorization_endpoint && token_endpoint
+    ? { authorization_endpoint, token_endpoint }
+    : null
+}
+
+/**
+ * Opens the sign-in page of the provider in the browser.
+ * The sign-in finishes with `completeOidcLogin` once the browser redirects back.
+ *
+ * @param config The provider, from the app config by default.
+ */
+export async function startOidcLogin(
+  config: OidcConfig | undefined = Config.oidc,
+): Promise<OidcResult> {
+  if (!config) return { kind: "error", error: "not-configured" }
+
+  const discovery = await fetchDiscovery(config)
+  if (!discovery) return { kind: "error", error: "discovery" }
+
+  const { verifier, challenge } = await createPkce()
+  const pending: PendingSignIn = {
+    state: randomString(16),
+    verifier,
+    redirectUri: Linking.createURL(OIDC_REDIRECT_PATH),
+    tokenEndpoint: discovery.token_endpoint,
+  }
+  saveSecure(PENDING_STORAGE_KEY, pending)
+
+  const separator = discovery.authorization_endpoint.includes("?") ? "&" : "?"
+  openLinkInBrowser(
+    `${discovery.authorization_endpoint}${separator}${toFormBody({
+      response_type: "code",
+      client_id: config.clientId,
+      redirect_uri: pending.redirectUri,
+      scope: config.scopes.join(" "),
+      state: pending.state,
+      code_challenge: challenge,
+      code_challenge_method: "S256",
+    })}`,
+  )
+  return { kind: "ok" }
+}
+
+/**
+ * Exchanges the code of the redirect for tokens and starts the session with them.
+ * A redirect is only accepted once, and only for the sign-in started last.
+ * The session keeps refreshing its tokens at the provider.
+ *
+ * @param params The query parameters of the redirect.
+ * @param config The provider, from the app config by default.
+ */
+export async function completeOidcLogin(
+  params: OidcCallbackParams,
+  config: OidcConfig | undefined = Config.oidc,
+): Promise<OidcResult> {
+  if (!config) return { kind: "error", error: "not-configured" }
+
+  const pending = loadSecure<PendingSignIn>(PENDING_STORAGE_KEY)
+  if (!pending || !params.state || params.state !== pending.state) {
+    return { kind: "error", error: "state" }
+  }
+  removeSecure(PENDING_STORAGE_KEY)
+
+  if (params.error || !params.code) {
+    return { kind: "error", error: "denied", message: params.error_description }
+  }
+
+  // A code is only valid once, so the exchange is never retried
+  const result = await apiService.requestToken<OAuthTokenResponse>(pending.tokenEndpoint, {
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: pending.redirectUri,
+    client_id: config.clientId,
+    code_verifier: pending.verifier,
+  })
+  if (result.kind === "queued") return { kind: "error", error: "exchange" }
+  if (result.kind !== "ok") return { kind: "error", error: "exchange", message: result.message }
+  if (!result.data?.access_token) return { kind: "error", error: "exchange" }
+
+  const tokens = result.data
+  const claims = decodeJwt<JwtClaims & { email?: string }>(tokens.id_token)
+  setSession({
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined,
+    userId: claims?.sub,
+    email: claims?.email,
+    provider: { tokenEndpoint: pending.tokenEndpoint, clientId: config.clientId },
+  })
+  return { kind: "ok" }
+}
@@ -0,0 +1,220 @@
+import type { AxiosRequestConfig } from "axios"
+import { createHash } from "crypto"
+
+import { apiService } from "@/services/api/ApiService"
+import { clearNetworkLog, getNetworkEntries } from "@/services/networkLog"
+import { getSession, updateSession } from "@/services/session"
+import { openLinkInBrowser } from "@/utils/openLinkInBrowser"
+import { storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { completeOidcLogin, startOidcLogin } from "./index"
+
+jest.mock("expo-crypto", () => {
+  const { createHash, randomBytes } = require("crypto")
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    CryptoEncoding: { BASE64: "base64", HEX: "hex" },
+    digestStringAsync: async (
+      _algorithm: string,
+      data: string,
+      options?: { encoding?: "base64" | "hex" },
+    ) =>
+      createHash("sha256")
+        .update(data)
+        .digest(options?.encoding ?? "hex"),
+    getRandomBytes: (count: number) => new Uint8Array(randomBytes(count)),
+  }
+})
+jest.mock("expo-linking", () => ({ createURL: (path: string) => `tallygreen://${path}` }))
+jest.mock("@/utils/openLinkInBrowser", () => ({ openLinkInBrowser: jest.fn() }))
+
+const config = {
+  discoveryUrl: "https://id.test/.well-known/openid-configuration",
+  clientId: "mobile",
+  scopes: ["openid", "email"],
+}
+
+const base64Url = (value: string | Buffer) =>
+  Buffer.from(value).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+
+const idToken = `${base64Url("{}")}.${base64Url(
+  JSON.stringify({ sub: "ada", email: "ada@example.com" }),
+)}.signature`
+
+/**
+ * A stand-in identity provider: hands out one code per authorize request, and only
+ * exchanges it for tokens along with the verifier of its challenge.
+ */
+function createIdp() {
+  const codes = new Map<string, string>()
+  const tokenRequests: Record<string, string>[] = []
+
+  const authorize = (url: string) => {
+    const query = new URL(url).searchParams
+    const code = `code-${codes.size + 1}`
+    codes.set(code, query.get("code_challenge")!)
+    return { code, state: query.get("state")! }
+  }
+
+  const respond = (config: AxiosRequestConfig, status: number, data: unknown) => {
+    const response = { status, data, headers: {}, config, statusText: "" }
+    if (status >= 400) {
+      throw Object.assign(new Error(`Request failed with status ${status}`), {
+        config,
+        response,
+        isAxiosError: true,
+      })
+    }
+    return response
+  }
+
+  const adapter = async (request: AxiosRequestConfig) => {
+    if (request.url === config.discoveryUrl) {
+      return respond(request, 200, {
+        authorization_endpoint: "https://id.test/authorize",
+        token_endpoint: "https://id.test/token",
+      })
+    }
+    if (request.url === "https://id.test/token") {
+      const body = Object.fromEntries(new URLSearchParams(request.data as string))
+      tokenRequests.push(body)
+      if (body.grant_type === "refresh_token") {
+        return respond(request, 200, { access_token: "access-2", expires_in: 300 })
+      }
+      const challenge = codes.get(body.code)
+      codes.delete(body.code)
+      const verified =
+        challenge && base64Url(createHash("sha256").update(body.code_verifier).digest())
+      if (!challenge || verified !== challenge) {
+        return respond(request, 400, { error: "invalid_grant" })
+      }
+      return respond(request, 200, {
+        access_token: "access-1",
+        refresh_token: "refresh-1",
+        expires_in: 300,
+        id_token: idToken,
+      })
+    }
+    return respond(request, 404, {})
+  }
+
+  return { adapter: adapter as any, authorize, tokenRequests }
+}
+
+let idp: ReturnType<typeof createIdp>
+
+const openedUrl = () => jest.mocked(openLinkInBrowser).mock.calls.at(-1)![0]
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {})
+})
+
+beforeEach(() => {
+  storage.clearAll()
+  secureStorage.clearAll()
+  jest.mocked(openLinkInBrowser).mockClear()
+  idp = createIdp()
+  apiService.setAdapter(idp.adapter)
+})
+
+afterAll(() => {
+  apiService.setAdapter()
+})
+
+test("signs in with the code of the redirect", async () => {
+  expect(await startOidcLogin(config)).toEqual({ kind: "ok" })
+
+  const url = new URL(openedUrl())
+  expect(url.origin + url.pathname).toBe("https://id.test/authorize")
+  expect(Object.fromEntries(url.searchParams)).toMatchObject({
+    response_type: "code",
+    client_id: "mobile",
+    redirect_uri: "tallygreen://oauth/callback",
+    scope: "openid email",
+    code_challenge_method: "S256",
+  })
+
+  expect(await completeOidcLogin(idp.authorize(openedUrl()), config)).toEqual({ kind: "ok" })
+  expect(getSession()).toMatchObject({
+    accessToken: "access-1",
+    refreshToken: "refresh-1",
+    userId: "ada",
+    email: "ada@example.com",
+    provider: { tokenEndpoint: "https://id.test/token", clientId: "mobile" },
+  })
+  expect(idp.tokenRequests[0]).toMatchObject({
+    grant_type: "authorization_code",
+    redirect_uri: "tallygreen://oauth/callback",
+    client_id: "mobile",
+  })
+})
+
+test("rejects a redirect that does not belong to the pending sign-in", async () => {
+  await startOidcLogin(config)
+  const { code } = idp.authorize(openedUrl())
+
+  expect(await completeOidcLogin({ code, state: "forged" }, config)).toMatchObject({
+    kind: "error",
+    error: "state",
+  })
+  expect(getSession()).toBeNull()
+})
+
+test("accepts a redirect only once", async () => {
+  await startOidcLogin(config)
+  const params = idp.authorize(openedUrl())
+
+  await completeOidcLogin(params, config)
+  expect(await completeOidcLogin(params, config)).toMatchObject({ error: "state" })
+})
+
+test("reports errors returned by the provider", async () => {
+  await startOidcLogin(config)
+  const { state } = idp.authorize(openedUrl())
+
+  expect(
+    await completeOidcLogin(
+      { state, error: "access_denied", error_description: "Cancelled" },
+      config,
+    ),
+  ).toEqual({ kind: "error", error: "denied", message: "Cancelled" })
+})
+
+test("fails without a discovery document", async () => {
+  expect(
+    await startOidcLogin({ ...config, discoveryUrl: "https://id.test/missing" }),
+  ).toMatchObject({ kind: "error", error: "discovery" })
+  expect(openLinkInBrowser).not.toHaveBeenCalled()
+})
+
+test("refreshes the session at the provider", async () => {
+  await startOidcLogin(config)
+  await completeOidcLogin(idp.authorize(openedUrl()), config)
+
+  updateSession({ expiresAt: Date.now() })
+
+  await apiService.get("/me")
+  expect(idp.tokenRequests.at(-1)).toEqual({
+    grant_type: "refresh_token",
+    refresh_token: "refresh-1",
+    client_id: "mobile",
+  })
+  expect(getSession()).toMatchObject({ accessToken: "access-2", refreshToken: "refresh-1" })
+})
+
+test("keeps the token requests out of the network log", async () => {
+  clearNetworkLog()
+  await startOidcLogin(config)
+  await completeOidcLogin(idp.authorize(openedUrl()), config)
+  updateSession({ expiresAt: Date.now() })
+  await apiService.get("/me")
+
+  expect(idp.tokenRequests.map((request) => request.grant_type)).toEqual([
+    "authorization_code",
+    "refresh_token",
+  ])
+  const urls = getNetworkEntries().map((entry) => entry.url)
+  expect(urls).toContain(config.discoveryUrl)
+  expect(urls).not.toContain("https://id.test/token")
+})
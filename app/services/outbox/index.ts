@@ -0,0 +1,140 @@
+/**
+ * outbox/index.ts
+ * Persistent queue of mutations made while offline, replayed once the connection returns
+ */
+
+import { getActiveAccountId } from "@/services/session"
+import { load, remove, save, storage } from "@/utils/storage"
+
+export const OUTBOX_STORAGE_KEY = "outbox"
+
+/**
+ * Storage key of the outbox of an account. Each account queues its own mutations.
+ *
+ * @param accountId The account, the active one by default.
+ */
+export const getOutboxKey = (accountId: string | null = getActiveAccountId()) =>
+  accountId ? `${OUTBOX_STORAGE_KEY}.${accountId}` : OUTBOX_STORAGE_KEY
+
+export type OutboxMethod = "post" | "put" | "patch" | "delete"
+
+/**
+ * A queued mutation
+ */
+export interface OutboxEntry {
+  id: string
+  /**
+   * Sent as the `Idempotency-Key` header so the server can drop duplicate replays
+   */
+  idempotencyKey: string
+  method: OutboxMethod
+  url: string
+  data?: any
+  headers?: Record<string, string>
+  createdAt: number
+  attempts: number
+  /**
+   * `pending` entries are replayed automatically, `failed` ones wait for retry or discard
+   */
+  status: "pending" | "failed"
+  /**
+   * Problem kind of the last failed replay
+   */
+  lastError?: string
+  /**
+   * Account that made the mutation. It is queued in that account's outbox and only replayed while it is active.
+   */
+  accountId?: string
+}
+
+/**
+ * Creates a reasonably unique key for ids and idempotency keys.
+ */
+export function createOutboxKey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Loads all queued entries, oldest first.
+ *
+ * @param accountId The account, the active one by default.
+ */
+export function getOutboxEntries(accountId = getActiveAccountId()): OutboxEntry[] {
+  return load<OutboxEntry[]>(getOutboxKey(accountId)) ?? []
+}
+
+function saveOutboxEntries(entries: OutboxEntry[], accountId: string | null): void {
+  save(getOutboxKey(accountId), entries)
+}
+
+/**
+ * Adds a mutation to the end of the queue.
+ *
+ * @param request The mutation to queue.
+ */
+export function enqueueOutboxEntry(
+  request: Pick<OutboxEntry, "method" | "url" | "data" | "headers" | "accountId"> & {
+    idempotencyKey?: string
+  },
+): OutboxEntry {
+  const entry: OutboxEntry = {
+    ...request,
+    id: createOutboxKey(),
+    idempotencyKey: request.idempotencyKey ?? createOutboxKey(),
+    createdAt: Date.now(),
+    attempts: 0,
+    status: "pending",
+  }
+  const accountId = request.accountId ?? getActiveAccountId()
+  saveOutboxEntries([...getOutboxEntries(accountId), entry], accountId)
+  return entry
+}
+
+/**
+ * Merges changes into a queued entry.
+ *
+ * @param id The entry to update.
+ * @param changes The fields to update.
+ * @param accountId The account, the active one by default.
+ */
+export function updateOutboxEntry(
+  id: string,
+  changes: Partial<OutboxEntry>,
+  accountId = getActiveAccountId(),
+): void {
+  saveOutboxEntries(
+    getOutboxEntries(accountId).map((entry) =>
+      entry.id === id ? { ...entry, ...changes } : entry,
+    ),
+    accountId,
+  )
+}
+
+/**
+ * Removes an entry from the queue.
+ *
+ * @param id The entry to remove.
+ * @param accountId The account, the active one by default.
+ */
+export function removeOutboxEntry(id: string, accountId = getActiveAccountId()): void {
+  saveOutboxEntries(
+    getOutboxEntries(accountId).filter((entry) => entry.id !== id),
+    accountId,
+  )
+}
+
+/**
+ * Drops the queued mutations of an account, or of every account when none is given.
+ *
+ * @param accountId The account signing out.
+ */
+export function clearOutbox(accountId?: string): void {
+  if (accountId) {
+    remove(getOutboxKey(accountId))
+    return
+  }
+  storage
+    .getAllKeys()
+    .filter((key) => key === OUTBOX_STORAGE_KEY || key.startsWith(`${OUTBOX_STORAGE_KEY}.`))
+    .forEach(remove)
+}
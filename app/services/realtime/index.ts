@@ -0,0 +1,355 @@
+/**
+ * realtime/index.ts
+ * Live updates over a WebSocket to the api host, with heartbeats and reconnection
+ *
+ * Protocol, as JSON messages:
+ * - client: `{ type: "subscribe", topic }`, `{ type: "unsubscribe", topic }`, `{ type: "ping" }`
+ * - server: `{ type: "message", topic, data }`, `{ type: "pong" }`
+ */
+
+import { apiService } from "@/services/api/ApiService"
+import apiConfig from "@/services/api/env"
+import { getSession, onAccountSwitch, onSessionExpired, onSessionStart } from "@/services/session"
+
+/**
+ * - `idle`: nothing subscribed, or stopped
+ * - `connecting`: opening the socket
+ * - `open`: receiving messages
+ * - `reconnecting`: the socket dropped, waiting to open it again
+ * - `paused`: the app is in the background or offline
+ */
+export type RealtimeStatus = "idle" | "connecting" | "open" | "reconnecting" | "paused"
+
+export type ChannelHandler<T = any> = (data: T) => void
+
+/**
+ * The part of `WebSocket` the service uses. Replaceable in tests.
+ */
+export interface RealtimeSocket {
+  readyState: number
+  send: (data: string) => void
+  close: (code?: number, reason?: string) => void
+  onopen: ((event: any) => void) | null
+  onmessage: ((event: { data: any }) => void) | null
+  onclose: ((event: any) => void) | null
+  onerror: ((event: any) => void) | null
+}
+
+export interface RealtimeServiceOptions {
+  /**
+   * Url of the socket. Read on every connection, so it follows environment switches.
+   */
+  getUrl?: () => string
+  createSocket?: (url: string, headers: Record<string, string>) => RealtimeSocket
+  /**
+   * Refreshes the access token before a connection when it is about to expire.
+   * Returns null when the token is still fresh. `ApiService.refreshIfExpiring` by default.
+   */
+  refreshToken?: () => Promise<boolean> | null
+  /**
+   * Milliseconds between pings
+   */
+  heartbeatInterval?: number
+  /**
+   * Milliseconds without any message after a ping before the socket is considered dead
+   */
+  heartbeatTimeout?: number
+  /**
+   * Milliseconds before the first reconnect, doubled on every failed attempt
+   */
+  reconnectDelay?: number
+  maxReconnectDelay?: number
+}
+
+const OPEN = 1
+
+/**
+ * React Native's `WebSocket`, which takes the headers of the handshake as a third argument.
+ * The DOM typings of the global only know the first two, and DOM events.
+ */
+type NativeWebSocketConstructor = new (
+  url: string,
+  protocols: string | string[] | undefined,
+  options: { headers: Record<string, string> },
+) => RealtimeSocket
+
+const createWebSocket = (url: string, headers: Record<string, string>): RealtimeSocket => {
+  const NativeWebSocket = WebSocket as unknown as NativeWebSocketConstructor
+  return new NativeWebSocket(url, undefined, { headers })
+}
+
+export class RealtimeService {
+  private getUrl: () => string
+  private createSocket: (url: string, headers: Record<string, string>) => RealtimeSocket
+  private refreshToken: () => Promise<boolean> | null
+  private heartbeatInterval: number
+  private heartbeatTimeout: number
+  private reconnectDelay: number
+  private maxReconnectDelay: number
+
+  private socket: RealtimeSocket | null = null
+  /**
+   * The token refresh a connection waits for
+   */
+  private pendingRefresh: Promise<boolean> | null = null
+  private status: RealtimeStatus = "idle"
+  private channels = new Map<string, Set<ChannelHandler>>()
+  private statusListeners = new Set<(status: RealtimeStatus) => void>()
+  private attempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private deadlineTimer: ReturnType<typeof setTimeout> | null = null
+  /**
+   * Why the socket must stay closed, e.g. the app is in the background
+   */
+  private pausedBy = new Set<"background" | "offline">()
+
+  constructor(options: RealtimeServiceOptions = {}) {
+    this.getUrl = options.getUrl ?? (() => apiConfig.realtimeUrl)
+    this.createSocket = options.createSocket ?? createWebSocket
+    this.refreshToken = options.refreshToken ?? (() => apiService.refreshIfExpiring())
+    this.heartbeatInterval = options.heartbeatInterval ?? 25000
+    this.heartbeatTimeout = options.heartbeatTimeout ?? 10000
+    this.reconnectDelay = options.reconnectDelay ?? 1000
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000
+  }
+
+  /**
+   * Receive the messages of a topic. Connects on the first subscription.
+   *
+   * @param topic The topic, e.g. `orders:42`.
+   * @param handler Called with the data of every message.
+   * @returns A function that unsubscribes. The socket closes after the last one.
+   */
+  subscribe<T = any>(topic: string, handler: ChannelHandler<T>): () => void {
+    let handlers = this.channels.get(topic)
+    if (!handlers) {
+      handlers = new Set()
+      this.channels.set(topic, handlers)
+      this.send({ type: "subscribe", topic })
+    }
+    handlers.add(handler)
+    this.connect()
+
+    return () => {
+      const current = this.channels.get(topic)
+      if (!current?.delete(handler) || current.size > 0) return
+
+      this.channels.delete(topic)
+      this.send({ type: "unsubscribe", topic })
+      if (this.channels.size === 0) this.close("idle")
+    }
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status
+  }
+
+  /**
+   * Subscribe to status changes.
+   *
+   * @returns A function that unsubscribes.
+   */
+  onStatusChange(listener: (status: RealtimeStatus) => void): () => void {
+    this.statusListeners.add(listener)
+    return () => {
+      this.statusListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Close the socket while the app is in the background, and reopen it in the foreground.
+   */
+  setForeground(foreground: boolean): void {
+    this.setPaused("background", !foreground)
+  }
+
+  /**
+   * Close the socket while offline, and reopen it once the connection returns.
+   */
+  setOnline(online: boolean): void {
+    this.setPaused("offline", !online)
+  }
+
+  /**
+   * Open a new socket, e.g. for another token or host. Subscriptions are kept.
+   */
+  reconnect(): void {
+    this.close("idle")
+    this.connect()
+  }
+
+  /**
+   * Close the socket without reconnecting, e.g. once signed out. Subscriptions are kept,
+   * and the socket opens again once an account signs in.
+   */
+  disconnect(): void {
+    this.close("idle")
+  }
+
+  private setPaused(reason: "background" | "offline", paused: boolean): void {
+    if (paused) {
+      this.pausedBy.add(reason)
+      if (this.channels.size > 0) this.close("paused")
+    } else if (this.pausedBy.delete(reason)) {
+      this.attempts = 0
+      this.connect()
+    }
+  }
+
+  private connect(): void {
+    if (this.socket || this.pendingRefresh || this.channels.size === 0) return
+    if (this.pausedBy.size > 0) {
+      this.setStatus("paused")
+      return
+    }
+    this.clearTimer("reconnect")
+
+    // The server only talks to signed-in users
+    if (!getSession()?.accessToken) {
+      this.setStatus("idle")
+      return
+    }
+
+    // The token is only checked during the handshake: don't open with one about to expire
+    const refresh = this.refreshToken()
+    if (refresh) {
+      this.pendingRefresh = refresh
+      this.setStatus("connecting")
+      refresh.then(() => {
+        // Closed or paused in the meantime
+        if (this.pendingRefresh !== refresh) return
+        this.pendingRefresh = null
+        this.open()
+      })
+      return
+    }
+
+    this.open()
+  }
+
+  private open(): void {
+    const token = getSession()?.accessToken
+    if (!token) {
+      this.setStatus("idle")
+      return
+    }
+
+    const socket = this.createSocket(this.getUrl(), { Authorization: `Bearer ${token}` })
+    this.socket = socket
+    this.setStatus("connecting")
+
+    socket.onopen = () => {
+      this.attempts = 0
+      this.setStatus("open")
+      // The server forgets subscriptions with the connection
+      this.channels.forEach((_, topic) => this.send({ type: "subscribe", topic }))
+      this.startHeartbeat()
+    }
+    socket.onmessage = (event) => this.receive(event.data)
+    socket.onerror = () => {
+      if (__DEV__) {
+        console.log("[Realtime] Socket error")
+      }
+    }
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.stopHeartbeat()
+      this.scheduleReconnect()
+    }
+  }
+
+  /**
+   * Close the socket on purpose, without reconnecting
+   */
+  private close(status: RealtimeStatus): void {
+    this.clearTimer("reconnect")
+    this.stopHeartbeat()
+    this.pendingRefresh = null
+    const socket = this.socket
+    this.socket = null
+    socket?.close(1000)
+    this.setStatus(status)
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(this.maxReconnectDelay, this.reconnectDelay * 2 ** this.attempts)
+    this.attempts += 1
+    this.setStatus("reconnecting")
+    // Spread reconnects of many clients after an outage
+    this.reconnectTimer = setTimeout(() => this.connect(), delay / 2 + (Math.random() * delay) / 2)
+  }
+
+  private receive(raw: unknown): void {
+    // Any message shows the connection is alive
+    this.clearTimer("deadline")
+
+    let message: { type?: string; topic?: string; data?: unknown }
+    try {
+      message = typeof raw === "string" ? JSON.parse(raw) : (raw as typeof message)
+    } catch {
+      return
+    }
+
+    if (message?.type === "message" && message.topic) {
+      this.channels.get(message.topic)?.forEach((handler) => handler(message.data))
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.socket?.readyState === OPEN) {
+      this.socket.send(JSON.stringify(message))
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat()
+    this.heartbeatTimer = setInterval(() => {
+      this.send({ type: "ping" })
+      if (this.deadlineTimer) return
+      // No answer in time: close, so the socket is reopened
+      this.deadlineTimer = setTimeout(() => {
+        this.deadlineTimer = null
+        const socket = this.socket
+        socket?.close(4000, "Heartbeat timeout")
+        socket?.onclose?.({ code: 4000 })
+      }, this.heartbeatTimeout)
+    }, this.heartbeatInterval)
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    this.heartbeatTimer = null
+    this.clearTimer("deadline")
+  }
+
+  private clearTimer(timer: "reconnect" | "deadline"): void {
+    if (timer === "reconnect" && this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    if (timer === "deadline" && this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer)
+      this.deadlineTimer = null
+    }
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return
+    this.status = status
+    this.statusListeners.forEach((listener) => listener(status))
+  }
+}
+
+// Singleton instance
+export const realtime = new RealtimeService()
+
+// The socket is authenticated and bound to a host: open a new one when either changes
+apiConfig.onChange(() => realtime.reconnect())
+onSessionExpired(() => realtime.disconnect())
+onAccountSwitch(() => realtime.reconnect())
+// Subscriptions made while signed out wait for a sign-in
+onSessionStart(() => realtime.reconnect())
+
+export default realtime
@@ -0,0 +1,263 @@
+import { clearSession, setSession, updateSession } from "@/services/session"
+import { storage } from "@/utils/storage"
+
+import realtime, { RealtimeService, RealtimeServiceOptions, RealtimeSocket } from "./index"
+
+/**
+ * A local stand-in for the server end of the socket
+ */
+class FakeSocket implements RealtimeSocket {
+  readyState = 0
+  sent: any[] = []
+  closed = false
+  onopen: RealtimeSocket["onopen"] = null
+  onmessage: RealtimeSocket["onmessage"] = null
+  onclose: RealtimeSocket["onclose"] = null
+  onerror: RealtimeSocket["onerror"] = null
+
+  constructor(
+    public url: string,
+    public headers: Record<string, string>,
+  ) {}
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close() {
+    this.closed = true
+    this.readyState = 3
+  }
+
+  open() {
+    this.readyState = 1
+    this.onopen?.({})
+  }
+
+  receive(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) })
+  }
+
+  /**
+   * The server or the network dropped the connection
+   */
+  drop() {
+    this.readyState = 3
+    this.onclose?.({ code: 1006 })
+  }
+}
+
+function createService(options: RealtimeServiceOptions = {}) {
+  const sockets: FakeSocket[] = []
+  const service = new RealtimeService({
+    refreshToken: () => null,
+    getUrl: () => "wss://api.test/realtime",
+    createSocket: (url, headers) => {
+      const socket = new FakeSocket(url, headers)
+      sockets.push(socket)
+      return socket
+    },
+    heartbeatInterval: 1000,
+    heartbeatTimeout: 500,
+    reconnectDelay: 100,
+    maxReconnectDelay: 400,
+    ...options,
+  })
+  return { service, sockets }
+}
+
+beforeEach(() => {
+  storage.clearAll()
+  setSession({ accessToken: "token-1" })
+  jest.useFakeTimers()
+  // No jitter: reconnects wait exactly half the backoff delay
+  jest.spyOn(Math, "random").mockReturnValue(0)
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+  jest.restoreAllMocks()
+})
+
+test("connects with the token on the first subscription and delivers messages", () => {
+  const { service, sockets } = createService()
+  const handler = jest.fn()
+
+  service.subscribe("orders:42", handler)
+  expect(sockets).toHaveLength(1)
+  expect(sockets[0].headers).toEqual({ Authorization: "Bearer token-1" })
+
+  sockets[0].open()
+  expect(service.getStatus()).toBe("open")
+  expect(sockets[0].sent).toEqual([{ type: "subscribe", topic: "orders:42" }])
+
+  sockets[0].receive({ type: "message", topic: "orders:42", data: { status: "shipped" } })
+  sockets[0].receive({ type: "message", topic: "orders:7", data: {} })
+  expect(handler).toHaveBeenCalledTimes(1)
+  expect(handler).toHaveBeenCalledWith({ status: "shipped" })
+})
+
+test("unsubscribes and closes the socket after the last subscriber", () => {
+  const { service, sockets } = createService()
+  const first = service.subscribe("a", jest.fn())
+  const second = service.subscribe("b", jest.fn())
+  sockets[0].open()
+
+  first()
+  expect(sockets[0].sent).toContainEqual({ type: "unsubscribe", topic: "a" })
+  expect(sockets[0].closed).toBe(false)
+
+  second()
+  expect(sockets[0].closed).toBe(true)
+  expect(service.getStatus()).toBe("idle")
+})
+
+test("reconnects with exponential backoff and resubscribes", () => {
+  const { service, sockets } = createService()
+  service.subscribe("a", jest.fn())
+  service.subscribe("b", jest.fn())
+  sockets[0].open()
+
+  sockets[0].drop()
+  expect(service.getStatus()).toBe("reconnecting")
+  jest.advanceTimersByTime(50)
+  expect(sockets).toHaveLength(2)
+
+  sockets[1].drop()
+  jest.advanceTimersByTime(99)
+  expect(sockets).toHaveLength(2)
+  jest.advanceTimersByTime(1)
+  expect(sockets).toHaveLength(3)
+
+  sockets[2].open()
+  expect(sockets[2].sent).toEqual([
+    { type: "subscribe", topic: "a" },
+    { type: "subscribe", topic: "b" },
+  ])
+
+  // A successful connection resets the backoff
+  sockets[2].drop()
+  jest.advanceTimersByTime(50)
+  expect(sockets).toHaveLength(4)
+})
+
+test("caps the backoff delay", () => {
+  const { service, sockets } = createService()
+  service.subscribe("a", jest.fn())
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    sockets[sockets.length - 1].drop()
+    jest.advanceTimersByTime(200)
+  }
+  expect(sockets).toHaveLength(6)
+})
+
+test("reconnects when pings go unanswered", () => {
+  const { service, sockets } = createService()
+  service.subscribe("a", jest.fn())
+  sockets[0].open()
+
+  jest.advanceTimersByTime(1000)
+  expect(sockets[0].sent).toContainEqual({ type: "ping" })
+  sockets[0].receive({ type: "pong" })
+
+  jest.advanceTimersByTime(1000)
+  jest.advanceTimersByTime(500)
+  expect(sockets[0].closed).toBe(true)
+  expect(service.getStatus()).toBe("reconnecting")
+
+  jest.advanceTimersByTime(50)
+  expect(sockets).toHaveLength(2)
+})
+
+test("pauses in the background and offline", () => {
+  const { service, sockets } = createService()
+  service.subscribe("a", jest.fn())
+  sockets[0].open()
+
+  service.setForeground(false)
+  expect(sockets[0].closed).toBe(true)
+  expect(service.getStatus()).toBe("paused")
+
+  service.setOnline(false)
+  service.setForeground(true)
+  jest.advanceTimersByTime(10000)
+  expect(sockets).toHaveLength(1)
+
+  service.setOnline(true)
+  expect(sockets).toHaveLength(2)
+  sockets[1].open()
+  expect(sockets[1].sent).toEqual([{ type: "subscribe", topic: "a" }])
+})
+
+test("stays closed once signed out", () => {
+  const { service, sockets } = createService()
+  service.subscribe("a", jest.fn())
+  sockets[0].open()
+
+  clearSession()
+  service.disconnect()
+  expect(sockets[0].closed).toBe(true)
+  expect(service.getStatus()).toBe("idle")
+
+  service.setForeground(false)
+  service.setForeground(true)
+  jest.advanceTimersByTime(10000)
+  expect(sockets).toHaveLength(1)
+
+  setSession({ accessToken: "token-2" })
+  service.reconnect()
+  expect(sockets).toHaveLength(2)
+  expect(sockets[1].headers).toEqual({ Authorization: "Bearer token-2" })
+})
+
+test("refreshes an expiring token before connecting", async () => {
+  const refreshToken = jest.fn(async () => {
+    updateSession({ accessToken: "token-2" })
+    return true
+  })
+  const { service, sockets } = createService({ refreshToken })
+
+  service.subscribe("a", jest.fn())
+  expect(service.getStatus()).toBe("connecting")
+  expect(sockets).toHaveLength(0)
+
+  await Promise.resolve()
+  expect(sockets).toHaveLength(1)
+  expect(sockets[0].headers).toEqual({ Authorization: "Bearer token-2" })
+})
+
+test("drops a refresh that ends after the socket was closed", async () => {
+  let finishRefresh = (_: boolean) => {}
+  const refreshToken = () => new Promise<boolean>((resolve) => (finishRefresh = resolve))
+  const { service, sockets } = createService({ refreshToken })
+
+  const unsubscribe = service.subscribe("a", jest.fn())
+  unsubscribe()
+  finishRefresh(true)
+  await Promise.resolve()
+
+  expect(sockets).toHaveLength(0)
+  expect(service.getStatus()).toBe("idle")
+})
+
+test("connects once signed in when subscribed while signed out", () => {
+  const sockets: FakeSocket[] = []
+  const NativeWebSocket = global.WebSocket
+  global.WebSocket = jest.fn((url: string, _: unknown, { headers }: any) => {
+    const socket = new FakeSocket(url, headers)
+    sockets.push(socket)
+    return socket
+  }) as any
+
+  clearSession()
+  const unsubscribe = realtime.subscribe("a", jest.fn())
+  expect(sockets).toHaveLength(0)
+
+  setSession({ accessToken: "token-2" })
+  expect(sockets).toHaveLength(1)
+  expect(sockets[0].headers).toEqual({ Authorization: "Bearer token-2" })
+
+  unsubscribe()
+  global.WebSocket = NativeWebSocket
+})
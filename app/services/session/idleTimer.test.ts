@@ -0,0 +1,88 @@
+import { IdleTimer } from "./idleTimer"
+
+function createTimer() {
+  const onWarning = jest.fn()
+  const onActive = jest.fn()
+  const onTimeout = jest.fn()
+  const timer = new IdleTimer({
+    timeout: 10000,
+    warningDuration: 3000,
+    onWarning,
+    onActive,
+    onTimeout,
+  })
+  return { timer, onWarning, onActive, onTimeout }
+}
+
+beforeEach(() => {
+  jest.useFakeTimers()
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+})
+
+test("warns, counts down every second and times out", () => {
+  const { timer, onWarning, onTimeout } = createTimer()
+  timer.start()
+
+  jest.advanceTimersByTime(6999)
+  expect(onWarning).not.toHaveBeenCalled()
+
+  jest.advanceTimersByTime(1)
+  expect(onWarning).toHaveBeenLastCalledWith(3000)
+
+  jest.advanceTimersByTime(2000)
+  expect(onWarning.mock.calls.map(([remaining]) => remaining)).toEqual([3000, 2000, 1000])
+  expect(onTimeout).not.toHaveBeenCalled()
+
+  jest.advanceTimersByTime(1000)
+  expect(onTimeout).toHaveBeenCalledTimes(1)
+
+  jest.advanceTimersByTime(60000)
+  expect(onTimeout).toHaveBeenCalledTimes(1)
+})
+
+test("activity restarts the countdown and ends the warning", () => {
+  const { timer, onWarning, onActive, onTimeout } = createTimer()
+  timer.start()
+
+  jest.advanceTimersByTime(5000)
+  timer.touch()
+  expect(onActive).not.toHaveBeenCalled()
+
+  jest.advanceTimersByTime(8000)
+  expect(onWarning).toHaveBeenCalled()
+  timer.touch()
+  expect(onActive).toHaveBeenCalledTimes(1)
+
+  jest.advanceTimersByTime(9999)
+  expect(onTimeout).not.toHaveBeenCalled()
+})
+
+test("counts time spent in the background", () => {
+  const { timer, onTimeout } = createTimer()
+  timer.start()
+
+  timer.setForeground(false)
+  // Touches can't happen in the background, and timers don't run there
+  timer.touch()
+  jest.setSystemTime(Date.now() + 60000)
+  expect(onTimeout).not.toHaveBeenCalled()
+
+  timer.setForeground(true)
+  expect(onTimeout).toHaveBeenCalledTimes(1)
+})
+
+test("warns right away when coming back inside the warning period", () => {
+  const { timer, onWarning, onTimeout } = createTimer()
+  timer.start()
+
+  timer.setForeground(false)
+  jest.setSystemTime(Date.now() + 8500)
+  timer.setForeground(true)
+
+  expect(onWarning).toHaveBeenCalledWith(1500)
+  jest.advanceTimersByTime(1500)
+  expect(onTimeout).toHaveBeenCalled()
+})
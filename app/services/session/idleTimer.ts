@@ -0,0 +1,103 @@
+/**
+ * idleTimer.ts
+ * Ends sessions after a period without user activity
+ */
+
+export interface IdleTimerOptions {
+  /**
+   * Milliseconds without activity before `onTimeout`
+   */
+  timeout: number
+  /**
+   * Milliseconds before the timeout during which `onWarning` counts down
+   */
+  warningDuration: number
+  /**
+   * Called when the warning starts, then every second until the timeout
+   */
+  onWarning: (remaining: number) => void
+  /**
+   * Called when activity ends the warning
+   */
+  onActive: () => void
+  onTimeout: () => void
+}
+
+/**
+ * Counts inactivity on the wall clock, so time spent in the background, when JS timers
+ * don't run, counts too.
+ */
+export class IdleTimer {
+  private lastActivity = Date.now()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running = false
+  private foreground = true
+  private warning = false
+
+  constructor(private options: IdleTimerOptions) {}
+
+  start(): void {
+    this.running = true
+    this.lastActivity = Date.now()
+    this.schedule()
+  }
+
+  stop(): void {
+    this.running = false
+    this.warning = false
+    this.clearTimer()
+  }
+
+  /**
+   * Record activity, e.g. a touch or a navigation. Ends the warning.
+   */
+  touch(): void {
+    if (!this.running || !this.foreground) return
+    this.lastActivity = Date.now()
+    if (this.warning) {
+      this.warning = false
+      this.options.onActive()
+    }
+    this.schedule()
+  }
+
+  /**
+   * Pause the timers in the background. Back in the foreground, the time away counts as idle.
+   */
+  setForeground(foreground: boolean): void {
+    this.foreground = foreground
+    if (!this.running) return
+    if (foreground) {
+      this.schedule()
+    } else {
+      this.clearTimer()
+    }
+  }
+
+  private schedule(): void {
+    this.clearTimer()
+    if (!this.running || !this.foreground) return
+
+    const remaining = this.lastActivity + this.options.timeout - Date.now()
+    if (remaining <= 0) {
+      this.stop()
+      this.options.onTimeout()
+      return
+    }
+
+    if (remaining > this.options.warningDuration) {
+      this.timer = setTimeout(() => this.schedule(), remaining - this.options.warningDuration)
+      return
+    }
+
+    this.warning = true
+    this.options.onWarning(remaining)
+    // Next whole second of the countdown
+    this.timer = setTimeout(() => this.schedule(), remaining % 1000 || 1000)
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+}
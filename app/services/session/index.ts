@@ -0,0 +1,307 @@
+/**
+ * session/index.ts
+ * Single source of truth for the signed-in session, shared by AuthContext and ApiService.
+ * Every signed-in account keeps its session, and one of them is active at a time.
+ * Kept in the encrypted storage.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage"
+
+import { getJwtExpiry } from "@/utils/jwt"
+import { load, remove } from "@/utils/storage"
+import { loadSecure, removeSecure, saveSecure } from "@/utils/storage/secureStorage"
+
+/**
+ * The session of the active account
+ */
+export const SESSION_STORAGE_KEY = "session"
+/**
+ * The sessions of every signed-in account, by account id
+ */
+export const ACCOUNTS_STORAGE_KEY = "accounts"
+
+/**
+ * The persisted session of the signed-in user
+ */
+export interface Session {
+  /**
+   * Bearer token sent with every authenticated request
+   */
+  accessToken: string
+  /**
+   * Token used to obtain a new access token once it expires
+   */
+  refreshToken?: string
+  /**
+   * Access token expiry, in milliseconds since epoch
+   */
+  expiresAt?: number
+  /**
+   * Identifier of the signed-in user
+   */
+  userId?: string
+  /**
+   * Email the user signed in with, to tell accounts apart
+   */
+  email?: string
+  /**
+   * Set for sessions from the company identity provider, whose tokens are refreshed there
+   * instead of at the api
+   */
+  provider?: SessionProvider
+}
+
+/**
+ * Where the tokens of a session were issued, see `services/oidc`
+ */
+export interface SessionProvider {
+  tokenEndpoint: string
+  clientId: string
+}
+
+/**
+ * A signed-in account, without its tokens
+ */
+export interface Account {
+  id: string
+  userId?: string
+  email?: string
+  isActive: boolean
+}
+
+type SessionExpiredListener = () => void
+type AccountSwitchListener = (accountId: string) => void
+type SessionStartListener = (accountId: string) => void
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>()
+const accountSwitchListeners = new Set<AccountSwitchListener>()
+const sessionStartListeners = new Set<SessionStartListener>()
+
+/**
+ * Identifies the account of a session, to namespace its data.
+ *
+ * @param session The session of the account.
+ */
+export function getAccountId(session: Session): string {
+  return session.userId ?? session.email ?? "default"
+}
+
+const loadAccounts = () => loadSecure<Record<string, Session>>(ACCOUNTS_STORAGE_KEY) ?? {}
+
+/**
+ * Loads the current session, or null when signed out.
+ */
+export function getSession(): Session | null {
+  const session = loadSecure<Session>(SESSION_STORAGE_KEY)
+  return session?.accessToken ? session : null
+}
+
+/**
+ * When the access token of a session expires, from the session or else the token itself.
+ *
+ * @param session The session.
+ * @returns Milliseconds since epoch, or undefined when unknown.
+ */
+export function getSessionExpiry(session: Session): number | undefined {
+  return session.expiresAt ?? getJwtExpiry(session.accessToken)
+}
+
+/**
+ * Id of the active account, or null when signed out.
+ */
+export function getActiveAccountId(): string | null {
+  const session = getSession()
+  return session ? getAccountId(session) : null
+}
+
+/**
+ * Replaces the current session, and makes its account the active one.
+ * Signing in to another account adds it next to the accounts already signed in.
+ * Notifies `onSessionStart` when the active account changes.
+ *
+ * @param session The session to store.
+ */
+export function setSession(session: Session): void {
+  const previousId = getActiveAccountId()
+  const accountId = getAccountId(session)
+  saveSecure(SESSION_STORAGE_KEY, session)
+  saveSecure(ACCOUNTS_STORAGE_KEY, { ...loadAccounts(), [accountId]: session })
+  if (accountId !== previousId) {
+    sessionStartListeners.forEach((listener) => listener(accountId))
+  }
+}
+
+/**
+ * Merges new values into a session, e.g. after a token refresh.
+ * Does nothing when the account is signed out.
+ *
+ * @param changes The fields to update.
+ * @param accountId The account, the active one by default. A refresh that ends after
+ * a switch still updates the account it started for.
+ */
+export function updateSession(changes: Partial<Session>, accountId?: string): void {
+  if (!accountId || accountId === getActiveAccountId()) {
+    const session = getSession()
+    if (session) setSession({ ...session, ...changes })
+    return
+  }
+
+  const accounts = loadAccounts()
+  if (!accounts[accountId]) return
+  saveSecure(ACCOUNTS_STORAGE_KEY, {
+    ...accounts,
+    [accountId]: { ...accounts[accountId], ...changes },
+  })
+}
+
+/**
+ * Signs the active account out, leaving no account active.
+ */
+export function clearSession(): void {
+  const accountId = getActiveAccountId()
+  removeSecure(SESSION_STORAGE_KEY)
+  if (accountId) removeAccount(accountId)
+}
+
+/**
+ * Lists the signed-in accounts, the active one included.
+ */
+export function listAccounts(): Account[] {
+  const activeId = getActiveAccountId()
+  return Object.entries(loadAccounts()).map(([id, session]) => ({
+    id,
+    userId: session.userId,
+    email: session.email,
+    isActive: id === activeId,
+  }))
+}
+
+/**
+ * Makes another signed-in account the active one.
+ *
+ * @param accountId The id of the account.
+ * @returns False when the account is not signed in.
+ */
+export function switchAccount(accountId: string): boolean {
+  const session = loadAccounts()[accountId]
+  if (!session?.accessToken) return false
+  if (getActiveAccountId() === accountId) return true
+
+  saveSecure(SESSION_STORAGE_KEY, session)
+  accountSwitchListeners.forEach((listener) => listener(accountId))
+  return true
+}
+
+/**
+ * Leaves the active account signed in, but not active, so another account can sign in.
+ */
+export function deactivateSession(): void {
+  removeSecure(SESSION_STORAGE_KEY)
+}
+
+/**
+ * Forgets the session of an account. Removing the active account signs it out.
+ *
+ * @param accountId The id of the account.
+ */
+export function removeAccount(accountId: string): void {
+  if (getActiveAccountId() === accountId) removeSecure(SESSION_STORAGE_KEY)
+  const accounts = loadAccounts()
+  delete accounts[accountId]
+  saveSecure(ACCOUNTS_STORAGE_KEY, accounts)
+}
+
+/**
+ * Signs every account out, e.g. when switching to another backend.
+ */
+export function clearAccounts(): void {
+  removeSecure(SESSION_STORAGE_KEY)
+  removeSecure(ACCOUNTS_STORAGE_KEY)
+}
+
+/**
+ * Signs the active account out and notifies listeners that the server no longer accepts it.
+ */
+export function expireSession(): void {
+  clearSession()
+  sessionExpiredListeners.forEach((listener) => listener())
+}
+
+/**
+ * Subscribes to session expiry.
+ *
+ * @param listener Called after the session has been cleared.
+ * @returns A function that removes the listener.
+ */
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  sessionExpiredListeners.add(listener)
+  return () => {
+    sessionExpiredListeners.delete(listener)
+  }
+}
+
+/**
+ * Subscribes to switches of the active account, e.g. to reconnect with its token.
+ *
+ * @param listener Called with the id of the account that became active.
+ * @returns A function that removes the listener.
+ */
+export function onAccountSwitch(listener: AccountSwitchListener): () => void {
+  accountSwitchListeners.add(listener)
+  return () => {
+    accountSwitchListeners.delete(listener)
+  }
+}
+
+/**
+ * Subscribes to sign-ins, e.g. to connect with the new token. Token refreshes of the
+ * active account are not sign-ins.
+ *
+ * @param listener Called with the id of the account that signed in.
+ * @returns A function that removes the listener.
+ */
+export function onSessionStart(listener: SessionStartListener): () => void {
+  sessionStartListeners.add(listener)
+  return () => {
+    sessionStartListeners.delete(listener)
+  }
+}
+
+/**
+ * Where older versions kept tokens in plain text
+ */
+const LEGACY_ASYNC_STORAGE_KEYS = {
+  accessToken: "@tallygreen_access_token",
+  refreshToken: "@tallygreen_refresh_token",
+}
+const LEGACY_AUTH_TOKEN_KEY = "AuthProvider.authToken"
+
+/**
+ * Moves a session stored in plain text by older versions into the encrypted storage,
+ * and deletes the plain text copies. Run once at startup, before anything reads the session.
+ */
+export async function migrateLegacySession(): Promise<void> {
+  const stored = load<Session>(SESSION_STORAGE_KEY)
+  const authToken = load<string>(LEGACY_AUTH_TOKEN_KEY)
+  const [[, accessToken], [, refreshToken]] = await AsyncStorage.multiGet([
+    LEGACY_ASYNC_STORAGE_KEYS.accessToken,
+    LEGACY_ASYNC_STORAGE_KEYS.refreshToken,
+  ])
+
+  // The newest format wins, and a session already in the encrypted storage wins over all
+  const legacy: Session | null = stored?.accessToken
+    ? stored
+    : authToken
+      ? { accessToken: String(authToken) }
+      : accessToken
+        ? { accessToken, refreshToken: refreshToken ?? undefined }
+        : null
+  if (legacy && !getSession()) setSession(legacy)
+  // Sessions stored before multiple accounts also join the list of accounts
+  const session = getSession()
+  if (session) setSession(session)
+
+  remove(SESSION_STORAGE_KEY)
+  remove(LEGACY_AUTH_TOKEN_KEY)
+  await AsyncStorage.multiRemove(Object.values(LEGACY_ASYNC_STORAGE_KEYS))
+}
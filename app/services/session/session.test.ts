@@ -0,0 +1,128 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+
+import { load, save, storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import {
+  clearSession,
+  getSession,
+  listAccounts,
+  migrateLegacySession,
+  onAccountSwitch,
+  onSessionStart,
+  SESSION_STORAGE_KEY,
+  setSession,
+  switchAccount,
+  updateSession,
+} from "./index"
+
+beforeEach(async () => {
+  storage.clearAll()
+  secureStorage.clearAll()
+  await AsyncStorage.clear()
+})
+
+test("keeps the session in the encrypted storage only", () => {
+  setSession({ accessToken: "token-1" })
+
+  expect(getSession()).toEqual({ accessToken: "token-1" })
+  expect(secureStorage.getString(SESSION_STORAGE_KEY)).toBeDefined()
+  expect(storage.getAllKeys()).toEqual([])
+})
+
+test("moves a plain text session out of the default storage", async () => {
+  save(SESSION_STORAGE_KEY, { accessToken: "token-1", refreshToken: "refresh-1" })
+
+  await migrateLegacySession()
+
+  expect(getSession()).toEqual({ accessToken: "token-1", refreshToken: "refresh-1" })
+  expect(load(SESSION_STORAGE_KEY)).toBeNull()
+})
+
+test("moves tokens out of AsyncStorage and the old auth token key", async () => {
+  await AsyncStorage.multiSet([
+    ["@tallygreen_access_token", "token-1"],
+    ["@tallygreen_refresh_token", "refresh-1"],
+  ])
+
+  await migrateLegacySession()
+
+  expect(getSession()).toEqual({ accessToken: "token-1", refreshToken: "refresh-1" })
+  expect(await AsyncStorage.getAllKeys()).toEqual([])
+
+  storage.set("AuthProvider.authToken", "token-2")
+  secureStorage.clearAll()
+
+  await migrateLegacySession()
+
+  expect(getSession()).toEqual({ accessToken: "token-2" })
+  expect(storage.getAllKeys()).toEqual([])
+})
+
+test("does not replace a session already migrated", async () => {
+  setSession({ accessToken: "current" })
+  save(SESSION_STORAGE_KEY, { accessToken: "stale" })
+
+  await migrateLegacySession()
+
+  expect(getSession()).toEqual({ accessToken: "current" })
+  expect(load(SESSION_STORAGE_KEY)).toBeNull()
+})
+
+test("keeps every signed-in account and switches between them", () => {
+  const listener = jest.fn()
+  const unsubscribe = onAccountSwitch(listener)
+  setSession({ accessToken: "token-1", userId: "1", email: "a@example.com" })
+  setSession({ accessToken: "token-2", userId: "2", email: "b@example.com" })
+
+  expect(listAccounts()).toEqual([
+    { id: "1", userId: "1", email: "a@example.com", isActive: false },
+    { id: "2", userId: "2", email: "b@example.com", isActive: true },
+  ])
+
+  expect(switchAccount("1")).toBe(true)
+  expect(getSession()?.accessToken).toBe("token-1")
+  expect(listener).toHaveBeenCalledWith("1")
+  expect(switchAccount("3")).toBe(false)
+  unsubscribe()
+})
+
+test("notifies sign-ins but not token refreshes", () => {
+  const listener = jest.fn()
+  const unsubscribe = onSessionStart(listener)
+  setSession({ accessToken: "token-1", userId: "1" })
+  updateSession({ accessToken: "token-1b" })
+  setSession({ accessToken: "token-2", userId: "2" })
+
+  expect(listener.mock.calls).toEqual([["1"], ["2"]])
+  unsubscribe()
+})
+
+test("signs out the active account only", () => {
+  setSession({ accessToken: "token-1", userId: "1" })
+  setSession({ accessToken: "token-2", userId: "2" })
+
+  clearSession()
+
+  expect(getSession()).toBeNull()
+  expect(listAccounts().map((account) => account.id)).toEqual(["1"])
+})
+
+test("updates the account a refresh started for, even after a switch", () => {
+  setSession({ accessToken: "token-1", userId: "1" })
+  setSession({ accessToken: "token-2", userId: "2" })
+
+  updateSession({ accessToken: "token-1b" }, "1")
+
+  expect(getSession()?.accessToken).toBe("token-2")
+  switchAccount("1")
+  expect(getSession()?.accessToken).toBe("token-1b")
+})
+
+test("adds a session stored before multiple accounts to the accounts", async () => {
+  secureStorage.set(SESSION_STORAGE_KEY, JSON.stringify({ accessToken: "token-1", userId: "1" }))
+
+  await migrateLegacySession()
+
+  expect(listAccounts()).toEqual([{ id: "1", userId: "1", isActive: true }])
+})
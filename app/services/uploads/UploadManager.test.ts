@@ -0,0 +1,243 @@
+import { AxiosError } from "axios"
+
+import { ApiService } from "@/services/api/ApiService"
+import { createMockAdapter, json, MockRequest, MockSettings } from "@/services/api/mock/mockAdapter"
+import { setSession } from "@/services/session"
+import { storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { UploadManager, UploadManagerOptions } from "./UploadManager"
+
+import { getUploads } from "./index"
+
+/**
+ * A fake upload server that records the chunks it receives
+ */
+function createServer(settings: Partial<MockSettings> = {}) {
+  const chunks: Record<string, number[]> = {}
+  let sessions = 0
+  let inFlight = 0
+  let maxInFlight = 0
+  let failChunk: number | null = null
+
+  const client = new ApiService({
+    url: "https://api.test",
+    timeout: 1000,
+    retry: false,
+    adapter: createMockAdapter(
+      [
+        {
+          method: "post",
+          path: "/uploads",
+          handler: () => {
+            const uploadId = `u${++sessions}`
+            chunks[uploadId] = []
+            return json({ uploadId }, 201)
+          },
+        },
+        {
+          method: "put",
+          path: "/uploads/:uploadId/chunks/:index",
+          handler: async ({ params }: MockRequest) => {
+            const index = Number(params.index)
+            if (index === failChunk) {
+              failChunk = null
+              throw new AxiosError("Network Error", AxiosError.ERR_NETWORK)
+            }
+            inFlight += 1
+            maxInFlight = Math.max(maxInFlight, inFlight)
+            await new Promise((resolve) => setTimeout(resolve, 1))
+            inFlight -= 1
+            chunks[params.uploadId].push(index)
+            return json({})
+          },
+        },
+        {
+          method: "post",
+          path: "/uploads/:uploadId/complete",
+          handler: ({ params }: MockRequest) => json({ fileId: `file-${params.uploadId}` }),
+        },
+        { method: "delete", path: "/uploads/:uploadId", handler: () => json(undefined, 204) },
+      ],
+      { settings: { enabled: true, latency: 0, ...settings } },
+    ),
+  })
+
+  return {
+    client,
+    chunks,
+    get maxInFlight() {
+      return maxInFlight
+    },
+    failOnChunk: (index: number) => {
+      failChunk = index
+    },
+  }
+}
+
+const files: UploadManagerOptions["files"] = {
+  size: () => 10,
+  read: async (_uri, offset, length) => new Uint8Array(length).fill(offset),
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50))
+
+/**
+ * Waits until every upload has one of the given statuses
+ */
+async function waitForStatus(...statuses: string[]) {
+  for (let i = 0; i < 100; i++) {
+    if (getUploads().every((upload) => statuses.includes(upload.status))) return
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {})
+})
+
+beforeEach(() => {
+  storage.clearAll()
+  secureStorage.clearAll()
+})
+
+test("uploads every chunk and completes the upload", async () => {
+  const server = createServer()
+  const manager = new UploadManager({ client: server.client, chunkSize: 4, files })
+
+  const [entry] = manager.enqueue({ uri: "file:///photo.jpg", type: "image/jpeg" })
+  await waitForStatus("completed")
+
+  expect(server.chunks.u1).toEqual([0, 1, 2])
+  expect(getUploads()).toEqual([
+    expect.objectContaining({
+      id: entry.id,
+      fileName: "photo.jpg",
+      status: "completed",
+      completedChunks: [0, 1, 2],
+      result: { fileId: "file-u1" },
+    }),
+  ])
+})
+
+test("waits on connection problems and resumes after the stored chunks", async () => {
+  const server = createServer()
+  const manager = new UploadManager({ client: server.client, chunkSize: 4, files })
+  server.failOnChunk(1)
+
+  manager.enqueue({ uri: "file:///photo.jpg" })
+  await waitForStatus("waiting")
+
+  expect(getUploads()[0]).toMatchObject({ status: "waiting", completedChunks: [0] })
+
+  manager.resumeAll()
+  await waitForStatus("completed")
+
+  expect(server.chunks.u1).toEqual([0, 1, 2])
+  expect(getUploads()[0]).toMatchObject({ status: "completed", uploadId: "u1" })
+})
+
+test("resumes interrupted uploads after a restart", async () => {
+  const server = createServer()
+  storage.set(
+    "uploads",
+    JSON.stringify([
+      {
+        id: "a",
+        uri: "file:///photo.jpg",
+        fileName: "photo.jpg",
+        mimeType: "image/jpeg",
+        size: 10,
+        chunkSize: 4,
+        uploadId: "u9",
+        completedChunks: [0, 1],
+        status: "uploading",
+        createdAt: 0,
+      },
+    ]),
+  )
+  server.chunks.u9 = [0, 1]
+
+  new UploadManager({ client: server.client, files }).resumeAll()
+  await waitForStatus("completed")
+
+  expect(server.chunks.u9).toEqual([0, 1, 2])
+  expect(getUploads()[0]).toMatchObject({ status: "completed" })
+})
+
+test("pauses and resumes", async () => {
+  const server = createServer({ latency: 5 })
+  const manager = new UploadManager({ client: server.client, chunkSize: 4, files })
+
+  const [entry] = manager.enqueue({ uri: "file:///photo.jpg" })
+  manager.pause(entry.id)
+  await settle()
+
+  expect(getUploads()[0].status).toBe("paused")
+
+  manager.resume(entry.id)
+  await waitForStatus("completed")
+
+  expect(getUploads()[0].status).toBe("completed")
+})
+
+test("limits the uploads running at once", async () => {
+  const server = createServer()
+  const manager = new UploadManager({ client: server.client, chunkSize: 4, concurrency: 2, files })
+
+  manager.enqueue(
+    { uri: "file:///1.jpg" },
+    { uri: "file:///2.jpg" },
+    { uri: "file:///3.jpg" },
+    { uri: "file:///4.jpg" },
+  )
+  await waitForStatus("completed")
+
+  expect(server.maxInFlight).toBe(2)
+  expect(getUploads().every((upload) => upload.status === "completed")).toBe(true)
+})
+
+test("cancel drops the upload", async () => {
+  const server = createServer({ latency: 5 })
+  const manager = new UploadManager({ client: server.client, chunkSize: 4, files })
+
+  const [entry] = manager.enqueue({ uri: "file:///photo.jpg" })
+  await manager.cancel(entry.id)
+  await settle()
+
+  expect(getUploads()).toEqual([])
+})
+
+test("stops the uploads of an account when another one becomes active", async () => {
+  const server = createServer({ latency: 5 })
+  const manager = new UploadManager({ client: server.client, chunkSize: 4, files })
+  setSession({ accessToken: "token-1", userId: "1" })
+  manager.enqueue({ uri: "file:///photo.jpg" })
+
+  setSession({ accessToken: "token-2", userId: "2" })
+  manager.stopAll()
+  manager.resumeAll()
+  await settle()
+
+  expect(getUploads()).toEqual([])
+  expect(getUploads("1")).toMatchObject([{ status: "uploading", completedChunks: [] }])
+
+  setSession({ accessToken: "token-1", userId: "1" })
+  manager.resumeAll()
+  await waitForStatus("completed")
+
+  expect(getUploads()).toMatchObject([{ status: "completed", completedChunks: [0, 1, 2] }])
+})
+
+test("clear drops the uploads of an account", async () => {
+  const server = createServer({ latency: 5 })
+  const manager = new UploadManager({ client: server.client, chunkSize: 4, files })
+  setSession({ accessToken: "token-1", userId: "1" })
+  manager.enqueue({ uri: "file:///photo.jpg" })
+
+  manager.clear("1")
+  await settle()
+
+  expect(getUploads("1")).toEqual([])
+  expect(server.chunks.u1 ?? []).toEqual([])
+})
@@ -0,0 +1,313 @@
+/**
+ * UploadManager.ts
+ * Sends queued files in chunks, a few files at a time, resuming where they stopped
+ *
+ * Server protocol, relative to `path`:
+ * - `POST /uploads` with `{ fileName, mimeType, size, chunkSize, chunkCount }` returns `{ uploadId }`
+ * - `PUT /uploads/:uploadId/chunks/:index` with the raw bytes of the chunk
+ * - `POST /uploads/:uploadId/complete` assembles the file and returns it
+ * - `DELETE /uploads/:uploadId` drops a cancelled upload
+ */
+
+import { File } from "expo-file-system"
+
+import { ApiService, apiService } from "@/services/api/ApiService"
+import { createOutboxKey } from "@/services/outbox"
+import { getActiveAccountId, onAccountSwitch, onSessionExpired } from "@/services/session"
+
+import {
+  addUpload,
+  clearUploads,
+  getChunkCount,
+  getUploads,
+  removeUpload,
+  UploadEntry,
+  updateUpload,
+} from "./index"
+
+/**
+ * A file to upload, e.g. a `PickedImage` from the image picker
+ */
+export interface UploadFile {
+  uri: string
+  fileName?: string
+  /**
+   * MIME type
+   */
+  type?: string
+  /**
+   * Bytes. Read from the file when omitted.
+   */
+  fileSize?: number
+}
+
+/**
+ * Reads files from disk. Replaceable in tests.
+ */
+export interface UploadFileReader {
+  size: (uri: string) => number
+  read: (uri: string, offset: number, length: number) => Promise<Uint8Array>
+}
+
+export interface UploadManagerOptions {
+  client?: ApiService
+  /**
+   * Base path of the upload endpoints
+   */
+  path?: string
+  /**
+   * Bytes per chunk
+   */
+  chunkSize?: number
+  /**
+   * Files uploaded at the same time
+   */
+  concurrency?: number
+  files?: UploadFileReader
+}
+
+const expoFileReader: UploadFileReader = {
+  size: (uri) => new File(uri).size,
+  read: async (uri, offset, length) => {
+    const handle = new File(uri).open()
+    try {
+      handle.offset = offset
+      return handle.readBytes(length)
+    } finally {
+      handle.close()
+    }
+  },
+}
+
+export class UploadManager {
+  private client: ApiService
+  private path: string
+  private chunkSize: number
+  private concurrency: number
+  private files: UploadFileReader
+  /**
+   * Aborts the requests of uploads that are running
+   */
+  private running = new Map<string, AbortController>()
+
+  constructor(options: UploadManagerOptions = {}) {
+    this.client = options.client ?? apiService
+    this.path = options.path ?? "/uploads"
+    this.chunkSize = options.chunkSize ?? 1024 * 1024
+    this.concurrency = options.concurrency ?? 2
+    this.files = options.files ?? expoFileReader
+  }
+
+  /**
+   * Queue files and start uploading them.
+   *
+   * @param files The files to upload.
+   */
+  enqueue(...files: UploadFile[]): UploadEntry[] {
+    const entries = files.map((file) => {
+      const entry: UploadEntry = {
+        id: createOutboxKey(),
+        uri: file.uri,
+        fileName: file.fileName ?? file.uri.split("/").pop() ?? "file",
+        mimeType: file.type ?? "application/octet-stream",
+        size: file.fileSize ?? this.files.size(file.uri),
+        chunkSize: this.chunkSize,
+        completedChunks: [],
+        status: "queued",
+        createdAt: Date.now(),
+      }
+      addUpload(entry)
+      return entry
+    })
+    this.pump()
+    return entries
+  }
+
+  /**
+   * Stop an upload after the chunk in flight. Stored chunks are kept.
+   */
+  pause(id: string): void {
+    updateUpload(id, { status: "paused" })
+    this.running.get(id)?.abort()
+  }
+
+  /**
+   * Continue a paused, waiting or failed upload from its last stored chunk.
+   */
+  resume(id: string): void {
+    updateUpload(id, { status: "queued", lastError: undefined })
+    this.pump()
+  }
+
+  /**
+   * Stop an upload and drop it, on the server too.
+   */
+  async cancel(id: string): Promise<void> {
+    const entry = getUploads().find((upload) => upload.id === id)
+    this.running.get(id)?.abort()
+    removeUpload(id)
+
+    if (entry?.uploadId && entry.status !== "completed") {
+      await this.client.delete(`${this.path}/${entry.uploadId}`)
+    }
+  }
+
+  /**
+   * Drop the uploads that are done.
+   */
+  clearCompleted(): void {
+    getUploads()
+      .filter((entry) => entry.status === "completed")
+      .forEach((entry) => removeUpload(entry.id))
+  }
+
+  /**
+   * Stop the running uploads, keeping their stored chunks.
+   * They are resumed with `resumeAll` once their account is active again.
+   */
+  stopAll(): void {
+    this.running.forEach((controller) => controller.abort())
+  }
+
+  /**
+   * Stop and drop the uploads of an account signing out.
+   *
+   * @param accountId The account signing out.
+   */
+  clear(accountId: string): void {
+    getUploads(accountId).forEach((entry) => this.running.get(entry.id)?.abort())
+    clearUploads(accountId)
+  }
+
+  /**
+   * Resume uploads stopped by the connection, an account switch or an app restart.
+   * Called when the connection returns.
+   */
+  resumeAll(): void {
+    for (const entry of getUploads()) {
+      const interrupted = entry.status === "uploading" && !this.running.has(entry.id)
+      if (entry.status === "waiting" || interrupted) {
+        updateUpload(entry.id, { status: "queued" })
+      }
+    }
+    this.pump()
+  }
+
+  /**
+   * Start queued uploads while there are free slots
+   */
+  private pump(): void {
+    const accountId = getActiveAccountId()
+    for (const entry of getUploads(accountId)) {
+      if (this.running.size >= this.concurrency) return
+      if (entry.status !== "queued" || this.running.has(entry.id)) continue
+
+      const controller = new AbortController()
+      this.running.set(entry.id, controller)
+      updateUpload(entry.id, { status: "uploading" }, accountId)
+      this.upload(entry, controller.signal, accountId).finally(() => {
+        this.running.delete(entry.id)
+        this.pump()
+      })
+    }
+  }
+
+  /**
+   * Create the upload session if needed, send the missing chunks and complete the upload.
+   * Returns once the upload is done or stopped. Progress is saved to the account that started it.
+   */
+  private async upload(
+    entry: UploadEntry,
+    signal: AbortSignal,
+    accountId: string | null,
+  ): Promise<void> {
+    let { uploadId } = entry
+    const completedChunks = [...entry.completedChunks]
+    const update = (changes: Partial<UploadEntry>) => updateUpload(entry.id, changes, accountId)
+
+    try {
+      if (!uploadId) {
+        const created = await this.client.post<{ uploadId: string }>(
+          this.path,
+          {
+            fileName: entry.fileName,
+            mimeType: entry.mimeType,
+            size: entry.size,
+            chunkSize: entry.chunkSize,
+            chunkCount: getChunkCount(entry),
+          },
+          { signal },
+        )
+        if (created.kind !== "ok") return this.stop(created, update)
+        uploadId = created.data.uploadId
+        update({ uploadId })
+      }
+
+      for (let index = 0; index < getChunkCount(entry); index++) {
+        if (completedChunks.includes(index)) continue
+
+        const start = index * entry.chunkSize
+        const length = Math.min(entry.chunkSize, entry.size - start)
+        const bytes = await this.files.read(entry.uri, start, length)
+        if (signal.aborted) return
+
+        const sent = await this.client.put(
+          `${this.path}/${uploadId}/chunks/${index}`,
+          bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+          {
+            signal,
+            headers: {
+              "Content-Type": "application/octet-stream",
+              "Content-Range": `bytes ${start}-${start + length - 1}/${entry.size}`,
+            },
+          },
+        )
+        if (sent.kind !== "ok") return this.stop(sent, update)
+
+        // Persist every chunk, so a restart resumes after it
+        completedChunks.push(index)
+        update({ completedChunks: [...completedChunks] })
+      }
+
+      const completed = await this.client.post(`${this.path}/${uploadId}/complete`, undefined, {
+        signal,
+      })
+      if (completed.kind !== "ok") return this.stop(completed, update)
+
+      update({ status: "completed", result: completed.data, lastError: undefined })
+    } catch (error) {
+      if (__DEV__) {
+        console.error("[Uploads] Upload failed:", error)
+      }
+      update({ status: "failed", lastError: "unknown" })
+    }
+  }
+
+  /**
+   * Record why an upload stopped. Temporary problems wait for the connection.
+   */
+  private stop(
+    result: { kind: string; temporary?: boolean },
+    update: (changes: Partial<UploadEntry>) => void,
+  ): void {
+    // Paused or cancelled by the user, who already set the status, or stopped by an account switch
+    if (result.kind === "cancelled") return
+
+    update({
+      status: result.temporary ? "waiting" : "failed",
+      lastError: result.kind,
+    })
+  }
+}
+
+// Singleton instance
+export const uploadManager = new UploadManager()
+
+// Chunks go out with the token of the active account: stop the uploads of the previous one
+onAccountSwitch(() => {
+  uploadManager.stopAll()
+  uploadManager.resumeAll()
+})
+onSessionExpired(() => uploadManager.stopAll())
+
+export default uploadManager
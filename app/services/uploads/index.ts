@@ -0,0 +1,146 @@
+/**
+ * uploads/index.ts
+ * Persistent queue of chunked uploads, so they survive dropped connections and restarts
+ */
+
+import { getActiveAccountId } from "@/services/session"
+import { load, remove, save, storage } from "@/utils/storage"
+
+export const UPLOADS_STORAGE_KEY = "uploads"
+
+/**
+ * Storage key of the uploads of an account. Each account keeps its own list.
+ *
+ * @param accountId The account, the active one by default.
+ */
+export const getUploadsKey = (accountId: string | null = getActiveAccountId()) =>
+  accountId ? `${UPLOADS_STORAGE_KEY}.${accountId}` : UPLOADS_STORAGE_KEY
+
+/**
+ * - `queued`: waiting for a free slot
+ * - `uploading`: sending chunks
+ * - `waiting`: stopped by a connection problem, resumes once the connection returns
+ * - `paused`: stopped by the user
+ * - `failed`: rejected by the server, waits for retry or cancel
+ * - `completed`: every chunk is stored and the server assembled the file
+ */
+export type UploadStatus = "queued" | "uploading" | "waiting" | "paused" | "failed" | "completed"
+
+/**
+ * A file being uploaded in chunks
+ */
+export interface UploadEntry {
+  id: string
+  uri: string
+  fileName: string
+  mimeType: string
+  size: number
+  chunkSize: number
+  /**
+   * Id of the upload session on the server, once created
+   */
+  uploadId?: string
+  /**
+   * Indexes of the chunks the server has stored
+   */
+  completedChunks: number[]
+  status: UploadStatus
+  /**
+   * Problem kind of the last failure
+   */
+  lastError?: string
+  /**
+   * Response of the server once the file is assembled
+   */
+  result?: unknown
+  createdAt: number
+}
+
+/**
+ * Number of chunks of an upload.
+ *
+ * @param entry The upload.
+ */
+export function getChunkCount(entry: Pick<UploadEntry, "size" | "chunkSize">): number {
+  return Math.max(1, Math.ceil(entry.size / entry.chunkSize))
+}
+
+/**
+ * Share of the upload the server has stored, between 0 and 1.
+ *
+ * @param entry The upload.
+ */
+export function getUploadProgress(entry: UploadEntry): number {
+  if (entry.status === "completed") return 1
+  return entry.completedChunks.length / getChunkCount(entry)
+}
+
+/**
+ * Loads all uploads, oldest first.
+ *
+ * @param accountId The account, the active one by default.
+ */
+export function getUploads(accountId = getActiveAccountId()): UploadEntry[] {
+  return load<UploadEntry[]>(getUploadsKey(accountId)) ?? []
+}
+
+function saveUploads(entries: UploadEntry[], accountId: string | null): void {
+  save(getUploadsKey(accountId), entries)
+}
+
+/**
+ * Adds an upload to the end of the queue.
+ *
+ * @param entry The upload to add.
+ * @param accountId The account, the active one by default.
+ */
+export function addUpload(entry: UploadEntry, accountId = getActiveAccountId()): void {
+  saveUploads([...getUploads(accountId), entry], accountId)
+}
+
+/**
+ * Merges changes into an upload.
+ *
+ * @param id The upload to update.
+ * @param changes The fields to update.
+ * @param accountId The account, the active one by default.
+ */
+export function updateUpload(
+  id: string,
+  changes: Partial<UploadEntry>,
+  accountId = getActiveAccountId(),
+): void {
+  saveUploads(
+    getUploads(accountId).map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)),
+    accountId,
+  )
+}
+
+/**
+ * Removes an upload from the queue.
+ *
+ * @param id The upload to remove.
+ * @param accountId The account, the active one by default.
+ */
+export function removeUpload(id: string, accountId = getActiveAccountId()): void {
+  saveUploads(
+    getUploads(accountId).filter((entry) => entry.id !== id),
+    accountId,
+  )
+}
+
+/**
+ * Drops the uploads of an account, or of every account when none is given.
+ *
+ * @param accountId The account signing out.
+ */
+export function clearUploads(accountId?: string): void {
+  if (accountId) {
+    remove(getUploadsKey(accountId))
+    return
+  }
+  storage
+    .getAllKeys()
+    .filter((key) => key === UPLOADS_STORAGE_KEY || key.startsWith(`${UPLOADS_STORAGE_KEY}.`))
+    .forEach(remove)
+}
@@ -0,0 +1,100 @@
+/**
+ * user/index.ts
+ * Profile of the signed-in user, fetched from the api and kept per account
+ * so it shows right away on the next start, even offline
+ */
+
+import * as yup from "yup"
+
+import type { ApiResult } from "@/services/api/ApiService"
+import { defineEndpoint } from "@/services/api/defineEndpoint"
+import apiConfig from "@/services/api/env"
+import { getActiveAccountId } from "@/services/session"
+import { load, remove, save, storage } from "@/utils/storage"
+
+export interface UserProfile {
+  id: string
+  name: string
+  email?: string
+  /**
+   * Job title or role name, for display. Access is decided by `roles` and `permissions`.
+   */
+  role?: string
+  avatarUrl?: string
+  /**
+   * Roles granted by the server, added to the ones in the token, see `useAuthorization`.
+   * Needed for opaque tokens, which carry no claims.
+   */
+  roles?: string[]
+  /**
+   * Permissions granted by the server, added to the ones in the token
+   */
+  permissions?: string[]
+}
+
+const userProfileSchema: yup.ObjectSchema<UserProfile> = yup.object({
+  id: yup.string().required(),
+  name: yup.string().required(),
+  email: yup.string(),
+  role: yup.string(),
+  avatarUrl: yup.string(),
+  roles: yup.array(yup.string().required()),
+  permissions: yup.array(yup.string().required()),
+})
+
+export const userEndpoints = {
+  me: defineEndpoint()({
+    method: "get",
+    path: apiConfig.profilePath,
+    response: userProfileSchema,
+  }),
+}
+
+export const CURRENT_USER_STORAGE_KEY = "currentUser"
+
+/**
+ * Storage key of the profile of an account.
+ *
+ * @param accountId The id of the account.
+ */
+export const getCurrentUserKey = (accountId: string) => `${CURRENT_USER_STORAGE_KEY}.${accountId}`
+
+/**
+ * Loads the stored profile of an account.
+ *
+ * @param accountId The id of the account, the active one by default.
+ */
+export function loadCurrentUser(accountId = getActiveAccountId()): UserProfile | null {
+  return accountId ? load<UserProfile>(getCurrentUserKey(accountId)) : null
+}
+
+/**
+ * Fetches the profile of the active account and stores it.
+ *
+ * @returns The result of the request, or null when signed out.
+ */
+export async function refreshCurrentUser(): Promise<ApiResult<UserProfile> | null> {
+  // Stored for the account that asked, even if another one is active by the time it answers
+  const accountId = getActiveAccountId()
+  if (!accountId) return null
+
+  const result = await userEndpoints.me()
+  if (result.kind === "ok") save(getCurrentUserKey(accountId), result.data)
+  return result
+}
+
+/**
+ * Forgets stored profiles, e.g. when signing out.
+ *
+ * @param accountId Only forget the profile of this account. All of them by default.
+ */
+export function clearCurrentUser(accountId?: string): void {
+  if (accountId) {
+    remove(getCurrentUserKey(accountId))
+    return
+  }
+  storage
+    .getAllKeys()
+    .filter((key) => key.startsWith(`${CURRENT_USER_STORAGE_KEY}.`))
+    .forEach(remove)
+}
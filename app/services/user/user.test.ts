@@ -0,0 +1,71 @@
+import { apiService } from "@/services/api/ApiService"
+import { createMockAdapter, json, MockRequest } from "@/services/api/mock/mockAdapter"
+import { getAuthorization } from "@/services/authorization"
+import { setSession, switchAccount } from "@/services/session"
+import { storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { clearCurrentUser, loadCurrentUser, refreshCurrentUser } from "./index"
+
+const profiles: Record<string, object> = {
+  "token-1": { id: "1", name: "Ada Lovelace", role: "Site lead" },
+  "token-2": { id: "2", name: "Grace Hopper" },
+  "token-3": { id: "3", name: "Alan Turing", roles: ["staff"], permissions: ["downloads:view"] },
+}
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {})
+  apiService.setAdapter(
+    createMockAdapter(
+      [
+        {
+          method: "get",
+          path: "/me",
+          handler: ({ headers }: MockRequest) =>
+            json(profiles[headers.Authorization.replace("Bearer ", "")]),
+        },
+      ],
+      { settings: { enabled: true, latency: 0 } },
+    ),
+  )
+})
+
+afterAll(() => {
+  apiService.setAdapter()
+})
+
+beforeEach(() => {
+  storage.clearAll()
+  secureStorage.clearAll()
+})
+
+test("stores the profile of each account", async () => {
+  setSession({ accessToken: "token-1", userId: "1" })
+  await refreshCurrentUser()
+  setSession({ accessToken: "token-2", userId: "2" })
+  await refreshCurrentUser()
+
+  expect(loadCurrentUser()).toEqual({ id: "2", name: "Grace Hopper" })
+  switchAccount("1")
+  expect(loadCurrentUser()).toEqual({ id: "1", name: "Ada Lovelace", role: "Site lead" })
+
+  clearCurrentUser("1")
+  expect(loadCurrentUser()).toBeNull()
+  expect(loadCurrentUser("2")).not.toBeNull()
+})
+
+test("keeps the roles and permissions an opaque token does not carry", async () => {
+  setSession({ accessToken: "token-3", userId: "3" })
+  await refreshCurrentUser()
+  const user = loadCurrentUser()
+
+  expect(user).toMatchObject({ roles: ["staff"], permissions: ["downloads:view"] })
+  expect(getAuthorization("token-3", user ?? {})).toEqual({
+    roles: ["staff"],
+    permissions: ["downloads:view", "data:view", "lists:view"],
+  })
+})
+
+test("does nothing while signed out", async () => {
+  expect(await refreshCurrentUser()).toBeNull()
+})
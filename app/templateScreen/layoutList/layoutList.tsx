@@ -16,8 +16,14 @@ import { InfiniteList } from "@/components/list"
 import { SearchBar } from "@/components/ui/SearchBar/SearchBar"
 import { FilterChips } from "@/components/filters"
 import { BottomSheetContent, BottomSheetSection } from "@/components/ui/BottomSheetContent"
-import { useInfiniteList } from "@/hooks/useInfiniteList"
+import {
+  InfiniteListFetchOptions,
+  InfiniteListFetchResult,
+  useInfiniteList,
+} from "@/hooks/useInfiniteList"
 import { useBottomSheet } from "@/hooks/useBottomSheet"
+import { apiService } from "@/services/api/ApiService"
+import { fromApiResult } from "@/utils/pagination"
 import { scale, scaleFontSize } from "@/utils/responsive"
 import { useAppTheme } from "@/theme/context"
 import {{FEATURE_NAME_PASCAL}}ListView from "./{{FEATURE_NAME_PASCAL}}ListView"
@@ -37,35 +43,23 @@ export interface {{FEATURE_NAME_PASCAL}}Item {
 // ============================================================================
 
 /**
- * Fetch {{FEATURE_NAME}} items from API
- * Replace this with your actual API call
+ * Fetch {{FEATURE_NAME}} items from API.
+ * In development the mock API answers with generated items until a real endpoint exists.
  */
 const fetch{{FEATURE_NAME_PASCAL}}Items = async (
-  options: {
-    page: number
-    pageSize: number
-    searchQuery?: string
-    filters?: Record<string, any>
-  },
-): Promise<{ data: {{FEATURE_NAME_PASCAL}}Item[]; hasMore: boolean; totalCount?: number }> => {
-  // TODO: Replace with actual API call
-  const { page, pageSize } = options
-
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 500))
-
-  // Mock data - replace with actual API response
-  const mockData: {{FEATURE_NAME_PASCAL}}Item[] = Array.from({ length: pageSize }, (_, i) => ({
-    id: `{{FEATURE_NAME_CAMEL}}-${page}-${i}`,
-    name: `${{FEATURE_NAME_PASCAL}} ${(page - 1) * pageSize + i + 1}`,
-    description: `Description for item ${(page - 1) * pageSize + i + 1}`,
-  }))
-
-  return {
-    data: mockData,
-    hasMore: page < 5, // Example: 5 pages max
-    totalCount: pageSize * 5,
-  }
+  options: InfiniteListFetchOptions<{{FEATURE_NAME_PASCAL}}Item>,
+): Promise<InfiniteListFetchResult<{{FEATURE_NAME_PASCAL}}Item>> => {
+  const { page, pageSize, searchQuery, filters, signal } = options
+
+  // For offset, cursor or `Link` header pagination, send `offset`/`cursor` instead
+  // and pass the matching strategy from `@/utils/pagination` as `pagination` to the list.
+  const result = await apiService.get(
+    "/{{FEATURE_NAME_KEBAB}}",
+    { page, pageSize, search: searchQuery || undefined, ...filters },
+    { signal },
+  )
+
+  return fromApiResult(result)
 }
 
 // ============================================================================
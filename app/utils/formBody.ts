@@ -0,0 +1,10 @@
+/**
+ * Encodes values as an `application/x-www-form-urlencoded` body or query string.
+ * URLSearchParams is incomplete in React Native.
+ *
+ * @param params The values to encode.
+ */
+export const toFormBody = (params: Record<string, string>) =>
+  Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join("&")
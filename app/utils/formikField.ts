@@ -0,0 +1,34 @@
+/**
+ * formikField.ts
+ * Binds a Formik field to a `TextField`
+ */
+
+import type { FormikProps } from "formik"
+
+import type { TextFieldProps } from "@/components/TextField"
+
+/**
+ * Value, change and blur handlers, and the error of a field once it was touched or the form
+ * submitted. Errors set from the server show up the same way.
+ *
+ * @example
+ * <TextField {...formikTextField(formik, "email")} labelTx="loginScreen:emailFieldLabel" />
+ */
+export function formikTextField<T>(
+  formik: Pick<
+    FormikProps<T>,
+    "values" | "errors" | "touched" | "submitCount" | "handleChange" | "handleBlur"
+  >,
+  name: keyof T & string,
+): Pick<TextFieldProps, "value" | "onChangeText" | "onBlur" | "helper" | "status"> {
+  const error = formik.touched[name] || formik.submitCount > 0 ? formik.errors[name] : undefined
+  const message = typeof error === "string" ? error : undefined
+
+  return {
+    value: String(formik.values[name] ?? ""),
+    onChangeText: formik.handleChange(name),
+    onBlur: formik.handleBlur(name),
+    helper: message,
+    status: message ? "error" : undefined,
+  }
+}
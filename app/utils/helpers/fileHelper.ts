@@ -3,9 +3,8 @@
  * Helper functions for file operations
  */
 
-import { Platform } from "react-native"
-import * as FileSystem from "expo-file-system"
-import * as Sharing from "expo-sharing"
+import * as FileSystem from "expo-file-system/legacy"
+import Share from "react-native-share"
 
 export interface DownloadOptions {
   /**
@@ -16,6 +15,10 @@ export interface DownloadOptions {
    * Local file path
    */
   localPath: string
+  /**
+   * Request headers, e.g. authorization
+   */
+  headers?: Record<string, string>
   /**
    * Progress callback
    */
@@ -23,15 +26,16 @@ export interface DownloadOptions {
 }
 
 /**
- * Download a file to local storage
+ * Download a file to local storage.
+ * Use the download manager for downloads that can be paused or outlive the screen.
  */
 export const downloadFile = async (options: DownloadOptions): Promise<string> => {
-  const { url, localPath, onProgress } = options
+  const { url, localPath, headers, onProgress } = options
 
   const downloadResumable = FileSystem.createDownloadResumable(
     url,
     localPath,
-    {},
+    { headers },
     (downloadProgress) => {
       const progress =
         downloadProgress.totalBytesWritten / downloadProgress.totalBytesExpectedToWrite
@@ -78,11 +82,7 @@ export const deleteFile = async (fileUri: string): Promise<boolean> => {
  */
 export const shareFile = async (fileUri: string): Promise<void> => {
   try {
-    if (await Sharing.isAvailableAsync()) {
-      await Sharing.shareAsync(fileUri)
-    } else {
-      throw new Error("Sharing is not available on this device")
-    }
+    await Share.open({ url: fileUri, failOnCancel: false })
   } catch (error) {
     console.error("Error sharing file:", error)
     throw error
@@ -94,9 +94,12 @@ export const shareFile = async (fileUri: string): Promise<void> => {
  */
 export const openFile = async (fileUri: string): Promise<void> => {
   try {
-    await Sharing.shareAsync(fileUri, {
-      mimeType: "application/octet-stream",
-      dialogTitle: "Open file",
+    await Share.open({
+      url: fileUri,
+      type: "application/octet-stream",
+      title: "Open file",
+      showAppsToView: true,
+      failOnCancel: false,
     })
   } catch (error) {
     console.error("Error opening file:", error)
@@ -0,0 +1,19 @@
+import { decodeJwt, getJwtExpiry } from "./jwt"
+
+const token = (claims: Record<string, unknown>) =>
+  ["header", Buffer.from(JSON.stringify(claims)).toString("base64url"), "signature"].join(".")
+
+test("decodes the claims, including UTF-8 text", () => {
+  expect(decodeJwt(token({ sub: "1", name: "Zoë Ünal" }))).toEqual({ sub: "1", name: "Zoë Ünal" })
+})
+
+test("returns null for anything but a JWT", () => {
+  expect(decodeJwt("opaque")).toBeNull()
+  expect(decodeJwt("a.b.c")).toBeNull()
+  expect(decodeJwt(undefined)).toBeNull()
+})
+
+test("reads the expiry in milliseconds", () => {
+  expect(getJwtExpiry(token({ exp: 1700000000 }))).toBe(1700000000000)
+  expect(getJwtExpiry(token({ sub: "1" }))).toBeUndefined()
+})
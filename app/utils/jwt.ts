@@ -0,0 +1,55 @@
+/**
+ * jwt.ts
+ * Reads the claims of a JSON Web Token. The signature is not checked: only the server trusts them.
+ */
+
+/**
+ * Claims most servers put in access tokens. Any other claim is kept as is.
+ */
+export interface JwtClaims {
+  sub?: string
+  /**
+   * Expiry, in seconds since epoch
+   */
+  exp?: number
+  iat?: number
+  [claim: string]: unknown
+}
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/")
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="))
+  // Claims are UTF-8, atob hands out one character per byte
+  return decodeURIComponent(
+    Array.from(binary, (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`).join(""),
+  )
+}
+
+/**
+ * Decodes the payload of a token.
+ *
+ * @param token The token, e.g. the access token of the session.
+ * @returns The claims, or null when the token is not a JWT.
+ */
+export function decodeJwt<T extends JwtClaims = JwtClaims>(token?: string | null): T | null {
+  const payload = token?.split(".")[1]
+  if (!payload) return null
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(payload))
+    return claims && typeof claims === "object" ? (claims as T) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads when a token expires.
+ *
+ * @param token The token.
+ * @returns The expiry in milliseconds since epoch, or undefined without an `exp` claim.
+ */
+export function getJwtExpiry(token?: string | null): number | undefined {
+  const exp = decodeJwt(token)?.exp
+  return typeof exp === "number" ? exp * 1000 : undefined
+}
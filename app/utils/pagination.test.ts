@@ -0,0 +1,74 @@
+import {
+  cursorPagination,
+  fromApiResult,
+  offsetPagination,
+  pagePagination,
+  parseLinkHeader,
+} from "./pagination"
+
+const first = { page: 1, offset: 0, cursor: null }
+
+describe("pagination strategies", () => {
+  it("advances pages until a short page when hasMore is omitted", () => {
+    expect(pagePagination.next({ data: [1, 2] }, first, 2)).toEqual({
+      page: 2,
+      offset: 2,
+      cursor: null,
+    })
+    expect(pagePagination.next({ data: [1] }, first, 2)).toBeNull()
+    expect(pagePagination.next({ data: [1], hasMore: true }, first, 2)).not.toBeNull()
+  })
+
+  it("follows nextOffset and stops at the total count", () => {
+    expect(offsetPagination.next({ data: [1, 2], nextOffset: 10 }, first, 2)).toMatchObject({
+      offset: 10,
+    })
+    expect(
+      offsetPagination.next({ data: [1, 2], totalCount: 4 }, { ...first, offset: 2 }, 2),
+    ).toBeNull()
+  })
+
+  it("follows cursors until there is none", () => {
+    expect(cursorPagination.next({ data: [1], nextCursor: "abc" }, first, 20)).toEqual({
+      page: 2,
+      offset: 1,
+      cursor: "abc",
+    })
+    expect(cursorPagination.next({ data: [1], nextCursor: null }, first, 20)).toBeNull()
+  })
+})
+
+describe("parseLinkHeader", () => {
+  it("reads every relation", () => {
+    const header =
+      '<https://api.test/items?page=2>; rel="next", <https://api.test/items?page=9>; rel="last"'
+
+    expect(parseLinkHeader(header)).toEqual({
+      next: "https://api.test/items?page=2",
+      last: "https://api.test/items?page=9",
+    })
+    expect(parseLinkHeader(undefined)).toEqual({})
+  })
+})
+
+describe("fromApiResult", () => {
+  it("reads common page shapes", () => {
+    expect(
+      fromApiResult({ kind: "ok", data: { items: [1], total: 5, next_cursor: "c2" } }),
+    ).toEqual({ data: [1], totalCount: 5, nextCursor: "c2" })
+  })
+
+  it("takes the cursor from the Link header", () => {
+    const result = fromApiResult({
+      kind: "ok",
+      data: [1, 2],
+      headers: { link: '<https://api.test/items?after=2>; rel="next"' },
+    })
+
+    expect(result).toEqual({ data: [1, 2], nextCursor: "https://api.test/items?after=2" })
+  })
+
+  it("throws on problems", () => {
+    expect(() => fromApiResult({ kind: "not-found", message: "Gone" })).toThrow("Gone")
+  })
+})
@@ -0,0 +1,151 @@
+/**
+ * pagination.ts
+ * Pagination strategies for `useInfiniteList`, and an adapter from `ApiService` results
+ */
+
+import type { InfiniteListFetchResult } from "@/hooks/useInfiniteList"
+import type { ApiResult } from "@/services/api/ApiService"
+
+/**
+ * Where the next page starts. Each strategy advances the fields its backend reads.
+ */
+export interface PageParams {
+  /**
+   * Page number, starting at `initialPage`
+   */
+  page: number
+  /**
+   * Items loaded before this page
+   */
+  offset: number
+  /**
+   * Token of the page, null for the first one. The next url for `Link` headers.
+   */
+  cursor: string | null
+}
+
+/**
+ * Decides from a page what the next one is
+ */
+export interface PaginationStrategy {
+  /**
+   * Params of the page after `result`, or null when it was the last one
+   */
+  next: (
+    result: InfiniteListFetchResult<unknown>,
+    params: PageParams,
+    pageSize: number,
+  ) => PageParams | null
+}
+
+/**
+ * `page`/`pageSize`. Without `hasMore`, a short page is the last one.
+ */
+export const pagePagination: PaginationStrategy = {
+  next: (result, params, pageSize) => {
+    const hasMore = result.hasMore ?? result.data.length >= pageSize
+    if (!hasMore) return null
+    return { ...params, page: params.page + 1, offset: params.offset + result.data.length }
+  },
+}
+
+/**
+ * `offset`/`limit`. Follows `nextOffset` when the server sends it,
+ * and stops at `totalCount` or a short page when it sends no `hasMore`.
+ */
+export const offsetPagination: PaginationStrategy = {
+  next: (result, params, pageSize) => {
+    const offset = result.nextOffset ?? params.offset + result.data.length
+    const hasMore =
+      result.hasMore ??
+      (result.totalCount !== undefined
+        ? offset < result.totalCount
+        : result.data.length >= pageSize)
+    if (!hasMore) return null
+    return { ...params, page: params.page + 1, offset }
+  },
+}
+
+/**
+ * Opaque cursor tokens. The list ends when the server sends no `nextCursor`.
+ */
+export const cursorPagination: PaginationStrategy = {
+  next: (result, params) => {
+    if (result.hasMore === false || !result.nextCursor) return null
+    return {
+      page: params.page + 1,
+      offset: params.offset + result.data.length,
+      cursor: result.nextCursor,
+    }
+  },
+}
+
+/**
+ * RFC 5988 `Link` headers: the cursor is the url of the `next` link,
+ * which `fromApiResult` reads from results requested with `includeHeaders`.
+ */
+export const linkPagination: PaginationStrategy = cursorPagination
+
+/**
+ * Parses an RFC 5988 `Link` header into urls by relation.
+ *
+ * @example
+ * parseLinkHeader('<https://api.test/items?page=2>; rel="next"')
+ * // { next: "https://api.test/items?page=2" }
+ */
+export function parseLinkHeader(header?: string | null): Record<string, string> {
+  const links: Record<string, string> = {}
+  if (!header) return links
+
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]*)>(.*)/)
+    if (!match) continue
+    const rel = match[2].match(/;\s*rel\s*=\s*"?([^";]+)"?/i)
+    // A link can have several space separated relations, e.g. rel="next last"
+    rel?.[1]
+      .trim()
+      .split(/\s+/)
+      .forEach((name) => {
+        links[name.toLowerCase()] = match[1]
+      })
+  }
+  return links
+}
+
+/**
+ * Turns an `ApiService` result into a page for `useInfiniteList`, throwing on problems.
+ *
+ * Without `map`, the items are the body when it is an array, or its `data`, `items` or `results`.
+ * `hasMore`, `totalCount` (or `total`), `nextCursor` (or `next_cursor`) and `nextOffset` are read
+ * from the body, and the `next` link of the `Link` header becomes the cursor.
+ *
+ * @param result The api result.
+ * @param map Builds the page from the body instead.
+ */
+export function fromApiResult<T>(
+  result: ApiResult<any>,
+  map?: (data: any) => InfiniteListFetchResult<T>,
+): InfiniteListFetchResult<T> {
+  if (result.kind !== "ok") {
+    throw new Error(result.kind === "queued" ? "Request queued" : (result.message ?? result.kind))
+  }
+
+  const nextLink = parseLinkHeader(result.headers?.["link"]).next
+  if (map) {
+    const page = map(result.data)
+    return nextLink && page.nextCursor === undefined ? { ...page, nextCursor: nextLink } : page
+  }
+
+  const body = result.data ?? {}
+  if (Array.isArray(body)) {
+    return { data: body, nextCursor: nextLink }
+  }
+
+  return {
+    data: body.data ?? body.items ?? body.results ?? [],
+    hasMore: body.hasMore,
+    totalCount: body.totalCount ?? body.total,
+    nextCursor: body.nextCursor ?? body.next_cursor ?? nextLink,
+    nextOffset: body.nextOffset,
+  }
+}
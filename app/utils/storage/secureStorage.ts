@@ -0,0 +1,103 @@
+/**
+ * secureStorage.ts
+ * Encrypted storage for tokens and other secrets. The encryption key is generated on first
+ * launch and kept in the Keychain (iOS) or the Keystore (Android), never in plain storage.
+ */
+
+import * as Crypto from "expo-crypto"
+import * as SecureStore from "expo-secure-store"
+import { MMKV } from "react-native-mmkv"
+
+const ENCRYPTION_KEY_NAME = "secureStorage.encryptionKey"
+
+/**
+ * Reads the key of the encrypted instance, creating it on first launch
+ */
+function getEncryptionKey(): string {
+  const existing = SecureStore.getItem(ENCRYPTION_KEY_NAME)
+  if (existing) return existing
+
+  // MMKV takes keys of up to 16 bytes: 12 random bytes are 16 base64 characters
+  const key = btoa(String.fromCharCode(...Crypto.getRandomBytes(12)))
+  // Readable in the background, e.g. by transfers resumed after a restart, but never restored
+  // onto another device
+  SecureStore.setItem(ENCRYPTION_KEY_NAME, key, {
+    keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  })
+  return key
+}
+
+export const secureStorage = new MMKV({ id: "secure", encryptionKey: getEncryptionKey() })
+
+/**
+ * Loads a value from the encrypted storage.
+ *
+ * @param key The key to fetch.
+ */
+export function loadSecure<T>(key: string): T | null {
+  try {
+    const value = secureStorage.getString(key)
+    return value === undefined ? null : (JSON.parse(value) as T)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Saves a value to the encrypted storage.
+ *
+ * @param key The key to store under.
+ * @param value The value to store, serialized as JSON.
+ */
+export function saveSecure<T>(key: string, value: T): boolean {
+  try {
+    secureStorage.set(key, JSON.stringify(value))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Removes a value from the encrypted storage.
+ *
+ * @param key The key to remove.
+ */
+export function removeSecure(key: string): void {
+  try {
+    secureStorage.delete(key)
+  } catch {}
+}
+
+/**
+ * Removes every secret, e.g. when the user signs out of all accounts.
+ */
+export function clearSecure(): void {
+  try {
+    secureStorage.clearAll()
+  } catch {}
+}
+
+export interface SecureItem<T> {
+  key: string
+  get: () => T | null
+  set: (value: T) => boolean
+  remove: () => void
+}
+
+/**
+ * Typed access to one secret, so its type is declared once.
+ *
+ * @param key The key of the secret.
+ * @example
+ * const pinHash = secureItem<string>("pinHash")
+ * pinHash.set(hash)
+ */
+export function secureItem<T>(key: string): SecureItem<T> {
+  return {
+    key,
+    get: () => loadSecure<T>(key),
+    set: (value) => saveSecure(key, value),
+    remove: () => removeSecure(key),
+  }
+}
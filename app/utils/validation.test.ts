@@ -0,0 +1,35 @@
+import * as yup from "yup"
+
+import { confirmPasswordRule, emailRule, passwordRule } from "./validation"
+
+const errorOf = (schema: yup.Schema, value: unknown) => {
+  try {
+    schema.validateSync(value)
+    return undefined
+  } catch (error) {
+    return (error as yup.ValidationError).message
+  }
+}
+
+test("emails must be present and valid", () => {
+  expect(errorOf(emailRule(), "")).toBe("errors:required")
+  expect(errorOf(emailRule(), "not-an-email")).toBe("errors:invalidEmail")
+  expect(errorOf(emailRule(), " ada@example.com ")).toBeUndefined()
+})
+
+test("passwords need a length, both cases and a digit", () => {
+  expect(errorOf(passwordRule(), "Ab1")).toBe("errors:passwordTooShort")
+  expect(errorOf(passwordRule(), "ABCDEFG1")).toBe("errors:passwordNeedsLowercase")
+  expect(errorOf(passwordRule(), "abcdefg1")).toBe("errors:passwordNeedsUppercase")
+  expect(errorOf(passwordRule(), "Abcdefgh")).toBe("errors:passwordNeedsDigit")
+  expect(errorOf(passwordRule(), "Abcdefg1")).toBeUndefined()
+})
+
+test("the confirmation must match the password", () => {
+  const schema = yup.object({ password: passwordRule(), confirmPassword: confirmPasswordRule() })
+
+  expect(errorOf(schema, { password: "Abcdefg1", confirmPassword: "Abcdefg2" })).toBe(
+    "errors:passwordsDontMatch",
+  )
+  expect(errorOf(schema, { password: "Abcdefg1", confirmPassword: "Abcdefg1" })).toBeUndefined()
+})
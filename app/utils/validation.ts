@@ -0,0 +1,41 @@
+/**
+ * validation.ts
+ * Shared yup rules for forms. Messages are translated when a field is validated,
+ * so they follow language changes.
+ */
+
+import * as yup from "yup"
+
+import { translate } from "@/i18n/translate"
+
+export const PASSWORD_MIN_LENGTH = 8
+
+export const emailRule = () =>
+  yup
+    .string()
+    .trim()
+    .required(() => translate("errors:required"))
+    .email(() => translate("errors:invalidEmail"))
+
+/**
+ * At least 8 characters, with a lowercase letter, an uppercase letter and a digit
+ */
+export const passwordRule = () =>
+  yup
+    .string()
+    .required(() => translate("errors:required"))
+    .min(PASSWORD_MIN_LENGTH, () =>
+      translate("errors:passwordTooShort", { count: PASSWORD_MIN_LENGTH }),
+    )
+    .matches(/[a-z]/, () => translate("errors:passwordNeedsLowercase"))
+    .matches(/[A-Z]/, () => translate("errors:passwordNeedsUppercase"))
+    .matches(/\d/, () => translate("errors:passwordNeedsDigit"))
+
+/**
+ * Must equal the `password` field of the same form
+ */
+export const confirmPasswordRule = (field = "password") =>
+  yup
+    .string()
+    .required(() => translate("errors:required"))
+    .oneOf([yup.ref(field)], () => translate("errors:passwordsDontMatch"))
@@ -25,6 +25,18 @@ jest.doMock("react-native", () => {
   )
 })
 
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+)
+
+jest.mock("@react-native-community/netinfo", () =>
+  require("@react-native-community/netinfo/jest/netinfo-mock"),
+)
+
+jest.mock("react-native-share", () => ({
+  open: jest.fn(async () => ({ success: true })),
+}))
+
 jest.mock("i18next", () => ({
   currentLocale: "en",
   t: (key: string, params: Record<string, string>) => {